@@ -3,8 +3,13 @@
  * ContextVM Server Template
  *
  * A complete starter template for building MCP servers with ContextVM.
+ *
+ * Run it directly (`bun server-template.ts` or `npx tsx server-template.ts`) to serve it over
+ * Nostr with its own transport, or let cvmi host it in-process:
+ * `cvmi serve --module ./server-template.ts`.
  */
 
+import { fileURLToPath } from 'url';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import {
   NostrServerTransport,
@@ -21,22 +26,15 @@ const RELAYS = process.env.RELAYS?.split(',') || [
   'wss://cvm.otherstuff.ai',
 ];
 
-async function main() {
-  // 1. Setup signer and relay handler
-  const signer = new PrivateKeySigner(SERVER_PRIVATE_KEY);
-  const relayPool = new ApplesauceRelayPool(RELAYS);
-  const serverPubkey = await signer.getPublicKey();
-
-  console.log(`Server Public Key: ${serverPubkey}`);
-  console.log(`Relays: ${RELAYS.join(', ')}`);
-
-  // 2. Create MCP server
+// MCP server with its tools; `cvmi serve --module` imports this factory
+export function createServer(): McpServer {
+  // 1. Create MCP server
   const server = new McpServer({
     name: 'cvm-starter-server',
     version: '1.0.0',
   });
 
-  // 3. Register tools
+  // 2. Register tools
   server.registerTool(
     'echo',
     {
@@ -51,6 +49,20 @@ async function main() {
     })
   );
 
+  return server;
+}
+
+async function main() {
+  // 3. Setup signer and relay handler
+  const signer = new PrivateKeySigner(SERVER_PRIVATE_KEY);
+  const relayPool = new ApplesauceRelayPool(RELAYS);
+  const serverPubkey = await signer.getPublicKey();
+
+  console.log(`Server Public Key: ${serverPubkey}`);
+  console.log(`Relays: ${RELAYS.join(', ')}`);
+
+  const server = createServer();
+
   // 4. Configure ContextVM transport
   const transport = new NostrServerTransport({
     signer,
@@ -89,7 +101,11 @@ async function main() {
   });
 }
 
-main().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+// Only start the Nostr transport when run as the entry point, not when imported by cvmi
+// (`import.meta.main` is not available on older Node.js releases or under tsx)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
+}
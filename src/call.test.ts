@@ -1,5 +1,9 @@
 import { describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { EncryptionMode } from '@contextvm/sdk';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import type { Progress } from '@modelcontextprotocol/sdk/types.js';
 import {
   __test__,
@@ -67,7 +71,7 @@ describe('parseCallArgs', () => {
     expect(parsed.debug).toBe(true);
     expect(parsed.raw).toBe(true);
     expect(parsed.prettyRaw).toBe(true);
-    expect(parsed.extract).toBe('content[0].data');
+    expect(parsed.extract).toEqual(['content[0].data']);
     expect(parsed.verbose).toBe(true);
     expect(parsed.relays).toEqual(['wss://relay.example.com', 'wss://relay.two']);
     expect(parsed.encryption).toBe(EncryptionMode.REQUIRED);
@@ -83,6 +87,86 @@ describe('parseCallArgs', () => {
     expect(parsed.showServerDetails).toBe(true);
   });
 
+  it('parses the repl flag without a capability', () => {
+    const parsed = parseCallArgs(['weather', '--repl']);
+
+    expect(parsed.server).toBe('weather');
+    expect(parsed.capability).toBeUndefined();
+    expect(parsed.repl).toBe(true);
+  });
+
+  it('merges --input JSON with inline key=value pairs', async () => {
+    const testDir = await mkdtemp(join(tmpdir(), 'cvmi-call-input-'));
+    const inputPath = join(testDir, 'input.json');
+    await writeFile(inputPath, '{"filter":{"city":"Lisbon","days":3},"limit":5}');
+
+    try {
+      const parsed = parseCallArgs([
+        'weather',
+        'search',
+        'filter.city=Porto',
+        '--input',
+        inputPath,
+        'tags[0]=a',
+      ]);
+
+      expect(parsed.input).toEqual({
+        filter: { city: 'Porto', days: 3 },
+        limit: 5,
+        tags: ['a'],
+      });
+      expect(parsed.unknownFlags).toEqual([]);
+    } finally {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a second argument reading stdin', () => {
+    expect(() => parseCallArgs(['weather', 'echo', 'text=@-', '--batch', '-'])).toThrow(
+      'text= cannot read from stdin: it was already consumed by another argument'
+    );
+    expect(() => parseCallArgs(['weather', '--batch', '-', '--input', '-'])).toThrow(
+      '--input cannot read from stdin: it was already consumed by another argument'
+    );
+  });
+
+  it('keeps non-canonical numbers as strings and parses --no-validate', () => {
+    const parsed = parseCallArgs(['weather', 'lookup', 'zip=01234', 'days=3', '--no-validate']);
+
+    expect(parsed.input).toEqual({ zip: '01234', days: 3 });
+    expect(parsed.validate).toBe(false);
+  });
+
+  it('parses --output and --save-dir and rejects unknown formats', () => {
+    const parsed = parseCallArgs(['weather', 'lookup', '-o', 'yaml', '--save-dir', './out']);
+
+    expect(parsed.output).toBe('yaml');
+    expect(parsed.saveDir).toBe('./out');
+    expect(parseCallArgs(['weather', 'lookup', '--output', 'xml']).unknownFlags).toEqual([
+      '--output (xml)',
+    ]);
+  });
+
+  it('collects repeated --extract flags in order', () => {
+    const parsed = parseCallArgs([
+      'weather',
+      'lookup',
+      '--extract',
+      'content[?type=="text"].text',
+      '--extract',
+      'isError',
+    ]);
+
+    expect(parsed.extract).toEqual(['content[?type=="text"].text', 'isError']);
+  });
+
+  it('parses --timeout as a positive number of milliseconds', () => {
+    expect(parseCallArgs(['weather', 'lookup', '--timeout', '120000']).timeout).toBe(120000);
+    expect(parseCallArgs(['weather', 'lookup', '--timeout', '2m']).unknownFlags).toEqual([
+      '--timeout (2m)',
+    ]);
+  });
+
   it('enables stateless mode explicitly', () => {
     const parsed = parseCallArgs(['weather', 'tool:ping', '--stateless']);
 
@@ -656,7 +740,7 @@ Or pass a direct server identity in hex, npub, or nprofile format.]`);
       { privateKey: 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h' }
     );
 
-    expect(listTools).not.toHaveBeenCalled();
+    expect(listTools).toHaveBeenCalledTimes(1);
     expect(callTool).toHaveBeenCalledWith(
       {
         name: 'read_media_file',
@@ -730,7 +814,7 @@ Or pass a direct server identity in hex, npub, or nprofile format.]`);
       );
     });
 
-    expect(listTools).not.toHaveBeenCalled();
+    expect(listTools).toHaveBeenCalledTimes(1);
     expect(output.join('\n')).toContain('Progress: 2/4 starting oversized transfer');
 
     resetCreateRemoteClientFactoryForTests();
@@ -778,7 +862,7 @@ Or pass a direct server identity in hex, npub, or nprofile format.]`);
       );
     });
 
-    expect(listTools).not.toHaveBeenCalled();
+    expect(listTools).toHaveBeenCalledTimes(1);
     expect(output).toContain('{"content":[{"data":"abc"}]}');
 
     resetCreateRemoteClientFactoryForTests();
@@ -827,7 +911,7 @@ Or pass a direct server identity in hex, npub, or nprofile format.]`);
       );
     });
 
-    expect(listTools).not.toHaveBeenCalled();
+    expect(listTools).toHaveBeenCalledTimes(1);
     expect(output.join('\n')).toContain('  "content": [');
 
     resetCreateRemoteClientFactoryForTests();
@@ -872,14 +956,408 @@ Or pass a direct server identity in hex, npub, or nprofile format.]`);
         { path: './ot-demo/img.jpg' },
         {
           privateKey: 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h',
-          extract: 'content[0].data',
+          extract: ['content[0].data'],
         }
       );
     });
 
-    expect(listTools).not.toHaveBeenCalled();
+    expect(listTools).toHaveBeenCalledTimes(1);
     expect(output).toContain('aGVsbG8=');
 
     resetCreateRemoteClientFactoryForTests();
   });
 });
+
+describe('call resources and prompts', () => {
+  const SERVER_PUBKEY = '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3';
+  const PRIVATE_KEY = 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h';
+
+  function mockRemote(client: Record<string, unknown>) {
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client,
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+  }
+
+  it('reads a resource and renders its text contents', async () => {
+    const readResource = vi.fn().mockResolvedValue({
+      contents: [{ uri: 'weather://stations', mimeType: 'text/plain', text: 'LIS, OPO' }],
+    });
+    mockRemote({ readResource });
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'resource:weather://stations', {}, { privateKey: PRIVATE_KEY });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(readResource).toHaveBeenCalledWith({ uri: 'weather://stations' });
+    expect(output).toEqual(['LIS, OPO']);
+  });
+
+  it('lists resources when the resource prefix has no uri', async () => {
+    const listResources = vi.fn().mockResolvedValue({
+      resources: [{ uri: 'weather://stations', name: 'stations', description: 'All stations' }],
+    });
+    mockRemote({ listResources });
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'resource:', {}, { privateKey: PRIVATE_KEY });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(output).toContain('Resources');
+    expect(output).toContain('  • weather://stations — All stations');
+  });
+
+  it('expands a resource template and applies extract to the result', async () => {
+    const listResourceTemplates = vi.fn().mockResolvedValue({
+      resourceTemplates: [{ name: 'city', uriTemplate: 'weather://city/{name}{?units}' }],
+    });
+    const readResource = vi.fn().mockResolvedValue({
+      contents: [{ uri: 'weather://city/Lisbon?units=metric', text: '21C' }],
+    });
+    mockRemote({ listResourceTemplates, readResource });
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await call(
+        SERVER_PUBKEY,
+        'template:city',
+        { name: 'Lisbon', units: 'metric' },
+        { privateKey: PRIVATE_KEY, extract: ['contents[0].uri'] }
+      );
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(readResource).toHaveBeenCalledWith({ uri: 'weather://city/Lisbon?units=metric' });
+    expect(output).toEqual(['weather://city/Lisbon?units=metric']);
+  });
+
+  it('fetches prompts with stringified arguments and renders messages', async () => {
+    const listPrompts = vi.fn().mockResolvedValue({
+      prompts: [{ name: 'summary', arguments: [{ name: 'days', required: true }] }],
+    });
+    const getPrompt = vi.fn().mockResolvedValue({
+      description: 'Forecast summary',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Summarise 3 days' } }],
+    });
+    mockRemote({ listPrompts, getPrompt });
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'prompt:summary', { days: 3 }, { privateKey: PRIVATE_KEY });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(getPrompt).toHaveBeenCalledWith({ name: 'summary', arguments: { days: '3' } });
+    expect(output).toEqual(['Forecast summary', 'user:', 'Summarise 3 days']);
+  });
+
+  it('reports unknown prompts with the available names', async () => {
+    mockRemote({ listPrompts: vi.fn().mockResolvedValue({ prompts: [{ name: 'summary' }] }) });
+
+    await expect(
+      call(SERVER_PUBKEY, 'prompt:sumary', {}, { privateKey: PRIVATE_KEY })
+    ).rejects.toThrow('Prompt not found: sumary\nAvailable: summary');
+    resetCreateRemoteClientFactoryForTests();
+  });
+});
+
+describe('call --batch', () => {
+  it('runs calls from a JSONL file over one session and fails when any call fails', async () => {
+    const testDir = await mkdtemp(join(tmpdir(), 'cvmi-call-batch-'));
+    const batchPath = join(testDir, 'calls.jsonl');
+    await writeFile(batchPath, '{"tool":"ping"}\n{"tool":"missing"}\n');
+    const callTool = vi
+      .fn()
+      .mockResolvedValueOnce({ content: [] })
+      .mockRejectedValueOnce(new Error('Tool not found: missing'));
+    const listTools = vi.fn().mockResolvedValue({
+      tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+    });
+    const factory = vi.fn().mockResolvedValue({
+      client: { listTools, callTool },
+      metadata: {},
+      close: vi.fn().mockResolvedValue(undefined),
+    });
+    setCreateRemoteClientFactoryForTests(factory as never);
+
+    try {
+      const output = await captureConsoleOutputAsync(async () => {
+        await expect(
+          call(
+            '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3',
+            undefined,
+            {},
+            { privateKey: 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h', batch: batchPath }
+          )
+        ).rejects.toThrow('1 of 2 batch call(s) failed');
+      });
+
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(listTools).toHaveBeenCalledTimes(1);
+      expect(callTool).toHaveBeenCalledTimes(2);
+      expect(output.map((line) => JSON.parse(line).ok)).toEqual([true, false]);
+    } finally {
+      resetCreateRemoteClientFactoryForTests();
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+  it('looks up batch tools on every page of the tool list', async () => {
+    const testDir = await mkdtemp(join(tmpdir(), 'cvmi-call-batch-'));
+    const batchPath = join(testDir, 'calls.jsonl');
+    await writeFile(batchPath, '{"tool":"search","arguments":{}}\n');
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    const listTools = vi
+      .fn()
+      .mockResolvedValueOnce({
+        tools: [{ name: 'ping', inputSchema: { type: 'object' } }],
+        nextCursor: 'page-2',
+      })
+      .mockResolvedValueOnce({
+        tools: [
+          {
+            name: 'search',
+            inputSchema: {
+              type: 'object',
+              properties: { query: { type: 'string' } },
+              required: ['query'],
+            },
+          },
+        ],
+      });
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client: { listTools, callTool },
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+
+    try {
+      await captureConsoleOutputAsync(async () => {
+        await expect(
+          call(
+            '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3',
+            undefined,
+            {},
+            { privateKey: 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h', batch: batchPath }
+          )
+        ).rejects.toThrow('1 of 1 batch call(s) failed');
+      });
+
+      expect(listTools).toHaveBeenNthCalledWith(2, { cursor: 'page-2' });
+      expect(callTool).not.toHaveBeenCalled();
+    } finally {
+      resetCreateRemoteClientFactoryForTests();
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('call input validation', () => {
+  const SERVER_PUBKEY = '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3';
+  const PRIVATE_KEY = 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h';
+  const listTools = vi.fn().mockResolvedValue({
+    tools: [
+      {
+        name: 'lookup',
+        inputSchema: {
+          type: 'object',
+          properties: { zip: { type: 'string' }, limit: { type: 'integer' } },
+          required: ['zip'],
+        },
+      },
+    ],
+  });
+
+  it('sends schema-coerced input to the tool', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client: { listTools, callTool },
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+
+    const parsed = parseCallArgs(['weather', 'lookup', 'zip=01234', 'limit=5']);
+    await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'lookup', parsed.input, { privateKey: PRIVATE_KEY });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'lookup', arguments: { zip: '01234', limit: 5 } },
+      undefined,
+      expect.anything()
+    );
+  });
+
+  it('rejects invalid input before calling the tool unless validation is disabled', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client: { listTools, callTool },
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+
+    let rejection: unknown;
+    const output = await captureConsoleOutputAsync(async () => {
+      rejection = await call(
+        SERVER_PUBKEY,
+        'lookup',
+        { zipp: '01234' },
+        { privateKey: PRIVATE_KEY }
+      ).catch((error: unknown) => error);
+    });
+    expect((rejection as Error).message).toContain(
+      ['Invalid arguments for tool lookup:', '  - zip: missing required field', 'Run'].join('\n')
+    );
+    // The schema does not forbid extra keys, so an unknown one is only a warning.
+    expect(output).toEqual([
+      'Warning: arguments not in the schema of lookup:\n  - zipp: unknown field (did you mean zip?)',
+    ]);
+    expect(callTool).not.toHaveBeenCalled();
+
+    await captureConsoleOutputAsync(async () => {
+      await call(
+        SERVER_PUBKEY,
+        'lookup',
+        { zipp: '01234' },
+        { privateKey: PRIVATE_KEY, validate: false }
+      );
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'lookup', arguments: { zipp: '01234' } },
+      undefined,
+      expect.anything()
+    );
+  });
+});
+
+describe('call --output and --save-dir', () => {
+  const SERVER_PUBKEY = '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3';
+  const PRIVATE_KEY = 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h';
+
+  function mockCallTool(result: unknown) {
+    const callTool = vi.fn().mockResolvedValue(result);
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client: { listTools: vi.fn().mockResolvedValue({ tools: [] }), callTool },
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+  }
+
+  it('formats structured content as a table', async () => {
+    mockCallTool({
+      content: [],
+      structuredContent: [
+        { id: 'LIS', temp: 21 },
+        { id: 'OPO', temp: 18 },
+      ],
+    });
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'stations', {}, { privateKey: PRIVATE_KEY, output: 'table' });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(output.join('\n').split('\n')).toEqual(['id   temp', '───  ────', 'LIS  21', 'OPO  18']);
+  });
+
+  it('saves image content to files and prints their paths', async () => {
+    const saveDir = await mkdtemp(join(tmpdir(), 'cvmi-call-save-'));
+    mockCallTool({
+      content: [
+        { type: 'text', text: 'Chart ready' },
+        { type: 'image', mimeType: 'image/png', data: Buffer.from('png-bytes').toString('base64') },
+      ],
+    });
+
+    try {
+      const output = await captureConsoleOutputAsync(async () => {
+        await call(SERVER_PUBKEY, 'render_chart', {}, { privateKey: PRIVATE_KEY, saveDir });
+      });
+      resetCreateRemoteClientFactoryForTests();
+
+      const path = join(saveDir, 'render_chart-1.png');
+      expect(output).toEqual(['Chart ready', `[image image/png saved to ${path}]`]);
+      expect(await readFile(path, 'utf-8')).toBe('png-bytes');
+    } finally {
+      await rm(saveDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('call --timeout and cancellation', () => {
+  const SERVER_PUBKEY = '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3';
+  const PRIVATE_KEY = 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqj4xw9h';
+
+  function mockCallTool(callTool: ReturnType<typeof vi.fn>) {
+    setCreateRemoteClientFactoryForTests(
+      vi.fn().mockResolvedValue({
+        client: { listTools: vi.fn().mockResolvedValue({ tools: [] }), callTool },
+        metadata: {},
+        close: vi.fn().mockResolvedValue(undefined),
+      }) as never
+    );
+  }
+
+  it('passes the timeout and an abort signal to the tool call', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    const interruptListeners = process.listenerCount('SIGINT');
+    mockCallTool(callTool);
+
+    await captureConsoleOutputAsync(async () => {
+      await call(SERVER_PUBKEY, 'render', {}, { privateKey: PRIVATE_KEY, timeout: 120000 });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'render', arguments: {} },
+      undefined,
+      expect.objectContaining({
+        timeout: 120000,
+        resetTimeoutOnProgress: true,
+        signal: expect.any(AbortSignal),
+      })
+    );
+    expect(process.listenerCount('SIGINT')).toBe(interruptListeners);
+  });
+
+  it('explains request timeouts', async () => {
+    mockCallTool(
+      vi.fn().mockRejectedValue(new McpError(ErrorCode.RequestTimeout, 'Request timed out'))
+    );
+
+    await expect(
+      call(SERVER_PUBKEY, 'render', {}, { privateKey: PRIVATE_KEY, timeout: 500 })
+    ).rejects.toThrow('Call to render timed out after 500 ms without progress');
+    resetCreateRemoteClientFactoryForTests();
+  });
+
+  it('reports a cancelled call when the request is aborted', async () => {
+    mockCallTool(
+      vi.fn().mockImplementation(
+        (_request: unknown, _schema: unknown, options: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+            queueMicrotask(() => process.listeners('SIGINT').at(-1)?.('SIGINT'));
+          })
+      )
+    );
+
+    await expect(call(SERVER_PUBKEY, 'render', {}, { privateKey: PRIVATE_KEY })).rejects.toThrow(
+      'Call to render was cancelled'
+    );
+    resetCreateRemoteClientFactoryForTests();
+  });
+});
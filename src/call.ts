@@ -1,19 +1,49 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import type { Progress, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_REQUEST_TIMEOUT_MSEC } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { PrivateKeySigner, EncryptionMode } from '@contextvm/sdk';
 import { NostrClientTransport } from '@contextvm/sdk/transport';
 import { nip19 } from 'nostr-tools';
+import { join } from 'path';
 import {
   loadConfig,
   loadCallPrivateKeyFromEnv,
+  getConfigPaths,
   getUseConfig,
   listServerAliases,
   DEFAULT_RELAYS,
 } from './config/index.ts';
 import type { CvmiConfig, ServerTargetConfig } from './config/index.ts';
 import { generatePrivateKey, normalizePrivateKey, normalizePublicKey } from './utils/crypto.ts';
-import { BOLD, CYAN, DIM, RESET, TEXT } from './constants/ui.ts';
-import { renderDefaultResult } from './call/render-result.ts';
+import { BOLD, CYAN, DIM, RESET, TEXT, YELLOW } from './constants/ui.ts';
+import { printExtractedResult, printRawResult, renderDefaultResult } from './call/render-result.ts';
+import { extractResultValue } from './call/extract.ts';
+import { formatOutput, isOutputFormat, OUTPUT_FORMATS, selectOutputData } from './call/output.ts';
+import type { OutputFormat } from './call/output.ts';
+import { saveBinaryContent } from './call/save-content.ts';
+import { createProgressReporter } from './call/progress.ts';
+import { applyInputAssignment, mergeInput, readInputFile } from './call/input.ts';
+import type { InputContext } from './call/input.ts';
+import {
+  expandResourceTemplate,
+  findPrompt,
+  findResourceTemplate,
+  listCapabilityEntries,
+  listTools,
+  parseCapability,
+  printCapabilityList,
+  printPromptHelp,
+  printTemplateHelp,
+  toPromptArguments,
+} from './call/capability.ts';
+import type { CapabilityKind } from './call/capability.ts';
+import { runBatch } from './call/batch.ts';
+import { promptForTool, promptForToolInput } from './call/interactive.ts';
+import { findClosestName } from './call/suggest.ts';
+import { formatInputIssues, prepareToolInput } from './call/validate-input.ts';
+import { runCallRepl } from './call/repl.ts';
+import type { CallReplSession } from './call/repl.ts';
 import { renderSchemaProperties, renderToolSchema } from './call/render-schema.ts';
 
 const HEX_PUBKEY_PATTERN = /^[0-9a-f]{64}$/i;
@@ -35,7 +65,14 @@ export interface CallOptions {
   verbose?: boolean;
   raw?: boolean;
   prettyRaw?: boolean;
-  extract?: string;
+  extract?: string[];
+  output?: OutputFormat;
+  saveDir?: string;
+  timeout?: number;
+  repl?: boolean;
+  batch?: string;
+  validate?: boolean;
+  interactive?: boolean;
   help?: boolean;
 }
 
@@ -47,7 +84,14 @@ export interface ParseCallResult {
   verbose: boolean;
   raw: boolean;
   prettyRaw: boolean;
-  extract: string | undefined;
+  extract: string[] | undefined;
+  output: OutputFormat | undefined;
+  saveDir: string | undefined;
+  timeout: number | undefined;
+  repl: boolean;
+  batch: string | undefined;
+  validate: boolean;
+  interactive: boolean;
   help: boolean;
   privateKey: string | undefined;
   relays: string[] | undefined;
@@ -58,7 +102,7 @@ export interface ParseCallResult {
   unknownFlags: string[];
 }
 
-interface ResolvedServerTarget {
+export interface ResolvedServerTarget {
   input: string;
   server: string;
   relays?: string[];
@@ -68,7 +112,7 @@ interface ResolvedServerTarget {
   description?: string;
 }
 
-interface ServerMetadata {
+export interface ServerMetadata {
   name?: string;
   about?: string;
   website?: string;
@@ -80,26 +124,6 @@ interface CompactAliasSummary {
   context?: string;
 }
 
-type ExtractPathSegment = string | number;
-
-function coerceValue(value: string): unknown {
-  if (value === 'true') return true;
-  if (value === 'false') return false;
-  if (value === 'null') return null;
-  if (/^-?\d+(?:\.\d+)?$/.test(value)) return Number(value);
-  if (
-    (value.startsWith('{') && value.endsWith('}')) ||
-    (value.startsWith('[') && value.endsWith(']'))
-  ) {
-    try {
-      return JSON.parse(value);
-    } catch {
-      return value;
-    }
-  }
-  return value;
-}
-
 export function parseCallArgs(args: string[]): ParseCallResult {
   const result: ParseCallResult = {
     server: undefined,
@@ -110,6 +134,13 @@ export function parseCallArgs(args: string[]): ParseCallResult {
     raw: false,
     prettyRaw: false,
     extract: undefined,
+    output: undefined,
+    saveDir: undefined,
+    timeout: undefined,
+    repl: false,
+    batch: undefined,
+    validate: true,
+    interactive: false,
     help: false,
     privateKey: undefined,
     relays: undefined,
@@ -119,6 +150,10 @@ export function parseCallArgs(args: string[]): ParseCallResult {
     config: undefined,
     unknownFlags: [],
   };
+  // `--batch -` reads stdin after parsing, so key=@- and `--input -` must not claim it too.
+  const batchReadsStdin = args.some((arg, index) => arg === '--batch' && args[index + 1] === '-');
+  const inputContext: InputContext = { allowStdin: true, stdinUsed: batchReadsStdin };
+  let inputFile: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i] ?? '';
@@ -145,7 +180,29 @@ export function parseCallArgs(args: string[]): ParseCallResult {
       result.raw = true;
       result.prettyRaw = true;
     } else if (arg === '--extract') {
-      result.extract = consumeValue('--extract');
+      const value = consumeValue('--extract');
+      if (value) result.extract = [...(result.extract ?? []), value];
+    } else if (arg === '--output' || arg === '-o') {
+      const value = consumeValue('--output');
+      if (isOutputFormat(value)) result.output = value;
+      else if (value) result.unknownFlags.push(`--output (${value})`);
+    } else if (arg === '--save-dir') {
+      result.saveDir = consumeValue('--save-dir');
+    } else if (arg === '--timeout') {
+      const value = consumeValue('--timeout');
+      const timeout = Number(value);
+      if (value && /^\d+$/.test(value) && timeout > 0) result.timeout = timeout;
+      else if (value) result.unknownFlags.push(`--timeout (${value})`);
+    } else if (arg === '--repl') {
+      result.repl = true;
+    } else if (arg === '--batch') {
+      result.batch = consumeValue('--batch');
+    } else if (arg === '--input') {
+      inputFile = consumeValue('--input');
+    } else if (arg === '--interactive' || arg === '-i') {
+      result.interactive = true;
+    } else if (arg === '--no-validate') {
+      result.validate = false;
     } else if (arg === '--help' || arg === '-h') {
       result.help = true;
     } else if (arg === '--private-key') {
@@ -173,18 +230,18 @@ export function parseCallArgs(args: string[]): ParseCallResult {
       result.server = arg;
     } else if (!result.capability) {
       result.capability = arg;
-    } else if (arg.includes('=')) {
-      const [key, ...rest] = arg.split('=');
-      if (!key) {
-        result.unknownFlags.push(arg);
-        continue;
-      }
-      result.input[key] = coerceValue(rest.join('='));
-    } else {
+    } else if (!applyInputAssignment(result.input, arg, inputContext)) {
       result.unknownFlags.push(arg);
     }
   }
 
+  if (inputFile) {
+    result.input = mergeInput(readInputFile(inputFile, inputContext), result.input) as Record<
+      string,
+      unknown
+    >;
+  }
+
   return result;
 }
 
@@ -192,7 +249,7 @@ function getAlias(config: CvmiConfig, input: string): ServerTargetConfig | undef
   return config.servers?.[input];
 }
 
-function resolveServerTarget(
+export function resolveServerTarget(
   config: CvmiConfig,
   serverInput: string,
   options: CallOptions
@@ -220,7 +277,7 @@ function resolveServerTarget(
   };
 }
 
-function assertKnownServerInput(config: CvmiConfig, serverInput: string): void {
+export function assertKnownServerInput(config: CvmiConfig, serverInput: string): void {
   if (getAlias(config, serverInput) || looksLikeDirectServerIdentity(serverInput)) {
     return;
   }
@@ -234,7 +291,7 @@ function assertKnownServerInput(config: CvmiConfig, serverInput: string): void {
   );
 }
 
-function formatDisplayPubkey(pubkey: string): string {
+export function formatDisplayPubkey(pubkey: string): string {
   try {
     return nip19.npubEncode(normalizePublicKey(pubkey));
   } catch {
@@ -242,7 +299,7 @@ function formatDisplayPubkey(pubkey: string): string {
   }
 }
 
-function getDisplayRelays(target: ResolvedServerTarget): string[] {
+export function getDisplayRelays(target: ResolvedServerTarget): string[] {
   if (target.relays && target.relays.length > 0) {
     return target.relays;
   }
@@ -265,126 +322,6 @@ function logVerbose(enabled: boolean | undefined, message: string): void {
   }
 }
 
-function formatProgressValue(progress: Progress): string {
-  if (typeof progress.total === 'number' && Number.isFinite(progress.total)) {
-    return `${progress.progress}/${progress.total}`;
-  }
-
-  return String(progress.progress);
-}
-
-function createProgressHandler(
-  enabled: boolean | undefined
-): ((progress: Progress) => void) | undefined {
-  if (!enabled) {
-    return () => {};
-  }
-
-  return (progress: Progress): void => {
-    const summary = formatProgressValue(progress);
-    const message = typeof progress.message === 'string' ? ` ${progress.message}` : '';
-    console.log(`${DIM}Progress:${RESET} ${summary}${message}`);
-  };
-}
-
-function parseExtractPath(path: string): ExtractPathSegment[] {
-  const segments: ExtractPathSegment[] = [];
-  let current = '';
-  let previousWasIndex = false;
-
-  for (let index = 0; index < path.length; index++) {
-    const char = path[index];
-
-    if (char === '.') {
-      if (!current) {
-        if (previousWasIndex) {
-          previousWasIndex = false;
-          continue;
-        }
-
-        throw new Error(`Invalid extract path: ${path}`);
-      }
-      segments.push(current);
-      current = '';
-      previousWasIndex = false;
-      continue;
-    }
-
-    if (char === '[') {
-      if (current) {
-        segments.push(current);
-        current = '';
-      }
-
-      const closeIndex = path.indexOf(']', index);
-      if (closeIndex === -1) {
-        throw new Error(`Invalid extract path: ${path}`);
-      }
-
-      const token = path.slice(index + 1, closeIndex);
-      if (!/^\d+$/.test(token)) {
-        throw new Error(`Invalid extract path: ${path}`);
-      }
-
-      segments.push(Number(token));
-      previousWasIndex = true;
-      index = closeIndex;
-      continue;
-    }
-
-    current += char;
-    previousWasIndex = false;
-  }
-
-  if (current) {
-    segments.push(current);
-  }
-
-  if (segments.length === 0) {
-    throw new Error(`Invalid extract path: ${path}`);
-  }
-
-  return segments;
-}
-
-function extractResultValue(value: unknown, path: string): unknown {
-  const segments = parseExtractPath(path);
-  let current: unknown = value;
-
-  for (const segment of segments) {
-    if (typeof segment === 'number') {
-      if (!Array.isArray(current) || segment >= current.length) {
-        throw new Error(`Extract path not found: ${path}`);
-      }
-      current = current[segment];
-      continue;
-    }
-
-    if (typeof current !== 'object' || current === null || !(segment in current)) {
-      throw new Error(`Extract path not found: ${path}`);
-    }
-
-    current = (current as Record<string, unknown>)[segment];
-  }
-
-  return current;
-}
-
-function printRawResult(result: unknown, pretty: boolean): void {
-  console.log(JSON.stringify(result, null, pretty ? 2 : undefined));
-}
-
-function printExtractedResult(result: unknown, path: string): void {
-  const extracted = extractResultValue(result, path);
-
-  if (typeof extracted === 'string') {
-    console.log(extracted);
-    return;
-  }
-
-  printRawResult(extracted, false);
-}
-
 function formatSchemaTypeCompact(schema: Record<string, unknown> | undefined): string {
   if (!schema) return 'unknown';
 
@@ -514,8 +451,20 @@ async function createRemoteClient(target: ResolvedServerTarget, options: CallOpt
   const client = new Client({ name: 'cvmi', version: '0.1.0' });
   await client.connect(transport);
 
+  // The SDK sends notifications/cancelled without awaiting it, so track
+  // outgoing messages and let close() wait for them to reach the relays.
+  const pendingSends = new Set<Promise<void>>();
+  const send = transport.send.bind(transport);
+  transport.send = (...args) => {
+    const pending = send(...args);
+    pendingSends.add(pending);
+    void pending.catch(() => {}).finally(() => pendingSends.delete(pending));
+    return pending;
+  };
+
   return {
     client,
+    protocolVersion: transport.getServerInitializeResult()?.protocolVersion,
     metadata: {
       name: transport.getServerInitializeName(),
       about: transport.getServerInitializeAbout(),
@@ -523,12 +472,29 @@ async function createRemoteClient(target: ResolvedServerTarget, options: CallOpt
       picture: transport.getServerInitializePicture(),
     } satisfies ServerMetadata,
     async close() {
+      await Promise.allSettled(pendingSends);
       await client.close();
       await transport.close();
     },
   };
 }
 
+export type RemoteClient = Awaited<ReturnType<RemoteClientFactory>>;
+
+/**
+ * Open a client session against a resolved target, falling back to
+ * CVMI_CALL_PRIVATE_KEY when no explicit private key is passed.
+ */
+export async function openRemoteClient(
+  target: ResolvedServerTarget,
+  options: CallOptions
+): Promise<RemoteClient> {
+  return createRemoteClientFactory(target, {
+    ...options,
+    privateKey: options.privateKey ?? loadCallPrivateKeyFromEnv(),
+  });
+}
+
 function printServerSummary(
   target: ResolvedServerTarget,
   tools: Tool[],
@@ -628,59 +594,13 @@ function resolveToolName(capability: string): string {
   return capability.startsWith('tool:') ? capability.slice('tool:'.length) : capability;
 }
 
-function levenshteinDistance(left: string, right: string): number {
-  const rows = left.length + 1;
-  const cols = right.length + 1;
-  const matrix = Array.from({ length: rows }, () => Array<number>(cols).fill(0));
-
-  for (let row = 0; row < rows; row++) {
-    matrix[row]![0] = row;
-  }
-
-  for (let col = 0; col < cols; col++) {
-    matrix[0]![col] = col;
-  }
-
-  for (let row = 1; row < rows; row++) {
-    for (let col = 1; col < cols; col++) {
-      const substitutionCost = left[row - 1] === right[col - 1] ? 0 : 1;
-      matrix[row]![col] = Math.min(
-        matrix[row - 1]![col]! + 1,
-        matrix[row]![col - 1]! + 1,
-        matrix[row - 1]![col - 1]! + substitutionCost
-      );
-    }
-  }
-
-  return matrix[rows - 1]![cols - 1]!;
-}
-
-function findClosestToolName(toolNames: string[], requestedTool: string): string | undefined {
-  const normalizedRequestedTool = requestedTool.toLowerCase();
-  let bestMatch: { name: string; distance: number } | undefined;
-
-  for (const toolName of toolNames) {
-    const distance = levenshteinDistance(toolName.toLowerCase(), normalizedRequestedTool);
-    if (!bestMatch || distance < bestMatch.distance) {
-      bestMatch = { name: toolName, distance };
-    }
-  }
-
-  if (!bestMatch) {
-    return undefined;
-  }
-
-  const threshold = Math.max(2, Math.floor(requestedTool.length / 3));
-  return bestMatch.distance <= threshold ? bestMatch.name : undefined;
-}
-
 function buildMissingToolError(
   serverInput: string,
   capabilityArg: string,
   availableToolNames: string[] = []
 ): Error {
   const requestedTool = resolveToolName(capabilityArg);
-  const suggestion = findClosestToolName(availableToolNames, requestedTool);
+  const suggestion = findClosestName(availableToolNames, requestedTool);
 
   return new Error(
     [
@@ -718,6 +638,205 @@ function isMissingToolInvocationError(error: unknown): boolean {
   return /tool.+not found|unknown tool|method not found|-32601/i.test(error.message);
 }
 
+/**
+ * Print a tool, resource, or prompt result. `name` seeds the file names used
+ * by --save-dir.
+ */
+function printCallResult(
+  result: unknown,
+  options: Pick<CallOptions, 'raw' | 'prettyRaw' | 'extract' | 'output' | 'saveDir'>,
+  name = 'result'
+): void {
+  if (options.saveDir) {
+    result = saveBinaryContent(result, options.saveDir, name).result;
+  }
+
+  if (options.output) {
+    console.log(formatOutput(selectOutputData(result, options.extract), options.output));
+    return;
+  }
+
+  if (options.extract) {
+    printExtractedResult(result, options.extract);
+    return;
+  }
+
+  if (options.raw) {
+    printRawResult(result, options.prettyRaw ?? false);
+    return;
+  }
+
+  renderDefaultResult(result);
+}
+
+/**
+ * Handle resource:, template:, and prompt: capabilities. An empty name lists
+ * everything of that kind instead of reading a single entry.
+ */
+async function runCapability(
+  target: ResolvedServerTarget,
+  remote: RemoteClient,
+  kind: Exclude<CapabilityKind, 'tool'>,
+  name: string,
+  input: Record<string, unknown>,
+  options: CallOptions
+): Promise<void> {
+  const { client } = remote;
+
+  if (!name) {
+    logVerbose(options.verbose, `Listing ${kind}s...`);
+    const list = await listCapabilityEntries(client, kind);
+    if (options.raw || options.extract || options.output) {
+      printCallResult(list, options);
+    } else {
+      printCapabilityList(target.input, list);
+    }
+    return;
+  }
+
+  let result: unknown;
+  if (kind === 'resource') {
+    logVerbose(options.verbose, `Reading resource: ${name}`);
+    result = await client.readResource({ uri: name });
+  } else if (kind === 'template') {
+    const template = await findResourceTemplate(client, target.input, name);
+    if (options.help) {
+      printTemplateHelp(target.input, template);
+      return;
+    }
+
+    const uri = expandResourceTemplate(template, input);
+    logVerbose(options.verbose, `Reading resource: ${uri}`);
+    result = await client.readResource({ uri });
+  } else {
+    const prompt = await findPrompt(client, target.input, name);
+    if (options.help) {
+      printPromptHelp(target.input, prompt);
+      return;
+    }
+
+    logVerbose(options.verbose, `Fetching prompt: ${prompt.name}`);
+    result = await client.getPrompt({ name: prompt.name, arguments: toPromptArguments(input) });
+  }
+
+  printCallResult(result, options, name);
+}
+
+/**
+ * Call a tool with live progress. The timeout restarts on every progress
+ * notification, and aborting `signal` sends notifications/cancelled.
+ */
+async function callRemoteTool(
+  remote: RemoteClient,
+  name: string,
+  input: Record<string, unknown>,
+  options: CallOptions,
+  signal?: AbortSignal
+): Promise<unknown> {
+  logVerbose(options.verbose, `Calling tool: ${name}`);
+  const progress = createProgressReporter(name, { verbose: options.verbose });
+
+  try {
+    return await remote.client.callTool({ name, arguments: input }, undefined, {
+      onprogress: progress.update,
+      resetTimeoutOnProgress: true,
+      timeout: options.timeout,
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error(`Call to ${name} was cancelled`);
+    }
+
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT_MSEC;
+      throw new Error(
+        `Call to ${name} timed out after ${timeout} ms without progress (use --timeout <ms> to wait longer)`
+      );
+    }
+
+    throw error;
+  } finally {
+    progress.stop();
+  }
+}
+
+/**
+ * Run one request that Ctrl+C cancels instead of killing the process. A second
+ * Ctrl+C falls through to Node's default handler and exits immediately.
+ */
+async function withInterruptCancellation<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort('Cancelled by user');
+  process.once('SIGINT', onInterrupt);
+
+  try {
+    return await run(controller.signal);
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
+
+/**
+ * Coerce and validate tool input against the tool's inputSchema. Tools missing
+ * from the listing are passed through so the server can report them itself.
+ */
+function prepareToolArguments(
+  target: ResolvedServerTarget,
+  tool: Tool | undefined,
+  input: Record<string, unknown>,
+  options: Pick<CallOptions, 'validate'>
+): Record<string, unknown> {
+  if (!tool || options.validate === false) {
+    return input;
+  }
+
+  const { value, issues, warnings } = prepareToolInput(tool.inputSchema, input);
+  if (warnings.length > 0) {
+    console.error(
+      [`${YELLOW}Warning: arguments not in the schema of ${tool.name}:${RESET}`]
+        .concat(formatInputIssues(warnings))
+        .join('\n')
+    );
+  }
+  if (issues.length > 0) {
+    throw new Error(
+      [
+        `Invalid arguments for tool ${tool.name}:`,
+        ...formatInputIssues(issues),
+        `Run \`cvmi call ${target.input} ${tool.name} --help\` to see the input schema.`,
+      ].join('\n')
+    );
+  }
+
+  return value;
+}
+
+function createReplSession(
+  target: ResolvedServerTarget,
+  remote: RemoteClient,
+  tools: Tool[],
+  options: CallOptions
+): CallReplSession {
+  return {
+    label: resolveServerMetadataLabel(target, remote.metadata),
+    tools,
+    printTools: renderToolList,
+    printToolHelp: (tool) => printToolHelp(target, tool),
+    callTool: (name, input, signal) => {
+      const tool = tools.find((entry) => entry.name === name);
+      return callRemoteTool(
+        remote,
+        name,
+        prepareToolArguments(target, tool, input, options),
+        options,
+        signal
+      );
+    },
+    printResult: (result, state, name) => printCallResult(result, { ...options, ...state }, name),
+  };
+}
+
 export async function call(
   serverArg: string | undefined,
   capabilityArg: string | undefined,
@@ -741,78 +860,129 @@ export async function call(
     process.exit(1);
   }
 
+  if (options.interactive && !process.stdin.isTTY) {
+    throw new Error('--interactive needs an interactive terminal (TTY).');
+  }
+
   assertKnownServerInput(config, serverInput);
   const target = resolveServerTarget(config, serverInput, options);
   logVerbose(options.verbose, `Connecting to ${target.aliasName ?? target.server}...`);
-  const remote = await createRemoteClientFactory(target, {
-    ...options,
-    privateKey: options.privateKey ?? loadCallPrivateKeyFromEnv(),
-  });
+  const remote = await openRemoteClient(target, options);
 
   try {
+    if (options.repl) {
+      if (capabilityArg) {
+        throw new Error('--repl opens a session for the whole server; omit the tool argument.');
+      }
+
+      logVerbose(options.verbose, 'Discovering tools...');
+      const tools = await listTools(remote.client);
+      await runCallRepl(
+        createReplSession(target, remote, tools, options),
+        {
+          raw: options.raw ?? false,
+          prettyRaw: options.prettyRaw ?? false,
+          extract: options.extract,
+        },
+        {
+          input: process.stdin,
+          output: process.stdout,
+          terminal: process.stdin.isTTY,
+          historyPath: join(getConfigPaths().globalDir, 'call_history'),
+        }
+      );
+      return;
+    }
+
+    if (options.batch) {
+      if (capabilityArg) {
+        throw new Error('--batch reads tool names from its input; omit the tool argument.');
+      }
+
+      let toolsPromise: Promise<Tool[]> | undefined;
+      const summary = await runBatch(options.batch, async (name, args) => {
+        const tools =
+          options.validate === false ? [] : await (toolsPromise ??= listTools(remote.client));
+        const tool = tools.find((entry) => entry.name === name);
+        return callRemoteTool(
+          remote,
+          name,
+          prepareToolArguments(target, tool, args, options),
+          options
+        );
+      });
+      if (summary.failed > 0) {
+        throw new Error(`${summary.failed} of ${summary.total} batch call(s) failed`);
+      }
+      return;
+    }
+
+    let tools: Tool[] | undefined;
     if (!capabilityArg) {
       logVerbose(options.verbose, 'Discovering tools...');
-      const toolsResult = await remote.client.listTools();
-      const tools = toolsResult.tools;
-      printServerHelp(target, tools, remote.metadata, options);
+      tools = await listTools(remote.client);
+      if (!options.interactive) {
+        printServerHelp(target, tools, remote.metadata, options);
+        return;
+      }
+
+      capabilityArg = (await promptForTool(tools)).name;
+    }
+
+    const capability = parseCapability(capabilityArg);
+    if (capability.kind !== 'tool') {
+      await runCapability(target, remote, capability.kind, capability.name, input, options);
       return;
     }
 
-    const toolName = resolveToolName(capabilityArg);
+    const toolName = capability.name;
     if (options.help) {
       logVerbose(options.verbose, 'Discovering tools...');
-      const toolsResult = await remote.client.listTools();
-      const tool = toolsResult.tools.find((entry) => entry.name === toolName);
+      const allTools = await listTools(remote.client);
+      const tool = allTools.find((entry) => entry.name === toolName);
       if (!tool) {
-        printMissingToolGuidance(
-          target,
-          capabilityArg,
-          toolsResult.tools,
-          remote.metadata,
-          options
-        );
+        printMissingToolGuidance(target, capabilityArg, allTools, remote.metadata, options);
         process.exit(1);
       }
       printToolHelp(target, tool);
       return;
     }
 
-    logVerbose(options.verbose, `Calling tool: ${toolName}`);
+    if (!tools && (options.validate !== false || options.interactive)) {
+      logVerbose(options.verbose, 'Discovering tools...');
+      tools = await listTools(remote.client);
+    }
+
+    const tool = tools?.find((entry) => entry.name === toolName);
+    let toolInput = input;
+    if (options.interactive) {
+      if (!tools || !tool) {
+        printMissingToolGuidance(target, capabilityArg, tools ?? [], remote.metadata, options);
+        process.exit(1);
+      }
+      toolInput = await promptForToolInput(tool, toolInput);
+    }
+    toolInput = prepareToolArguments(target, tool, toolInput, options);
+
     let result;
     try {
-      result = await remote.client.callTool(
-        {
-          name: toolName,
-          arguments: input,
-        },
-        undefined,
-        {
-          onprogress: createProgressHandler(options.verbose),
-          resetTimeoutOnProgress: true,
-        }
+      result = await withInterruptCancellation((signal) =>
+        callRemoteTool(remote, toolName, toolInput, options, signal)
       );
     } catch (error) {
       if (!isMissingToolInvocationError(error)) {
         throw error;
       }
 
-      logVerbose(options.verbose, 'Discovering tools...');
-      const toolsResult = await remote.client.listTools();
-      printMissingToolGuidance(target, capabilityArg, toolsResult.tools, remote.metadata, options);
+      if (!tools) {
+        logVerbose(options.verbose, 'Discovering tools...');
+        tools = await listTools(remote.client);
+      }
+      printMissingToolGuidance(target, capabilityArg, tools, remote.metadata, options);
       process.exit(1);
     }
 
-    if (options.extract) {
-      printExtractedResult(result, options.extract);
-      return;
-    }
-
-    if (options.raw) {
-      printRawResult(result, options.prettyRaw ?? false);
-      return;
-    }
-
-    renderDefaultResult(result);
+    printCallResult(result, options, toolName);
   } finally {
     await remote.close();
   }
@@ -838,7 +1008,10 @@ ${BOLD}Description:${RESET}
 ${BOLD}Arguments:${RESET}
   <server>                Server identity (hex, npub, nprofile) or configured alias
   <tool>                  Tool name, or tool:<name> for explicit tool selection
-  key=value               Tool input arguments
+  resource:<uri>          Read a resource (resource: alone lists resources)
+  template:<name>         Expand a resource template with key=value and read it (template: lists)
+  prompt:<name>           Fetch a prompt with arg=value arguments (prompt: lists)
+  key=value               Tool input, template variables, or prompt arguments
 
 ${BOLD}Options:${RESET}
   --config <path>         Path to custom config JSON file
@@ -850,7 +1023,16 @@ ${BOLD}Options:${RESET}
   --details               Show resolved server identity and relay details during inspection
   --raw                   Print raw JSON result as compact JSON
   --pretty-raw            Print raw JSON result with indentation
-  --extract <path>        Print a specific result field, e.g. content[0].data
+  --extract <query>       Print part of the result, e.g. content[0].data or content[?type=="text"].text
+                          (JMESPath-style: [*], [?filter], [1:3], [], |; repeat for several values)
+  --output, -o <format>   Format the result as ${OUTPUT_FORMATS.join(', ')}
+  --save-dir <dir>        Save image, audio, and blob content to files and print their paths
+  --timeout <ms>          Fail a tool call after this long without progress (default ${DEFAULT_REQUEST_TIMEOUT_MSEC})
+  --repl                  Keep one session open and call tools interactively
+  --batch <file|->        Run JSONL tool calls from a file or stdin over one session
+  --input <file|->        Read tool input from a JSON file or stdin; key=value pairs override it
+  --interactive, -i       Prompt for missing tool input (and the tool itself) from its inputSchema
+  --no-validate           Send tool input as-is, skipping inputSchema coercion and validation
   --verbose               Enable cvmi progress logging
   --debug                 Enable SDK debug logging
   --help, -h              Show this help message
@@ -860,6 +1042,10 @@ ${BOLD}Private key:${RESET}
 
 ${BOLD}Tool input:${RESET}
   Use key=value arguments. Quote the full argument when passing JSON values, e.g. 'filters={"kinds":[1],"limit":10}'
+  Build nested input with dotted or indexed keys: filter.city=Lisbon tags[0]=a
+  Use key:=<json> for explicit JSON, key=@./file to read a value from a file, key=@- from stdin
+  Input is coerced to the tool's inputSchema types and validated before the call is sent
+  Without a schema only canonical numbers are coerced: days=3 is a number, zip=01234 stays a string
 
 ${BOLD}Aliases & config:${RESET}
   Priority: CLI > custom config (--config) > project .cvmi.json > global ~/.cvmi/config.json > env vars
@@ -872,6 +1058,16 @@ ${BOLD}Examples:${RESET}
   ${DIM}$${RESET} cvmi call weather get_current city=Lisbon
   ${DIM}$${RESET} cvmi call weather get_current city=Lisbon --raw
   ${DIM}$${RESET} cvmi call files read_media_file path=./img.jpg --extract content[0].data
+  ${DIM}$${RESET} cvmi call weather get_current city=Lisbon --extract 'content[?type=="text"].text'
+  ${DIM}$${RESET} cvmi call weather resource:
+  ${DIM}$${RESET} cvmi call weather resource:weather://stations
+  ${DIM}$${RESET} cvmi call weather template:city name=Lisbon --raw
+  ${DIM}$${RESET} cvmi call weather prompt:forecast_summary city=Lisbon
+  ${DIM}$${RESET} cvmi call weather list_stations --output table
+  ${DIM}$${RESET} cvmi call charts render_chart series=temps --save-dir ./charts
+  ${DIM}$${RESET} cvmi call weather get_current --interactive
+  ${DIM}$${RESET} cvmi call weather --repl
+  ${DIM}$${RESET} cvmi call weather --batch smoke.jsonl
   `);
 
   printAliasSummaries(aliases);
@@ -0,0 +1,77 @@
+import { Readable } from 'stream';
+import { describe, expect, it, vi } from 'vitest';
+import { parseBatchLine, runBatch } from './batch.ts';
+
+async function runLines(
+  lines: string[],
+  callTool: (name: string, input: Record<string, unknown>) => Promise<unknown>
+) {
+  const output: string[] = [];
+  const log = console.log;
+  console.log = (message?: unknown) => output.push(String(message ?? ''));
+
+  try {
+    const summary = await runBatch('-', callTool, Readable.from([lines.join('\n')]));
+    return { summary, reports: output.map((line) => JSON.parse(line)) };
+  } finally {
+    console.log = log;
+  }
+}
+
+describe('parseBatchLine', () => {
+  it('parses tool and arguments, defaulting arguments to an empty object', () => {
+    expect(parseBatchLine('{"tool":"ping"}')).toEqual({ tool: 'ping', arguments: {} });
+    expect(parseBatchLine('{"tool":"echo","arguments":{"text":"hi"}}')).toEqual({
+      tool: 'echo',
+      arguments: { text: 'hi' },
+    });
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseBatchLine('{nope')).toThrow('Invalid JSON');
+    expect(() => parseBatchLine('{"arguments":{}}')).toThrow('Missing "tool" name');
+    expect(() => parseBatchLine('{"tool":"echo","arguments":[1]}')).toThrow(
+      '"arguments" must be an object'
+    );
+  });
+});
+
+describe('runBatch', () => {
+  it('runs each line in order and reports one JSON result per call', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+
+    const { summary, reports } = await runLines(
+      ['{"tool":"ping"}', '', '{"tool":"echo","arguments":{"text":"hi"}}'],
+      callTool
+    );
+
+    expect(callTool).toHaveBeenNthCalledWith(1, 'ping', {});
+    expect(callTool).toHaveBeenNthCalledWith(2, 'echo', { text: 'hi' });
+    expect(summary).toEqual({ total: 2, failed: 0 });
+    expect(reports).toEqual([
+      expect.objectContaining({ line: 1, tool: 'ping', ok: true, durationMs: expect.any(Number) }),
+      expect.objectContaining({ line: 3, tool: 'echo', ok: true }),
+    ]);
+    expect(reports[0].result).toEqual({ content: [{ type: 'text', text: 'ok' }] });
+  });
+
+  it('keeps going after failures and counts invalid lines, thrown errors, and isError results', async () => {
+    const callTool = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Request timed out'))
+      .mockResolvedValueOnce({ isError: true, content: [{ type: 'text', text: 'bad city' }] })
+      .mockResolvedValueOnce({ content: [] });
+
+    const { summary, reports } = await runLines(
+      ['{"tool":"slow"}', 'not json', '{"tool":"weather"}', '{"tool":"ping"}'],
+      callTool
+    );
+
+    expect(summary).toEqual({ total: 4, failed: 3 });
+    expect(reports.map((report) => report.ok)).toEqual([false, false, false, true]);
+    expect(reports[0]).toMatchObject({ tool: 'slow', error: 'Request timed out' });
+    expect(reports[1]).toMatchObject({ line: 2, error: 'Invalid JSON' });
+    expect(reports[1].tool).toBeUndefined();
+    expect(reports[2].result.isError).toBe(true);
+  });
+});
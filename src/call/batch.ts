@@ -0,0 +1,113 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+export interface BatchCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface BatchCallResult {
+  line: number;
+  tool?: string;
+  ok: boolean;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  failed: number;
+}
+
+/**
+ * Parse one JSONL batch entry of the form `{ "tool": "...", "arguments": {...} }`.
+ */
+export function parseBatchLine(line: string): BatchCall {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    throw new Error('Invalid JSON');
+  }
+
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error('Expected an object with "tool" and optional "arguments"');
+  }
+
+  const { tool, arguments: args } = entry as { tool?: unknown; arguments?: unknown };
+  if (typeof tool !== 'string' || !tool) {
+    throw new Error('Missing "tool" name');
+  }
+
+  if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    throw new Error('"arguments" must be an object');
+  }
+
+  return { tool, arguments: (args as Record<string, unknown> | undefined) ?? {} };
+}
+
+function isToolErrorResult(result: unknown): boolean {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    (result as { isError?: unknown }).isError === true
+  );
+}
+
+function openBatchSource(source: string): NodeJS.ReadableStream {
+  return source === '-' ? process.stdin : createReadStream(source, 'utf-8');
+}
+
+/**
+ * Run every call from a JSONL file (or `-` for stdin) in order and print one
+ * JSON result per line. Lines that fail to parse, calls that throw, and tool
+ * results flagged with `isError` are all reported as failures.
+ */
+export async function runBatch(
+  source: string,
+  callTool: (name: string, input: Record<string, unknown>) => Promise<unknown>,
+  input: NodeJS.ReadableStream = openBatchSource(source)
+): Promise<BatchSummary> {
+  const summary: BatchSummary = { total: 0, failed: 0 };
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    summary.total++;
+    const startedAt = performance.now();
+    let tool: string | undefined;
+    let result: unknown;
+    let error: string | undefined;
+
+    try {
+      const entry = parseBatchLine(line);
+      tool = entry.tool;
+      result = await callTool(entry.tool, entry.arguments);
+    } catch (callError) {
+      error = callError instanceof Error ? callError.message : String(callError);
+    }
+
+    const ok = error === undefined && !isToolErrorResult(result);
+    if (!ok) {
+      summary.failed++;
+    }
+
+    const report: BatchCallResult = {
+      line: lineNumber,
+      tool,
+      ok,
+      durationMs: Math.round(performance.now() - startedAt),
+      ...(error === undefined ? { result } : { error }),
+    };
+    console.log(JSON.stringify(report));
+  }
+
+  return summary;
+}
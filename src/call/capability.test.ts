@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { expandResourceTemplate, parseCapability, toPromptArguments } from './capability.ts';
+
+describe('parseCapability', () => {
+  it('recognises capability prefixes and defaults to tools', () => {
+    expect(parseCapability('get_current')).toEqual({ kind: 'tool', name: 'get_current' });
+    expect(parseCapability('tool:get_current')).toEqual({ kind: 'tool', name: 'get_current' });
+    expect(parseCapability('resource:file:///tmp/a.txt')).toEqual({
+      kind: 'resource',
+      name: 'file:///tmp/a.txt',
+    });
+    expect(parseCapability('template:')).toEqual({ kind: 'template', name: '' });
+    expect(parseCapability('prompt:summary')).toEqual({ kind: 'prompt', name: 'summary' });
+    expect(parseCapability('ns:tool')).toEqual({ kind: 'tool', name: 'ns:tool' });
+  });
+});
+
+describe('expandResourceTemplate', () => {
+  const template = { name: 'city', uriTemplate: 'weather://city/{name}{?tags}' };
+
+  it('expands path and list variables', () => {
+    expect(expandResourceTemplate(template, { name: 'New York', tags: ['a', 'b'] })).toBe(
+      'weather://city/New%20York?tags=a,b'
+    );
+  });
+
+  it('allows query variables to be omitted but requires path variables', () => {
+    expect(expandResourceTemplate(template, { name: 'Lisbon' })).toBe('weather://city/Lisbon');
+    expect(() => expandResourceTemplate(template, {})).toThrow(
+      'Missing template variable(s) for city: name'
+    );
+  });
+});
+
+describe('toPromptArguments', () => {
+  it('stringifies non-string values', () => {
+    expect(toPromptArguments({ city: 'Lisbon', days: 3, opts: { a: 1 } })).toEqual({
+      city: 'Lisbon',
+      days: '3',
+      opts: '{"a":1}',
+    });
+  });
+});
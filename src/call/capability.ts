@@ -0,0 +1,299 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Prompt, Resource, ResourceTemplate, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { BOLD, CYAN, DIM, RESET } from '../constants/ui.ts';
+
+export type CapabilityKind = 'tool' | 'resource' | 'template' | 'prompt';
+
+export interface CapabilityRef {
+  kind: CapabilityKind;
+  /** Tool/template/prompt name or resource URI. Empty when listing a capability kind. */
+  name: string;
+}
+
+export interface CapabilityList {
+  resources?: Resource[];
+  resourceTemplates?: ResourceTemplate[];
+  prompts?: Prompt[];
+}
+
+const CAPABILITY_PREFIXES: CapabilityKind[] = ['tool', 'resource', 'template', 'prompt'];
+
+/**
+ * Split a `cvmi call` capability argument into its kind and name.
+ * Arguments without a known prefix are treated as tool names.
+ */
+export function parseCapability(arg: string): CapabilityRef {
+  const separatorIndex = arg.indexOf(':');
+  if (separatorIndex > 0) {
+    const prefix = arg.slice(0, separatorIndex) as CapabilityKind;
+    if (CAPABILITY_PREFIXES.includes(prefix)) {
+      return { kind: prefix, name: arg.slice(separatorIndex + 1) };
+    }
+  }
+
+  return { kind: 'tool', name: arg };
+}
+
+/** Follow `nextCursor` until a list method has returned every page. */
+export async function collectPages<T>(
+  fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+}
+
+export async function listTools(client: Client): Promise<Tool[]> {
+  return collectPages(async (cursor) => {
+    const result = await client.listTools(cursor ? { cursor } : undefined);
+    return { items: result.tools, nextCursor: result.nextCursor };
+  });
+}
+
+export async function listResources(client: Client): Promise<Resource[]> {
+  return collectPages(async (cursor) => {
+    const result = await client.listResources(cursor ? { cursor } : undefined);
+    return { items: result.resources, nextCursor: result.nextCursor };
+  });
+}
+
+export async function listResourceTemplates(client: Client): Promise<ResourceTemplate[]> {
+  return collectPages(async (cursor) => {
+    const result = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+    return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+  });
+}
+
+export async function listPrompts(client: Client): Promise<Prompt[]> {
+  return collectPages(async (cursor) => {
+    const result = await client.listPrompts(cursor ? { cursor } : undefined);
+    return { items: result.prompts, nextCursor: result.nextCursor };
+  });
+}
+
+export async function listCapabilityEntries(
+  client: Client,
+  kind: Exclude<CapabilityKind, 'tool'>
+): Promise<CapabilityList> {
+  if (kind === 'resource') {
+    return { resources: await listResources(client) };
+  }
+
+  if (kind === 'template') {
+    return { resourceTemplates: await listResourceTemplates(client) };
+  }
+
+  return { prompts: await listPrompts(client) };
+}
+
+function printSection(title: string): void {
+  console.log(`${BOLD}${title}${RESET}`);
+}
+
+/** One `• label detail — description` line of a capability listing. */
+export function printEntry(label: string, detail?: string, description?: string): void {
+  console.log(
+    `  ${CYAN}•${RESET} ${label}${detail ? ` ${DIM}${detail}${RESET}` : ''}${description ? ` ${DIM}— ${description}${RESET}` : ''}`
+  );
+}
+
+export function printCapabilityList(serverInput: string, list: CapabilityList): void {
+  if (list.resources) {
+    printSection('Resources');
+    if (list.resources.length === 0) {
+      console.log(`  ${DIM}(no resources exposed)${RESET}`);
+    }
+    for (const resource of list.resources) {
+      printEntry(resource.uri, resource.mimeType, resource.description ?? resource.name);
+    }
+    console.log();
+    console.log(`  ${DIM}Read one with${RESET} cvmi call ${serverInput} resource:<uri>`);
+  }
+
+  if (list.resourceTemplates) {
+    printSection('Resource templates');
+    if (list.resourceTemplates.length === 0) {
+      console.log(`  ${DIM}(no resource templates exposed)${RESET}`);
+    }
+    for (const template of list.resourceTemplates) {
+      printEntry(template.name, template.uriTemplate, template.description);
+    }
+    console.log();
+    console.log(
+      `  ${DIM}Expand one with${RESET} cvmi call ${serverInput} template:<name> key=value`
+    );
+  }
+
+  if (list.prompts) {
+    printSection('Prompts');
+    if (list.prompts.length === 0) {
+      console.log(`  ${DIM}(no prompts exposed)${RESET}`);
+    }
+    for (const prompt of list.prompts) {
+      const args = prompt.arguments
+        ?.map((arg) => `${arg.name}${arg.required ? '' : '?'}`)
+        .join(' ');
+      printEntry(prompt.name, args, prompt.description);
+    }
+    console.log();
+    console.log(`  ${DIM}Fetch one with${RESET} cvmi call ${serverInput} prompt:<name> arg=value`);
+  }
+}
+
+function buildNotFoundError(
+  serverInput: string,
+  kind: 'template' | 'prompt',
+  name: string,
+  available: string[]
+): Error {
+  return new Error(
+    [
+      `${kind === 'template' ? 'Template' : 'Prompt'} not found: ${name}`,
+      ...(available.length > 0 ? [`Available: ${available.join(', ')}`] : []),
+      `Run \`cvmi call ${serverInput} ${kind}:\` to list them.`,
+    ].join('\n')
+  );
+}
+
+export async function findResourceTemplate(
+  client: Client,
+  serverInput: string,
+  name: string
+): Promise<ResourceTemplate> {
+  const templates = await listResourceTemplates(client);
+  const template = templates.find((entry) => entry.name === name || entry.uriTemplate === name);
+  if (!template) {
+    throw buildNotFoundError(
+      serverInput,
+      'template',
+      name,
+      templates.map((entry) => entry.name)
+    );
+  }
+
+  return template;
+}
+
+export async function findPrompt(
+  client: Client,
+  serverInput: string,
+  name: string
+): Promise<Prompt> {
+  const prompts = await listPrompts(client);
+  const prompt = prompts.find((entry) => entry.name === name);
+  if (!prompt) {
+    throw buildNotFoundError(
+      serverInput,
+      'prompt',
+      name,
+      prompts.map((entry) => entry.name)
+    );
+  }
+
+  return prompt;
+}
+
+function stringifyArgument(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Variables outside query expressions (`{?...}`, `{&...}`) shape the URI path,
+ * so expanding without them would silently read the wrong resource.
+ */
+function getPathVariableNames(uriTemplate: string): string[] {
+  const names: string[] = [];
+  for (const [, expression] of uriTemplate.matchAll(/\{([^}]*)\}/g)) {
+    if (!expression || expression.startsWith('?') || expression.startsWith('&')) {
+      continue;
+    }
+
+    for (const name of expression.replace(/^[+#./;]/, '').split(',')) {
+      names.push(name.replace(/\*$|:\d+$/, ''));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Expand an RFC 6570 resource template with key=value input. Array values of
+ * strings are passed through and expand as comma-separated lists.
+ */
+export function expandResourceTemplate(
+  template: ResourceTemplate,
+  input: Record<string, unknown>
+): string {
+  const uriTemplate = new UriTemplate(template.uriTemplate);
+  const missing = getPathVariableNames(template.uriTemplate).filter(
+    (name) => input[name] === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing template variable(s) for ${template.name}: ${missing.join(', ')}`);
+  }
+
+  const variables: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(input)) {
+    variables[key] =
+      Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? value
+        : stringifyArgument(value);
+  }
+
+  return uriTemplate.expand(variables);
+}
+
+/** Prompt arguments are always strings on the wire. */
+export function toPromptArguments(input: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(input).map(([key, value]) => [key, stringifyArgument(value)])
+  );
+}
+
+export function printTemplateHelp(serverInput: string, template: ResourceTemplate): void {
+  printSection('Usage');
+  console.log(`  cvmi call ${serverInput} template:${template.name} [key=value ...] [options]`);
+  if (template.description) {
+    console.log(`  ${template.description}`);
+  }
+  console.log();
+  printSection('Template');
+  console.log(
+    `  ${template.uriTemplate}${template.mimeType ? ` ${DIM}${template.mimeType}${RESET}` : ''}`
+  );
+  console.log();
+  printSection('Variables');
+  const names = new UriTemplate(template.uriTemplate).variableNames;
+  if (names.length === 0) {
+    console.log(`  ${DIM}(no variables)${RESET}`);
+  }
+  for (const name of names) {
+    console.log(`  - ${name}`);
+  }
+}
+
+export function printPromptHelp(serverInput: string, prompt: Prompt): void {
+  printSection('Usage');
+  console.log(`  cvmi call ${serverInput} prompt:${prompt.name} [arg=value ...] [options]`);
+  if (prompt.description) {
+    console.log(`  ${prompt.description}`);
+  }
+  console.log();
+  printSection('Arguments');
+  if (!prompt.arguments || prompt.arguments.length === 0) {
+    console.log(`  ${DIM}(no arguments)${RESET}`);
+  }
+  for (const arg of prompt.arguments ?? []) {
+    console.log(
+      `  - ${arg.name}${arg.required ? ' (required)' : ''}${arg.description ? ` ${DIM}— ${arg.description}${RESET}` : ''}`
+    );
+  }
+}
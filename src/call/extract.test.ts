@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { extractResultValue, extractResultValues, parseExtractPath } from './extract.ts';
+
+const result = {
+  content: [
+    { type: 'text', text: 'first' },
+    { type: 'image', mimeType: 'image/png', data: 'aGVsbG8=' },
+    { type: 'text', text: 'second' },
+  ],
+  structuredContent: {
+    stations: [
+      { id: 'LIS', temp: 21, tags: ['coast', 'capital'] },
+      { id: 'OPO', temp: 18, tags: ['coast'] },
+      { id: 'BGC', temp: 9, tags: [] },
+    ],
+    'updated-at': '2026-10-19',
+  },
+};
+
+describe('extractResultValue', () => {
+  it('reads fields, indices, negative indices, and quoted keys', () => {
+    expect(extractResultValue(result, 'content[1].mimeType')).toBe('image/png');
+    expect(extractResultValue(result, 'content[-1].text')).toBe('second');
+    expect(extractResultValue(result, 'structuredContent."updated-at"')).toBe('2026-10-19');
+    expect(extractResultValue(result, 'structuredContent.updated-at')).toBe('2026-10-19');
+  });
+
+  it('projects wildcards and skips missing values', () => {
+    expect(extractResultValue(result, 'content[*].text')).toEqual(['first', 'second']);
+    expect(extractResultValue(result, 'structuredContent.stations[*].id')).toEqual([
+      'LIS',
+      'OPO',
+      'BGC',
+    ]);
+    expect(extractResultValue({ a: { x: 1, y: 2 } }, 'a.*')).toEqual([1, 2]);
+  });
+
+  it('filters with comparisons, boolean operators, and literals', () => {
+    expect(extractResultValue(result, 'content[?type=="text"].text')).toEqual(['first', 'second']);
+    expect(
+      extractResultValue(result, "structuredContent.stations[?temp > `10` && id != 'OPO'].id")
+    ).toEqual(['LIS']);
+    expect(extractResultValue(result, 'structuredContent.stations[?!(temp >= 18)].id')).toEqual([
+      'BGC',
+    ]);
+    expect(extractResultValue(result, 'structuredContent.stations[?tags[1]].id')).toEqual(['LIS']);
+    expect(extractResultValue([1, 5, 10], '[?@ > 4]')).toEqual([5, 10]);
+  });
+
+  it('slices, flattens, and pipes', () => {
+    const items = { items: [0, 1, 2, 3, 4, 5] };
+    expect(extractResultValue(items, 'items[1:3]')).toEqual([1, 2]);
+    expect(extractResultValue(items, 'items[::2]')).toEqual([0, 2, 4]);
+    expect(extractResultValue(items, 'items[::-1]')).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(extractResultValue(items, 'items[-2:]')).toEqual([4, 5]);
+    expect(extractResultValue(result, 'structuredContent.stations[*].tags[]')).toEqual([
+      'coast',
+      'capital',
+      'coast',
+    ]);
+    expect(extractResultValue(result, 'content[?type=="text"].text | [0]')).toBe('first');
+  });
+
+  it('points at the segment that does not exist', () => {
+    expect(() => extractResultValue(result, 'content[5].text')).toThrow(
+      [
+        'Extract path not found: content[5].text',
+        '  content[5].text',
+        '         ^ index 5 is out of range (array has 3 item(s))',
+      ].join('\n')
+    );
+    expect(() => extractResultValue(result, 'structuredContent.station[0]')).toThrow(
+      ['  structuredContent.station[0]', '                    ^ no field "station"'].join('\n')
+    );
+    expect(() => extractResultValue(result, 'content[0].text.length')).toThrow(
+      'cannot read field "length" of a string'
+    );
+  });
+});
+
+describe('parseExtractPath', () => {
+  it('points at the character that could not be parsed', () => {
+    expect(() => parseExtractPath('content[?type=="text".text')).toThrow(
+      [
+        'Invalid extract path: content[?type=="text".text',
+        '  content[?type=="text".text',
+        "                       ^ expected ']'",
+      ].join('\n')
+    );
+    expect(() => parseExtractPath('content..text')).toThrow('expected a field name after "."');
+    expect(() => parseExtractPath('items[::0]')).toThrow('slice step cannot be 0');
+    expect(() => parseExtractPath('')).toThrow('empty path');
+  });
+});
+
+describe('extractResultValues', () => {
+  it('keys several values by their expression', () => {
+    expect(extractResultValues(result, ['content[0].text'])).toBe('first');
+    expect(extractResultValues(result, ['content[0].text', 'content[2].text'])).toEqual({
+      'content[0].text': 'first',
+      'content[2].text': 'second',
+    });
+  });
+});
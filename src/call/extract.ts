@@ -0,0 +1,552 @@
+/**
+ * A JMESPath-style query language for `--extract`. Supported:
+ *
+ * - fields and indices: `content[0].text`, `"odd-key"`, negative indices `[-1]`
+ * - wildcards: `content[*].text`, `structuredContent.*`
+ * - slices: `items[1:3]`, `items[::2]`
+ * - flatten: `pages[].items[]`
+ * - filters: `content[?type=="text"].text`, with `== != < <= > >= && || !` and parentheses
+ * - pipes: `content[*].text | [0]`
+ *
+ * Unlike JMESPath, `"..."` inside a filter is a string literal (as in jq);
+ * `'raw'` strings and `` `json` `` literals work as in JMESPath. A field or
+ * index that does not exist is an error that points at the failing segment,
+ * except inside projections, where missing values are skipped.
+ */
+
+type Comparator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Step =
+  | { type: 'field'; name: string; position: number }
+  | { type: 'index'; index: number; position: number }
+  | { type: 'slice'; start?: number; stop?: number; step?: number; position: number }
+  | { type: 'wildcard'; position: number }
+  | { type: 'values'; position: number }
+  | { type: 'flatten'; position: number }
+  | { type: 'filter'; condition: Condition; position: number };
+
+type Condition =
+  | { type: 'path'; steps: Step[] }
+  | { type: 'literal'; value: unknown }
+  | { type: 'compare'; comparator: Comparator; left: Condition; right: Condition }
+  | { type: 'and' | 'or'; left: Condition; right: Condition }
+  | { type: 'not'; operand: Condition };
+
+export interface ExtractExpression {
+  source: string;
+  /** Pipe-separated stages; each stage starts a new, unprojected evaluation. */
+  stages: Step[][];
+}
+
+const IDENTIFIER_PATTERN = /[A-Za-z0-9_$-]/;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?/;
+const COMPARATORS: Comparator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+function formatPointer(source: string, position: number, reason: string): string {
+  return `  ${source}\n  ${' '.repeat(Math.min(position, source.length))}^ ${reason}`;
+}
+
+function invalidPath(source: string, position: number, reason: string): Error {
+  return new Error(`Invalid extract path: ${source}\n${formatPointer(source, position, reason)}`);
+}
+
+class ExtractParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): ExtractExpression {
+    const stages: Step[][] = [];
+
+    do {
+      this.skipWhitespace();
+      stages.push(this.parseSteps(false));
+      this.skipWhitespace();
+    } while (this.consume('|'));
+
+    if (this.position < this.source.length) {
+      throw this.error(`unexpected ${JSON.stringify(this.peek())}`);
+    }
+
+    return { source: this.source, stages };
+  }
+
+  private error(reason: string, position = this.position): Error {
+    return invalidPath(this.source, position, reason);
+  }
+
+  private peek(offset = 0): string | undefined {
+    return this.source[this.position + offset];
+  }
+
+  private consume(token: string): boolean {
+    if (this.source.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (!this.consume(token)) {
+      throw this.error(`expected '${token}'`);
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') {
+      this.position++;
+    }
+  }
+
+  /**
+   * Parse a chain of steps. In a filter, an empty chain is allowed so `@` or
+   * a bare literal can stand alone.
+   */
+  private parseSteps(inFilter: boolean): Step[] {
+    const steps: Step[] = [];
+    const start = this.position;
+
+    if (this.peek() === '[') {
+      steps.push(this.parseBracket());
+    } else if (this.peek() === '*') {
+      steps.push({ type: 'values', position: this.position++ });
+    } else if (this.peek() === '"' || (this.peek() && IDENTIFIER_PATTERN.test(this.peek()!))) {
+      steps.push(this.parseField());
+    } else if (!inFilter) {
+      throw this.error(this.position < this.source.length ? 'expected a field name' : 'empty path');
+    }
+
+    for (;;) {
+      if (this.peek() === '[') {
+        steps.push(this.parseBracket());
+      } else if (this.peek() === '.') {
+        this.position++;
+        if (this.peek() === '*') {
+          steps.push({ type: 'values', position: this.position++ });
+        } else if (this.peek() === '"' || (this.peek() && IDENTIFIER_PATTERN.test(this.peek()!))) {
+          steps.push(this.parseField());
+        } else {
+          throw this.error('expected a field name after "."');
+        }
+      } else {
+        break;
+      }
+    }
+
+    if (!inFilter && steps.length === 0) {
+      throw this.error('empty path', start);
+    }
+
+    return steps;
+  }
+
+  private parseField(): Step {
+    const position = this.position;
+
+    if (this.peek() === '"') {
+      return { type: 'field', name: this.parseQuoted('"'), position };
+    }
+
+    let name = '';
+    while (this.peek() && IDENTIFIER_PATTERN.test(this.peek()!)) {
+      name += this.source[this.position++];
+    }
+    return { type: 'field', name, position };
+  }
+
+  private parseQuoted(quote: string): string {
+    const start = this.position++;
+    let value = '';
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++]!;
+      if (char === quote) {
+        return value;
+      }
+      if (char === '\\' && this.position < this.source.length) {
+        value += this.source[this.position++];
+      } else {
+        value += char;
+      }
+    }
+
+    throw this.error(`unterminated ${quote} quote`, start);
+  }
+
+  private parseInteger(): number | undefined {
+    const match = /^-?\d+/.exec(this.source.slice(this.position));
+    if (!match) {
+      return undefined;
+    }
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  private parseBracket(): Step {
+    const position = this.position++;
+    this.skipWhitespace();
+
+    if (this.consume(']')) {
+      return { type: 'flatten', position };
+    }
+
+    if (this.consume('*')) {
+      this.skipWhitespace();
+      this.expect(']');
+      return { type: 'wildcard', position };
+    }
+
+    if (this.consume('?')) {
+      this.skipWhitespace();
+      const condition = this.parseOr();
+      this.skipWhitespace();
+      this.expect(']');
+      return { type: 'filter', condition, position };
+    }
+
+    const start = this.parseInteger();
+    if (this.peek() !== ':') {
+      if (start === undefined) {
+        throw this.error('expected an index, slice, *, or ?filter');
+      }
+      this.skipWhitespace();
+      this.expect(']');
+      return { type: 'index', index: start, position };
+    }
+
+    this.position++;
+    const stop = this.parseInteger();
+    let step: number | undefined;
+    if (this.consume(':')) {
+      const stepPosition = this.position;
+      step = this.parseInteger();
+      if (step === 0) {
+        throw this.error('slice step cannot be 0', stepPosition);
+      }
+    }
+    this.skipWhitespace();
+    this.expect(']');
+    return { type: 'slice', start, stop, step, position };
+  }
+
+  private parseOr(): Condition {
+    let left = this.parseAnd();
+    for (;;) {
+      this.skipWhitespace();
+      if (!this.consume('||')) return left;
+      this.skipWhitespace();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+  }
+
+  private parseAnd(): Condition {
+    let left = this.parseNot();
+    for (;;) {
+      this.skipWhitespace();
+      if (!this.consume('&&')) return left;
+      this.skipWhitespace();
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+  }
+
+  private parseNot(): Condition {
+    this.skipWhitespace();
+    if (this.peek() === '!' && this.peek(1) !== '=') {
+      this.position++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Condition {
+    const left = this.parseOperand();
+    this.skipWhitespace();
+
+    const comparator = COMPARATORS.find((candidate) => this.consume(candidate));
+    if (!comparator) {
+      return left;
+    }
+
+    this.skipWhitespace();
+    return { type: 'compare', comparator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Condition {
+    this.skipWhitespace();
+    const char = this.peek();
+
+    if (char === '(') {
+      this.position++;
+      const condition = this.parseOr();
+      this.skipWhitespace();
+      this.expect(')');
+      return condition;
+    }
+
+    if (char === '"' || char === "'") {
+      return { type: 'literal', value: this.parseQuoted(char) };
+    }
+
+    if (char === '`') {
+      const start = this.position;
+      const text = this.parseQuoted('`');
+      try {
+        return { type: 'literal', value: JSON.parse(text) };
+      } catch {
+        throw this.error('invalid JSON literal', start);
+      }
+    }
+
+    const number = NUMBER_PATTERN.exec(this.source.slice(this.position));
+    if (number && !IDENTIFIER_PATTERN.test(this.source[this.position + number[0].length] ?? '')) {
+      this.position += number[0].length;
+      return { type: 'literal', value: Number(number[0]) };
+    }
+
+    // `@` is the current element; `@.field` and `@[0]` continue from it.
+    if (this.consume('@')) {
+      if (this.consume('.') && this.peek() !== '"' && !IDENTIFIER_PATTERN.test(this.peek() ?? '')) {
+        throw this.error('expected a field name after "."');
+      }
+      return { type: 'path', steps: this.parseSteps(true) };
+    }
+
+    const steps = this.parseSteps(true);
+    if (steps.length === 0) {
+      throw this.error('expected a value to compare');
+    }
+    return { type: 'path', steps };
+  }
+}
+
+/**
+ * Parse an extract expression, throwing an error that points at the first
+ * character that could not be parsed.
+ */
+export function parseExtractPath(path: string): ExtractExpression {
+  return new ExtractParser(path).parse();
+}
+
+class MissingValueError extends Error {
+  constructor(
+    readonly position: number,
+    reason: string
+  ) {
+    super(reason);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return value !== false && value !== null && value !== undefined && value !== '';
+}
+
+function sliceArray(values: unknown[], start?: number, stop?: number, step = 1): unknown[] {
+  const length = values.length;
+  const normalize = (index: number | undefined, fallback: number) => {
+    if (index === undefined) return fallback;
+    if (index < 0) index += length;
+    return step > 0
+      ? Math.min(Math.max(index, 0), length)
+      : Math.min(Math.max(index, -1), length - 1);
+  };
+  const from = normalize(start, step > 0 ? 0 : length - 1);
+  const to = normalize(stop, step > 0 ? length : -1);
+  const result: unknown[] = [];
+  for (let index = from; step > 0 ? index < to : index > to; index += step) {
+    result.push(values[index]);
+  }
+  return result;
+}
+
+/** Steps that turn the rest of the chain into a per-element projection. */
+function projectionSource(value: unknown, step: Step): unknown[] | undefined {
+  switch (step.type) {
+    case 'wildcard':
+      return Array.isArray(value) ? value : undefined;
+    case 'values':
+      return isObject(value) ? Object.values(value) : undefined;
+    case 'slice':
+      return Array.isArray(value) ? sliceArray(value, step.start, step.stop, step.step) : undefined;
+    case 'filter':
+      return Array.isArray(value)
+        ? value.filter((item) => isTruthy(evaluateCondition(item, step.condition)))
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function accessStep(value: unknown, step: Step & { type: 'field' | 'index' }, lenient: boolean) {
+  if (step.type === 'index') {
+    if (!Array.isArray(value)) {
+      if (lenient) return undefined;
+      throw new MissingValueError(step.position, `cannot index ${describeValue(value)}`);
+    }
+    const index = step.index < 0 ? value.length + step.index : step.index;
+    if (index < 0 || index >= value.length) {
+      if (lenient) return undefined;
+      throw new MissingValueError(
+        step.position,
+        `index ${step.index} is out of range (array has ${value.length} item(s))`
+      );
+    }
+    return value[index];
+  }
+
+  if (!isObject(value) || !(step.name in value)) {
+    if (lenient) return undefined;
+    throw new MissingValueError(
+      step.position,
+      isObject(value)
+        ? `no field ${JSON.stringify(step.name)}`
+        : `cannot read field ${JSON.stringify(step.name)} of ${describeValue(value)}`
+    );
+  }
+  return value[step.name];
+}
+
+function project(values: unknown[], steps: Step[]): unknown[] {
+  const results: unknown[] = [];
+  for (const item of values) {
+    const result = evaluateSteps(item, steps, true);
+    if (result !== undefined && result !== null) {
+      results.push(result);
+    }
+  }
+  return results;
+}
+
+function evaluateSteps(value: unknown, steps: Step[], lenient: boolean): unknown {
+  // A flatten ends any projection to its left: evaluate that part whole,
+  // flatten one level, then project the rest over the flattened list.
+  const flattenIndex = steps.findIndex((step) => step.type === 'flatten');
+  if (flattenIndex >= 0) {
+    const left = evaluateSteps(value, steps.slice(0, flattenIndex), lenient);
+    if (!Array.isArray(left)) {
+      if (lenient) return undefined;
+      throw new MissingValueError(
+        steps[flattenIndex]!.position,
+        `cannot flatten ${describeValue(left)}`
+      );
+    }
+    const flattened = left.flatMap((item) => (Array.isArray(item) ? item : [item]));
+    return project(flattened, steps.slice(flattenIndex + 1));
+  }
+
+  let current = value;
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index]!;
+
+    if (step.type === 'field' || step.type === 'index') {
+      current = accessStep(current, step, lenient);
+      if (current === undefined) return undefined;
+      continue;
+    }
+
+    const source = projectionSource(current, step);
+    if (!source) {
+      if (lenient) return undefined;
+      const expected = step.type === 'values' ? 'an object' : 'an array';
+      throw new MissingValueError(
+        step.position,
+        `expected ${expected}, got ${describeValue(current)}`
+      );
+    }
+    return project(source, steps.slice(index + 1));
+  }
+
+  return current;
+}
+
+function compareValues(comparator: Comparator, left: unknown, right: unknown): boolean {
+  if (comparator === '==' || comparator === '!=') {
+    const equal = JSON.stringify(left) === JSON.stringify(right);
+    return comparator === '==' ? equal : !equal;
+  }
+
+  // Ordering comparisons are only defined for numbers, as in JMESPath.
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    return false;
+  }
+
+  switch (comparator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+function evaluateCondition(item: unknown, condition: Condition): unknown {
+  switch (condition.type) {
+    case 'literal':
+      return condition.value;
+    case 'path':
+      return evaluateSteps(item, condition.steps, true) ?? null;
+    case 'compare':
+      return compareValues(
+        condition.comparator,
+        evaluateCondition(item, condition.left),
+        evaluateCondition(item, condition.right)
+      );
+    case 'and': {
+      const left = evaluateCondition(item, condition.left);
+      return isTruthy(left) ? evaluateCondition(item, condition.right) : left;
+    }
+    case 'or': {
+      const left = evaluateCondition(item, condition.left);
+      return isTruthy(left) ? left : evaluateCondition(item, condition.right);
+    }
+    case 'not':
+      return !isTruthy(evaluateCondition(item, condition.operand));
+  }
+}
+
+export function extractResultValue(value: unknown, path: string): unknown {
+  const expression = parseExtractPath(path);
+  let current = value;
+
+  for (const stage of expression.stages) {
+    try {
+      current = evaluateSteps(current, stage, false);
+    } catch (error) {
+      if (!(error instanceof MissingValueError)) {
+        throw error;
+      }
+      throw new Error(
+        `Extract path not found: ${path}\n${formatPointer(path, error.position, error.message)}`
+      );
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate several `--extract` expressions. One expression yields its value;
+ * several yield an object keyed by expression, in the order given.
+ */
+export function extractResultValues(value: unknown, paths: string[]): unknown {
+  if (paths.length === 1) {
+    return extractResultValue(value, paths[0]!);
+  }
+
+  return Object.fromEntries(paths.map((path) => [path, extractResultValue(value, path)]));
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applyInputAssignment,
+  coerceValue,
+  mergeInput,
+  parseInputKey,
+  readInputFile,
+} from './input.ts';
+
+function assign(...args: string[]): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const arg of args) {
+    applyInputAssignment(input, arg);
+  }
+  return input;
+}
+
+describe('parseInputKey', () => {
+  it('splits dotted and indexed keys', () => {
+    expect(parseInputKey('city')).toEqual(['city']);
+    expect(parseInputKey('filter.city')).toEqual(['filter', 'city']);
+    expect(parseInputKey('tags[0]')).toEqual(['tags', 0]);
+    expect(parseInputKey('points[1].coords[0]')).toEqual(['points', 1, 'coords', 0]);
+  });
+
+  it('rejects malformed keys', () => {
+    for (const key of ['a..b', 'a.', '[0]', 'tags[x]', 'tags[0']) {
+      expect(() => parseInputKey(key)).toThrow(`Invalid argument key: ${key}`);
+    }
+  });
+});
+
+describe('coerceValue', () => {
+  it('coerces literals and canonical numbers only', () => {
+    expect([coerceValue('true'), coerceValue('null'), coerceValue('[1]')]).toEqual([
+      true,
+      null,
+      [1],
+    ]);
+    expect([coerceValue('3'), coerceValue('-1.5'), coerceValue('0.25')]).toEqual([3, -1.5, 0.25]);
+    // Leading or trailing zeros would be lost as numbers, so they stay text.
+    expect([coerceValue('01'), coerceValue('1.50'), coerceValue('01234')]).toEqual([
+      '01',
+      '1.50',
+      '01234',
+    ]);
+  });
+});
+
+describe('applyInputAssignment', () => {
+  let testDir: string | undefined;
+
+  afterEach(async () => {
+    if (testDir) {
+      await rm(testDir, { recursive: true, force: true });
+      testDir = undefined;
+    }
+  });
+
+  it('builds nested objects and arrays from dotted and indexed keys', () => {
+    expect(assign('filter.city=Lisbon', 'filter.days=3', 'tags[0]=a', 'tags[1]=b')).toEqual({
+      filter: { city: 'Lisbon', days: 3 },
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('parses explicit JSON with :=', () => {
+    expect(assign('limit:=10', 'ids:=["1","2"]', 'name:="42"')).toEqual({
+      limit: 10,
+      ids: ['1', '2'],
+      name: '42',
+    });
+    expect(() => assign('limit:=ten')).toThrow('Invalid JSON for limit:=');
+  });
+
+  it('reads values from files and keeps literal @ values when escaped', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cvmi-call-input-'));
+    testDir = dir;
+    const notePath = join(dir, 'note.txt');
+    const filterPath = join(dir, 'filter.json');
+    await writeFile(notePath, 'hello\n');
+    await writeFile(filterPath, '{"kinds":[1]}');
+
+    expect(
+      assign(`note=@${notePath}`, `filter:=@${filterPath}`, `raw=@${filterPath}`, 'handle=\\@alice')
+    ).toEqual({
+      note: 'hello',
+      filter: { kinds: [1] },
+      raw: '{"kinds":[1]}',
+      handle: '@alice',
+    });
+    expect(() => assign(`note=@${join(dir, 'missing.txt')}`)).toThrow('file not found');
+  });
+
+  it('only reads stdin when the caller allows it', () => {
+    expect(() => assign('text=@-')).toThrow('text= cannot read from stdin here');
+    expect(() =>
+      applyInputAssignment({}, 'text=@-', { allowStdin: true, stdinUsed: true })
+    ).toThrow('it was already consumed by another argument');
+  });
+
+  it('rejects conflicting nested assignments', () => {
+    expect(() => assign('filter=Lisbon', 'filter.city=Porto')).toThrow(
+      'Conflicting argument for filter.city: filter is already set'
+    );
+  });
+
+  it('ignores arguments that are not assignments', () => {
+    expect(applyInputAssignment({}, 'extra')).toBe(false);
+    expect(applyInputAssignment({}, '=value')).toBe(false);
+    expect(applyInputAssignment({}, ':=1')).toBe(false);
+  });
+});
+
+describe('mergeInput', () => {
+  it('deep-merges objects by key and arrays by index', () => {
+    const inline = assign('filter.city=Porto', 'tags[1]=z');
+
+    expect(
+      mergeInput({ filter: { city: 'Lisbon', days: 3 }, tags: ['a', 'b', 'c'], limit: 5 }, inline)
+    ).toEqual({ filter: { city: 'Porto', days: 3 }, tags: ['a', 'z', 'c'], limit: 5 });
+  });
+});
+
+describe('readInputFile', () => {
+  it('requires a JSON object', async () => {
+    const testDir = await mkdtemp(join(tmpdir(), 'cvmi-call-input-'));
+    const inputPath = join(testDir, 'input.json');
+    await writeFile(inputPath, '[1, 2]');
+
+    try {
+      expect(() => readInputFile(inputPath, {})).toThrow('--input must contain a JSON object');
+    } finally {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+});
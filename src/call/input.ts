@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs';
+
+type InputKeySegment = string | number;
+
+/**
+ * Shared state for one round of argument parsing. Stdin can only be consumed
+ * once, and only where the caller is not already reading it (e.g. the REPL).
+ */
+export interface InputContext {
+  allowStdin?: boolean;
+  stdinUsed?: boolean;
+}
+
+export function coerceValue(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  // Only canonical numbers are coerced, so text such as ZIP code 01234 survives
+  // unchanged until the tool schema says which type it should be.
+  if (/^-?\d+(?:\.\d+)?$/.test(value) && String(Number(value)) === value) return Number(value);
+  if (
+    (value.startsWith('{') && value.endsWith('}')) ||
+    (value.startsWith('[') && value.endsWith(']'))
+  ) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Parse an argument key such as `filter.city` or `tags[0]` into path segments.
+ */
+export function parseInputKey(key: string): InputKeySegment[] {
+  const segments: InputKeySegment[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|(\.)/g;
+  let expectName = true;
+  let consumed = 0;
+
+  for (const match of key.matchAll(pattern)) {
+    if (match.index !== consumed) {
+      break;
+    }
+    consumed += match[0].length;
+
+    if (match[1] !== undefined) {
+      if (!expectName) break;
+      segments.push(match[1]);
+      expectName = false;
+    } else if (match[2] !== undefined) {
+      if (segments.length === 0) break;
+      segments.push(Number(match[2]));
+      expectName = false;
+    } else {
+      if (expectName) break;
+      expectName = true;
+    }
+  }
+
+  if (consumed !== key.length || expectName || segments.length === 0) {
+    throw new Error(`Invalid argument key: ${key}`);
+  }
+
+  return segments;
+}
+
+function formatKeyPath(segments: InputKeySegment[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function setInputPath(
+  input: Record<string, unknown>,
+  segments: InputKeySegment[],
+  value: unknown
+): void {
+  let current: Record<string | number, unknown> = input;
+
+  for (let index = 0; index < segments.length - 1; index++) {
+    const segment = segments[index]!;
+    const nextIsIndex = typeof segments[index + 1] === 'number';
+    let next = current[segment];
+
+    if (next === undefined) {
+      next = nextIsIndex ? [] : {};
+      current[segment] = next;
+    } else if (typeof next !== 'object' || next === null || Array.isArray(next) !== nextIsIndex) {
+      throw new Error(
+        `Conflicting argument for ${formatKeyPath(segments)}: ${formatKeyPath(segments.slice(0, index + 1))} is already set`
+      );
+    }
+
+    current = next as Record<string | number, unknown>;
+  }
+
+  current[segments[segments.length - 1]!] = value;
+}
+
+function readStdin(context: InputContext, usage: string): string {
+  if (!context.allowStdin) {
+    throw new Error(`${usage} cannot read from stdin here`);
+  }
+  if (context.stdinUsed) {
+    throw new Error(`${usage} cannot read from stdin: it was already consumed by another argument`);
+  }
+
+  context.stdinUsed = true;
+  return readFileSync(0, 'utf-8');
+}
+
+/**
+ * Read the text behind an `@path` or `@-` reference.
+ */
+function readValueSource(source: string, context: InputContext, usage: string): string {
+  if (source === '-') {
+    return readStdin(context, usage);
+  }
+
+  try {
+    return readFileSync(source, 'utf-8');
+  } catch (error) {
+    const reason =
+      (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : String(error);
+    throw new Error(`Cannot read ${source} for ${usage}: ${reason}`);
+  }
+}
+
+function parseJsonValue(text: string, usage: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON for ${usage}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Apply one tool input argument. Supported forms:
+ *
+ * - `key=value` guesses the type (see coerceValue)
+ * - `key:=json` parses the value as JSON
+ * - `key=@path` / `key:=@path` read the value from a file, `@-` from stdin
+ * - `key=\@text` sends a literal leading `@`
+ *
+ * Keys may be dotted or indexed (`filter.city`, `tags[0]`) to build nested input.
+ * Returns false when the argument is not an assignment at all.
+ */
+export function applyInputAssignment(
+  input: Record<string, unknown>,
+  arg: string,
+  context: InputContext = {}
+): boolean {
+  const separatorIndex = arg.indexOf('=');
+  if (separatorIndex <= 0) {
+    return false;
+  }
+
+  const isJson = arg[separatorIndex - 1] === ':';
+  const key = arg.slice(0, isJson ? separatorIndex - 1 : separatorIndex);
+  if (!key) {
+    return false;
+  }
+
+  const segments = parseInputKey(key);
+  const rawValue = arg.slice(separatorIndex + 1);
+  const usage = `${key}${isJson ? ':=' : '='}`;
+  let value: unknown;
+
+  if (rawValue.startsWith('@')) {
+    const text = readValueSource(rawValue.slice(1), context, usage);
+    // Text values drop the single trailing newline that editors and `echo` add.
+    value = isJson ? parseJsonValue(text, usage) : text.replace(/\r?\n$/, '');
+  } else if (isJson) {
+    value = parseJsonValue(rawValue, usage);
+  } else {
+    value = coerceValue(rawValue.startsWith('\\@') ? rawValue.slice(1) : rawValue);
+  }
+
+  setInputPath(input, segments, value);
+  return true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge inline arguments over a base input document. Objects merge by
+ * key and arrays by index, so `tags[1]=b` only replaces the second entry.
+ */
+export function mergeInput(base: unknown, overrides: unknown): unknown {
+  if (isPlainObject(base) && isPlainObject(overrides)) {
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(overrides)) {
+      merged[key] = key in base ? mergeInput(base[key], value) : value;
+    }
+    return merged;
+  }
+
+  if (Array.isArray(base) && Array.isArray(overrides)) {
+    const merged = [...base];
+    overrides.forEach((value, index) => {
+      merged[index] = index < base.length ? mergeInput(base[index], value) : value;
+    });
+    return merged;
+  }
+
+  return overrides;
+}
+
+/**
+ * Load a `--input` JSON document (a path, or `-` for stdin).
+ */
+export function readInputFile(source: string, context: InputContext): Record<string, unknown> {
+  const value = parseJsonValue(readValueSource(source, context, '--input'), '--input');
+  if (!isPlainObject(value)) {
+    throw new Error('--input must contain a JSON object');
+  }
+
+  return value;
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as p from '@clack/prompts';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { PromptCancelledError, promptForTool, promptForToolInput } from './interactive.ts';
+
+vi.mock('@clack/prompts');
+
+const tool = {
+  name: 'forecast',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      city: { type: 'string' },
+      units: { enum: ['metric', 'imperial'] },
+      days: { type: 'integer', default: 3, minimum: 1 },
+      alerts: { type: 'boolean' },
+      location: {
+        type: 'object',
+        properties: { lat: { type: 'number' } },
+        required: ['lat'],
+      },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['city', 'alerts', 'location'],
+  },
+} as Tool;
+
+describe('promptForToolInput', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(p.isCancel).mockReturnValue(false);
+  });
+
+  it('walks the schema, skipping values already given on the command line', async () => {
+    vi.mocked(p.select).mockResolvedValueOnce(0);
+    vi.mocked(p.text)
+      .mockResolvedValueOnce('5')
+      .mockResolvedValueOnce('38.7')
+      .mockResolvedValueOnce('coast');
+    vi.mocked(p.confirm)
+      .mockResolvedValueOnce(true) // alerts
+      .mockResolvedValueOnce(true) // set tags?
+      .mockResolvedValueOnce(true) // add an item
+      .mockResolvedValueOnce(false) // add another item
+      .mockResolvedValueOnce(true); // run the call
+
+    const input = await promptForToolInput(tool, { city: 'Lisbon' });
+
+    expect(input).toEqual({
+      city: 'Lisbon',
+      units: 'metric',
+      days: 5,
+      alerts: true,
+      location: { lat: 38.7 },
+      tags: ['coast'],
+    });
+    expect(p.select).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'units (optional)',
+        options: [
+          { value: 0, label: 'metric' },
+          { value: 1, label: 'imperial' },
+          { value: -1, label: '(skip)' },
+        ],
+      })
+    );
+    expect(p.note).toHaveBeenCalledWith(JSON.stringify(input, null, 2), 'Tool input');
+  });
+
+  it('uses schema defaults and validates numeric input', async () => {
+    vi.mocked(p.select).mockResolvedValueOnce(-1);
+    vi.mocked(p.text).mockResolvedValueOnce('3').mockResolvedValueOnce('1');
+    vi.mocked(p.confirm)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    const input = await promptForToolInput(tool, { city: 'Lisbon' });
+
+    const daysPrompt = vi.mocked(p.text).mock.calls[0]![0];
+    expect(daysPrompt.defaultValue).toBe('3');
+    expect(daysPrompt.validate?.('abc')).toBe('Enter a number');
+    expect(daysPrompt.validate?.('1.5')).toBe('Enter a whole number');
+    expect(daysPrompt.validate?.('0')).toBe('Must be >= 1');
+    expect(daysPrompt.validate?.('')).toBeUndefined();
+    expect(input).toEqual({ city: 'Lisbon', days: 3, alerts: false, location: { lat: 1 } });
+  });
+
+  it('throws a cancellation without calling when the prompt is cancelled', async () => {
+    const cancelled = Symbol('cancel');
+    vi.mocked(p.select).mockResolvedValueOnce(cancelled);
+    vi.mocked(p.isCancel).mockImplementation((value) => value === cancelled);
+
+    await expect(promptForToolInput(tool, { city: 'Lisbon' })).rejects.toBeInstanceOf(
+      PromptCancelledError
+    );
+    expect(p.cancel).toHaveBeenCalledWith('Call cancelled');
+  });
+});
+
+describe('promptForTool', () => {
+  it('selects a tool by name', async () => {
+    vi.mocked(p.isCancel).mockReturnValue(false);
+    vi.mocked(p.select).mockResolvedValueOnce(1);
+
+    const tools = [{ name: 'a' }, { name: 'b', description: 'Second' }] as Tool[];
+
+    await expect(promptForTool(tools)).resolves.toBe(tools[1]);
+  });
+});
@@ -0,0 +1,317 @@
+import * as p from '@clack/prompts';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { resolveSchema } from './validate-input.ts';
+
+type JsonSchema = Record<string, unknown>;
+
+const SKIP = Symbol('skip');
+
+function asSchema(value: unknown): JsonSchema | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as JsonSchema)
+    : undefined;
+}
+
+function getPrimaryType(schema: JsonSchema): string | undefined {
+  if (typeof schema.type === 'string') {
+    return schema.type;
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type): type is string => typeof type === 'string' && type !== 'null');
+  }
+
+  return asSchema(schema.properties) ? 'object' : undefined;
+}
+
+/**
+ * Thrown when the user cancels a prompt, so the caller can close its connection
+ * before exiting.
+ */
+export class PromptCancelledError extends Error {
+  constructor() {
+    super('Call cancelled');
+    this.name = 'PromptCancelledError';
+  }
+}
+
+function throwIfCancelled<T>(value: T | symbol): T {
+  if (p.isCancel(value)) {
+    p.cancel('Call cancelled');
+    throw new PromptCancelledError();
+  }
+
+  return value as T;
+}
+
+function formatMessage(label: string, schema: JsonSchema, required: boolean): string {
+  const description = typeof schema.description === 'string' ? ` — ${schema.description}` : '';
+  return `${label}${required ? '' : ' (optional)'}${description}`;
+}
+
+async function promptEnum(
+  label: string,
+  schema: JsonSchema,
+  values: unknown[],
+  required: boolean
+): Promise<unknown> {
+  const defaultIndex = values.findIndex(
+    (value) => JSON.stringify(value) === JSON.stringify(schema.default)
+  );
+  const choice = throwIfCancelled(
+    await p.select<number>({
+      message: formatMessage(label, schema, required),
+      options: [
+        ...values.map((value, index) => ({
+          value: index,
+          label: typeof value === 'string' ? value : JSON.stringify(value),
+        })),
+        ...(required ? [] : [{ value: -1, label: '(skip)' }]),
+      ],
+      initialValue: defaultIndex >= 0 ? defaultIndex : required ? 0 : -1,
+    })
+  );
+
+  return choice === -1 ? SKIP : values[choice];
+}
+
+async function promptBoolean(label: string, schema: JsonSchema, required: boolean) {
+  const initialValue = typeof schema.default === 'boolean' ? schema.default : undefined;
+  if (required) {
+    return throwIfCancelled(
+      await p.confirm({ message: formatMessage(label, schema, required), initialValue })
+    );
+  }
+
+  const choice = throwIfCancelled(
+    await p.select<string>({
+      message: formatMessage(label, schema, required),
+      options: [
+        { value: 'skip', label: '(skip)' },
+        { value: 'true', label: 'true' },
+        { value: 'false', label: 'false' },
+      ],
+      initialValue: initialValue === undefined ? 'skip' : String(initialValue),
+    })
+  );
+
+  return choice === 'skip' ? SKIP : choice === 'true';
+}
+
+function validateNumber(value: string, schema: JsonSchema, integer: boolean): string | undefined {
+  const parsed = Number(value);
+  if (!/^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(value.trim()) || !Number.isFinite(parsed)) {
+    return 'Enter a number';
+  }
+  if (integer && !Number.isInteger(parsed)) {
+    return 'Enter a whole number';
+  }
+  if (typeof schema.minimum === 'number' && parsed < schema.minimum) {
+    return `Must be >= ${schema.minimum}`;
+  }
+  if (typeof schema.maximum === 'number' && parsed > schema.maximum) {
+    return `Must be <= ${schema.maximum}`;
+  }
+  return undefined;
+}
+
+async function promptText(
+  label: string,
+  schema: JsonSchema,
+  required: boolean,
+  kind: 'string' | 'number' | 'integer' | 'json'
+): Promise<unknown> {
+  const defaultValue =
+    schema.default === undefined
+      ? undefined
+      : typeof schema.default === 'string'
+        ? schema.default
+        : JSON.stringify(schema.default);
+
+  const value = throwIfCancelled(
+    await p.text({
+      message: formatMessage(label, schema, required),
+      placeholder: defaultValue ?? (kind === 'json' ? 'JSON value' : undefined),
+      defaultValue,
+      validate: (input) => {
+        if (!input) {
+          return required && defaultValue === undefined ? 'A value is required' : undefined;
+        }
+        if (kind === 'number' || kind === 'integer') {
+          return validateNumber(input, schema, kind === 'integer');
+        }
+        if (kind === 'json') {
+          try {
+            JSON.parse(input);
+          } catch {
+            return 'Enter valid JSON';
+          }
+        }
+        return undefined;
+      },
+    })
+  );
+
+  if (!value) {
+    return SKIP;
+  }
+
+  if (kind === 'number' || kind === 'integer') {
+    return Number(value);
+  }
+
+  return kind === 'json' ? JSON.parse(value) : value;
+}
+
+async function promptObject(
+  label: string,
+  schema: JsonSchema,
+  root: JsonSchema,
+  initial: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const properties = asSchema(schema.properties) ?? {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  const result: Record<string, unknown> = { ...initial };
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (result[key] !== undefined || !asSchema(propertySchema)) {
+      continue;
+    }
+
+    const value = await promptValue(
+      label ? `${label}.${key}` : key,
+      asSchema(propertySchema)!,
+      root,
+      required.has(key)
+    );
+    if (value !== SKIP) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+async function promptArray(label: string, schema: JsonSchema, root: JsonSchema) {
+  const items = asSchema(schema.items) ?? {};
+  const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0;
+  const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Infinity;
+  const values: unknown[] = [];
+
+  while (values.length < maxItems) {
+    if (values.length >= minItems) {
+      const addItem = throwIfCancelled(
+        await p.confirm({
+          message: `Add ${values.length === 0 ? 'an' : 'another'} item to ${label}?`,
+          initialValue: false,
+        })
+      );
+      if (!addItem) {
+        break;
+      }
+    }
+
+    const value = await promptValue(`${label}[${values.length}]`, items, root, true);
+    if (value !== SKIP) {
+      values.push(value);
+    }
+  }
+
+  return values;
+}
+
+async function promptValue(
+  label: string,
+  rawSchema: JsonSchema,
+  root: JsonSchema,
+  required: boolean
+): Promise<unknown> {
+  const schema = resolveSchema(rawSchema, root);
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return promptEnum(label, schema, schema.enum, required);
+  }
+
+  switch (getPrimaryType(schema)) {
+    case 'boolean':
+      return promptBoolean(label, schema, required);
+    case 'integer':
+      return promptText(label, schema, required, 'integer');
+    case 'number':
+      return promptText(label, schema, required, 'number');
+    case 'string':
+      return promptText(label, schema, required, 'string');
+    case 'object':
+      if (!asSchema(schema.properties)) {
+        return promptText(label, schema, required, 'json');
+      }
+      if (!required) {
+        const include = throwIfCancelled(
+          await p.confirm({ message: `Set ${formatMessage(label, schema, false)}?` })
+        );
+        if (!include) {
+          return SKIP;
+        }
+      }
+      return promptObject(label, schema, root, {});
+    case 'array':
+      if (!required) {
+        const include = throwIfCancelled(
+          await p.confirm({ message: `Set ${formatMessage(label, schema, false)}?` })
+        );
+        if (!include) {
+          return SKIP;
+        }
+      }
+      return promptArray(label, schema, root);
+    default:
+      // anyOf/oneOf and untyped schemas fall back to a JSON value.
+      return promptText(label, schema, required, 'json');
+  }
+}
+
+/**
+ * Ask the user for a tool to call when none was given on the command line.
+ */
+export async function promptForTool(tools: Tool[]): Promise<Tool> {
+  if (tools.length === 0) {
+    throw new Error('The server does not expose any tools');
+  }
+
+  const index = throwIfCancelled(
+    await p.select<number>({
+      message: 'Tool to call',
+      options: tools.map((tool, toolIndex) => ({
+        value: toolIndex,
+        label: tool.name,
+        hint: tool.description,
+      })),
+    })
+  );
+
+  return tools[index]!;
+}
+
+/**
+ * Walk a tool's inputSchema and prompt for every field that was not already
+ * given on the command line, then show the final input and confirm the call.
+ */
+export async function promptForToolInput(
+  tool: Tool,
+  initial: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const root = (asSchema(tool.inputSchema) ?? {}) as JsonSchema;
+  p.intro(`Input for ${tool.name}`);
+  const input = await promptObject('', resolveSchema(root, root), root, initial);
+
+  p.note(JSON.stringify(input, null, 2), 'Tool input');
+  const confirmed = throwIfCancelled(
+    await p.confirm({ message: `Call ${tool.name} with this input?`, initialValue: true })
+  );
+  if (!confirmed) {
+    p.cancel('Call cancelled');
+    throw new PromptCancelledError();
+  }
+
+  return input;
+}
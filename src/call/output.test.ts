@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  formatMarkdown,
+  formatNdjson,
+  formatTable,
+  formatYaml,
+  selectOutputData,
+} from './output.ts';
+import { extensionForMimeType, saveBinaryContent } from './save-content.ts';
+import { stripAnsi } from '../test-utils.ts';
+
+describe('selectOutputData', () => {
+  it('prefers extract, then structured content, then content items', () => {
+    const result = { content: [{ type: 'text', text: 'hi' }], structuredContent: { a: 1 } };
+
+    expect(selectOutputData(result, ['content[0].text'])).toBe('hi');
+    expect(selectOutputData(result, ['content[0].text', 'structuredContent.a'])).toEqual({
+      'content[0].text': 'hi',
+      'structuredContent.a': 1,
+    });
+    expect(selectOutputData(result)).toEqual({ a: 1 });
+    expect(selectOutputData({ content: result.content })).toEqual(result.content);
+    expect(selectOutputData({ contents: [{ uri: 'a://b' }] })).toEqual([{ uri: 'a://b' }]);
+  });
+});
+
+describe('formatYaml', () => {
+  it('renders nested objects, arrays, and quoted scalars', () => {
+    expect(
+      formatYaml({
+        city: 'Lisbon',
+        zip: '01234',
+        empty: '',
+        flag: 'yes',
+        tags: ['a', 'b'],
+        stations: [{ id: 'LIS', temp: 21 }, { id: 'OPO' }],
+        nested: { none: null, list: [] },
+        note: 'line one\nline two',
+      })
+    ).toBe(
+      [
+        'city: Lisbon',
+        'zip: "01234"',
+        'empty: ""',
+        'flag: "yes"',
+        'tags:',
+        '  - a',
+        '  - b',
+        'stations:',
+        '  - id: LIS',
+        '    temp: 21',
+        '  - id: OPO',
+        'nested:',
+        '  none: null',
+        '  list: []',
+        'note: |-',
+        '  line one',
+        '  line two',
+      ].join('\n')
+    );
+  });
+});
+
+describe('formatTable', () => {
+  it('aligns rows of objects under the union of their keys', () => {
+    expect(
+      stripAnsi(
+        formatTable([
+          { id: 'LIS', temp: 21 },
+          { id: 'OPO', wind: { kmh: 9 } },
+        ])
+      )
+    ).toBe(
+      ['id   temp  wind', '───  ────  ─────────', 'LIS  21', 'OPO        {"kmh":9}'].join('\n')
+    );
+  });
+
+  it('renders objects as key/value rows and scalars as-is', () => {
+    expect(stripAnsi(formatTable({ status: 'ok' }))).toBe(
+      ['key     value', '──────  ─────', 'status  ok'].join('\n')
+    );
+    expect(formatTable('plain')).toBe('plain');
+  });
+});
+
+describe('formatMarkdown', () => {
+  it('renders content items as text and saved images as links', () => {
+    expect(
+      formatMarkdown([
+        { type: 'text', text: '# Forecast' },
+        { type: 'image', mimeType: 'image/png', path: 'out/chart-1.png' },
+        { type: 'audio', mimeType: 'audio/wav', data: 'AAAA' },
+      ])
+    ).toBe(
+      ['# Forecast', '![image/png](out/chart-1.png)', '*[audio audio/wav, 4 bytes base64]*'].join(
+        '\n\n'
+      )
+    );
+  });
+
+  it('renders records as a markdown table', () => {
+    expect(formatMarkdown([{ id: 'LIS', note: 'a|b' }])).toBe(
+      ['| id | note |', '| --- | --- |', '| LIS | a\\|b |'].join('\n')
+    );
+  });
+});
+
+describe('formatNdjson', () => {
+  it('prints one JSON document per array entry', () => {
+    expect(formatNdjson([{ a: 1 }, 'b'])).toBe('{"a":1}\n"b"');
+    expect(formatNdjson({ a: 1 })).toBe('{"a":1}');
+  });
+});
+
+describe('saveBinaryContent', () => {
+  let testDir: string | undefined;
+
+  afterEach(async () => {
+    if (testDir) {
+      await rm(testDir, { recursive: true, force: true });
+      testDir = undefined;
+    }
+  });
+
+  it('maps mime types to file extensions', () => {
+    expect(extensionForMimeType('image/jpeg')).toBe('jpg');
+    expect(extensionForMimeType('audio/mpeg')).toBe('mp3');
+    expect(extensionForMimeType('image/avif')).toBe('avif');
+    expect(extensionForMimeType('application/vnd.api+json; charset=utf-8')).toBe('vnd.api');
+    expect(extensionForMimeType(undefined)).toBe('bin');
+  });
+
+  it('writes decoded content without overwriting existing files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cvmi-save-'));
+    testDir = dir;
+    await writeFile(join(dir, 'snapshot-1.png'), 'existing');
+
+    const { result, saved } = saveBinaryContent(
+      {
+        content: [
+          { type: 'image', mimeType: 'image/png', data: Buffer.from('img').toString('base64') },
+          {
+            type: 'resource',
+            resource: {
+              uri: 'file:///tmp/report.pdf',
+              blob: Buffer.from('pdf').toString('base64'),
+            },
+          },
+        ],
+      },
+      dir,
+      'snapshot'
+    );
+
+    expect(saved).toEqual([join(dir, 'snapshot-2.png'), join(dir, 'report-1.pdf')]);
+    expect(result).toEqual({
+      content: [
+        { type: 'image', mimeType: 'image/png', path: join(dir, 'snapshot-2.png') },
+        { type: 'resource', resource: { uri: 'file:///tmp/report.pdf', path: saved[1] } },
+      ],
+    });
+    expect(await readFile(join(dir, 'snapshot-1.png'), 'utf-8')).toBe('existing');
+    expect(await readFile(saved[1]!, 'utf-8')).toBe('pdf');
+  });
+});
@@ -0,0 +1,253 @@
+import { BOLD, RESET } from '../constants/ui.ts';
+import { extractResultValues } from './extract.ts';
+
+export const OUTPUT_FORMATS = ['yaml', 'table', 'ndjson', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const CONTENT_ITEM_TYPES = new Set(['text', 'image', 'audio', 'resource', 'resource_link']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isOutputFormat(value: string | undefined): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Pick the part of a result worth formatting: the extracted value(s) when
+ * `--extract` is set, otherwise structured content, resource contents, prompt
+ * messages, or tool content items, in that order.
+ */
+export function selectOutputData(result: unknown, extract?: string[]): unknown {
+  if (extract && extract.length > 0) {
+    return extractResultValues(result, extract);
+  }
+
+  if (!isPlainObject(result)) {
+    return result;
+  }
+
+  if (result.structuredContent !== undefined) return result.structuredContent;
+  if (Array.isArray(result.contents)) return result.contents;
+  if (Array.isArray(result.messages)) return result.messages;
+  if (Array.isArray(result.content)) return result.content;
+  return result;
+}
+
+const YAML_PLAIN_UNSAFE =
+  /^[\s\-?:,[\]{}#&*!|>'"%@`]|[\s]$|: | #|^(?:true|false|null|yes|no|on|off|~)$/i;
+const YAML_NUMBER_LIKE = /^[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?$|^0x[0-9a-f]+$/i;
+
+function formatYamlString(value: string, indent: string): string {
+  if (value.includes('\n')) {
+    const lines = value.replace(/\n$/, '').split('\n');
+    const chomp = value.endsWith('\n') ? '' : '-';
+    return `|${chomp}\n${lines.map((line) => (line ? `${indent}  ${line}` : '')).join('\n')}`;
+  }
+
+  if (value === '' || YAML_PLAIN_UNSAFE.test(value) || YAML_NUMBER_LIKE.test(value)) {
+    return JSON.stringify(value);
+  }
+
+  return value;
+}
+
+function formatYamlScalar(value: unknown, indent: string): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return formatYamlString(value, indent);
+  return String(value);
+}
+
+function isYamlCollection(value: unknown): boolean {
+  return (
+    (Array.isArray(value) && value.length > 0) ||
+    (isPlainObject(value) && Object.keys(value).length > 0)
+  );
+}
+
+function formatYamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${indent}[]`];
+    return value.flatMap((item) => {
+      if (!isYamlCollection(item)) {
+        return [
+          `${indent}- ${Array.isArray(item) ? '[]' : isPlainObject(item) ? '{}' : formatYamlScalar(item, indent)}`,
+        ];
+      }
+      const [first = '', ...rest] = formatYamlLines(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) return [`${indent}{}`];
+    return entries.flatMap(([key, entry]) => {
+      const label = `${indent}${formatYamlString(key, indent)}:`;
+      if (isYamlCollection(entry)) {
+        return [label, ...formatYamlLines(entry, `${indent}  `)];
+      }
+      const scalar = Array.isArray(entry)
+        ? '[]'
+        : isPlainObject(entry)
+          ? '{}'
+          : formatYamlScalar(entry, indent);
+      return [`${label} ${scalar}`];
+    });
+  }
+
+  return [`${indent}${formatYamlScalar(value, indent)}`];
+}
+
+export function formatYaml(value: unknown): string {
+  return formatYamlLines(value, '').join('\n');
+}
+
+interface TableData {
+  columns: string[];
+  rows: string[][];
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value.replace(/\r?\n/g, ' ');
+  return JSON.stringify(value);
+}
+
+function toTableData(value: unknown): TableData | undefined {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isPlainObject)) {
+      const columns = [...new Set(value.flatMap((row) => Object.keys(row)))];
+      return {
+        columns,
+        rows: value.map((row) => columns.map((column) => formatCell(row[column]))),
+      };
+    }
+    return { columns: ['value'], rows: value.map((item) => [formatCell(item)]) };
+  }
+
+  if (isPlainObject(value)) {
+    return {
+      columns: ['key', 'value'],
+      rows: Object.entries(value).map(([key, entry]) => [key, formatCell(entry)]),
+    };
+  }
+
+  return undefined;
+}
+
+export function formatTable(value: unknown): string {
+  const table = toTableData(value);
+  if (!table) {
+    return formatCell(value);
+  }
+
+  const widths = table.columns.map((column, index) =>
+    Math.max(column.length, ...table.rows.map((row) => row[index]!.length))
+  );
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, index) => cell.padEnd(widths[index]!))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    `${BOLD}${formatRow(table.columns)}${RESET}`,
+    formatRow(widths.map((width) => '─'.repeat(width))),
+    ...table.rows.map(formatRow),
+  ].join('\n');
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+function formatMarkdownTable(table: TableData): string {
+  return [
+    `| ${table.columns.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function formatMarkdownBinary(kind: string, entry: Record<string, unknown>): string {
+  const mimeType = typeof entry.mimeType === 'string' ? entry.mimeType : kind;
+  if (typeof entry.path === 'string') {
+    return kind === 'image' ? `![${mimeType}](${entry.path})` : `[${mimeType}](${entry.path})`;
+  }
+
+  const data = entry.data ?? entry.blob;
+  const size = typeof data === 'string' ? data.length : 0;
+  return `*[${kind} ${mimeType}, ${size} bytes base64]*`;
+}
+
+function formatMarkdownContentItem(item: Record<string, unknown>): string {
+  if (item.type === 'text') {
+    return String(item.text ?? '');
+  }
+
+  if (item.type === 'image' || item.type === 'audio') {
+    return formatMarkdownBinary(item.type, item);
+  }
+
+  const resource = isPlainObject(item.resource) ? item.resource : item;
+  if (typeof resource.text === 'string') {
+    return resource.text;
+  }
+
+  if (resource.blob !== undefined || typeof resource.path === 'string') {
+    return formatMarkdownBinary('blob', resource);
+  }
+
+  return `\`\`\`json\n${JSON.stringify(item, null, 2)}\n\`\`\``;
+}
+
+function isContentItemList(value: unknown): value is Record<string, unknown>[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        isPlainObject(item) &&
+        ((typeof item.type === 'string' && CONTENT_ITEM_TYPES.has(item.type)) ||
+          typeof item.uri === 'string')
+    )
+  );
+}
+
+export function formatMarkdown(value: unknown): string {
+  if (isContentItemList(value)) {
+    return value.map(formatMarkdownContentItem).join('\n\n');
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  const table = toTableData(value);
+  if (table && table.rows.length > 0) {
+    return formatMarkdownTable(table);
+  }
+
+  return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+export function formatNdjson(value: unknown): string {
+  const records = Array.isArray(value) ? value : [value];
+  return records.map((record) => JSON.stringify(record ?? null)).join('\n');
+}
+
+export function formatOutput(value: unknown, format: OutputFormat): string {
+  switch (format) {
+    case 'yaml':
+      return formatYaml(value);
+    case 'table':
+      return formatTable(value);
+    case 'markdown':
+      return formatMarkdown(value);
+    case 'ndjson':
+      return formatNdjson(value);
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProgressReporter, formatProgressBar, formatProgressValue } from './progress.ts';
+
+function createTtyStream() {
+  const writes: string[] = [];
+  return {
+    writes,
+    stream: { isTTY: true, columns: 80, write: (chunk: string) => writes.push(chunk) },
+  };
+}
+
+describe('formatProgressBar', () => {
+  it('fills the bar in proportion to progress/total', () => {
+    expect(formatProgressBar({ progress: 5, total: 10 }, 10)).toBe('[█████░░░░░] 50%');
+    expect(formatProgressBar({ progress: 12, total: 10 }, 4)).toBe('[████] 100%');
+  });
+
+  it('has no bar without a positive total', () => {
+    expect(formatProgressBar({ progress: 3 })).toBeUndefined();
+    expect(formatProgressBar({ progress: 3, total: 0 })).toBeUndefined();
+    expect(formatProgressValue({ progress: 3 })).toBe('3');
+    expect(formatProgressValue({ progress: 3, total: 8 })).toBe('3/8');
+  });
+});
+
+describe('createProgressReporter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('redraws one spinner line on a terminal and clears it on stop', () => {
+    vi.useFakeTimers();
+    const { stream, writes } = createTtyStream();
+    const reporter = createProgressReporter('render', { stream });
+
+    vi.advanceTimersByTime(80);
+    reporter.update({ progress: 1, total: 4, message: 'encoding' });
+    reporter.stop();
+    vi.advanceTimersByTime(500);
+
+    expect(writes).toEqual([
+      '\r\x1b[K⠙ render (0s)',
+      '\r\x1b[K⠙ render [█████░░░░░░░░░░░░░░░] 25% encoding (0s)',
+      '\r\x1b[K',
+    ]);
+  });
+
+  it('logs one line per update when verbose and not on a terminal', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const stream = { isTTY: false, write: vi.fn() };
+
+    createProgressReporter('render', { stream }).update({ progress: 2, total: 4, message: 'x' });
+    createProgressReporter('render', { stream, verbose: true }).update({ progress: 2, total: 4 });
+    const lines = log.mock.calls.map(([line]) => String(line));
+    log.mockRestore();
+
+    expect(stream.write).not.toHaveBeenCalled();
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('2/4');
+  });
+});
@@ -0,0 +1,107 @@
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { DIM, RESET } from '../constants/ui.ts';
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const SPINNER_INTERVAL_MS = 80;
+const BAR_WIDTH = 20;
+
+export interface ProgressReporter {
+  update(progress: Progress): void;
+  stop(): void;
+}
+
+interface ProgressStream {
+  isTTY?: boolean;
+  columns?: number;
+  write(chunk: string): unknown;
+}
+
+function hasTotal(progress: Progress): progress is Progress & { total: number } {
+  return (
+    typeof progress.total === 'number' && Number.isFinite(progress.total) && progress.total > 0
+  );
+}
+
+export function formatProgressValue(progress: Progress): string {
+  if (typeof progress.total === 'number' && Number.isFinite(progress.total)) {
+    return `${progress.progress}/${progress.total}`;
+  }
+
+  return String(progress.progress);
+}
+
+/**
+ * Render `[█████░░░░░] 50%` for progress with a known total, or undefined when
+ * the server only reports an open-ended counter.
+ */
+export function formatProgressBar(progress: Progress, width = BAR_WIDTH): string | undefined {
+  if (!hasTotal(progress)) {
+    return undefined;
+  }
+
+  const ratio = Math.min(Math.max(progress.progress / progress.total, 0), 1);
+  const filled = Math.round(ratio * width);
+  return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${Math.floor(ratio * 100)}%`;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+/**
+ * Report progress for one running request. On a terminal this draws a single
+ * spinner line (with a bar when the server sends `total`) that is cleared on
+ * stop; elsewhere it keeps the line-per-update log, and only in verbose mode.
+ */
+export function createProgressReporter(
+  label: string,
+  options: { verbose?: boolean; stream?: ProgressStream } = {}
+): ProgressReporter {
+  const stream = options.stream ?? process.stderr;
+
+  if (!stream.isTTY) {
+    return {
+      update: (progress) => {
+        if (!options.verbose) return;
+        const message = typeof progress.message === 'string' ? ` ${progress.message}` : '';
+        console.log(`${DIM}Progress:${RESET} ${formatProgressValue(progress)}${message}`);
+      },
+      stop: () => {},
+    };
+  }
+
+  const startedAt = Date.now();
+  let frame = 0;
+  let latest: Progress | undefined;
+
+  const render = () => {
+    const parts = [SPINNER_FRAMES[frame]!, label];
+    if (latest) {
+      parts.push(formatProgressBar(latest) ?? formatProgressValue(latest));
+      if (typeof latest.message === 'string') parts.push(latest.message);
+    }
+    parts.push(`(${formatElapsed(Date.now() - startedAt)})`);
+
+    const width = Math.max((stream.columns ?? 80) - 1, 10);
+    const line = parts.join(' ');
+    stream.write(`\r\x1b[K${line.length > width ? `${line.slice(0, width - 1)}…` : line}`);
+  };
+
+  const timer = setInterval(() => {
+    frame = (frame + 1) % SPINNER_FRAMES.length;
+    render();
+  }, SPINNER_INTERVAL_MS);
+  timer.unref?.();
+
+  return {
+    update: (progress) => {
+      latest = progress;
+      render();
+    },
+    stop: () => {
+      clearInterval(timer);
+      stream.write('\r\x1b[K');
+    },
+  };
+}
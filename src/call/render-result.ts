@@ -1,3 +1,6 @@
+import { BOLD, DIM, RESET } from '../constants/ui.ts';
+import { extractResultValue } from './extract.ts';
+
 function hasRenderableContent(value: unknown): value is {
   content: Array<
     | { type: 'text'; text: string }
@@ -80,7 +83,93 @@ function renderStructuredValue(value: unknown, indent = 0): void {
   console.log(`${prefix}${String(value)}`);
 }
 
+function hasResourceContents(value: unknown): value is {
+  contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+} {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { contents?: unknown }).contents)
+  );
+}
+
+function hasPromptMessages(value: unknown): value is {
+  description?: string;
+  messages: Array<{ role: string; content: Record<string, unknown> }>;
+} {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { messages?: unknown }).messages)
+  );
+}
+
+function formatBinaryLabel(kind: string, mimeType: unknown): string {
+  return `${kind}${mimeType ? ` ${String(mimeType)}` : ''}`;
+}
+
+function formatBinaryPlaceholder(kind: string, mimeType: unknown, data: unknown): string {
+  const encoded = typeof data === 'string' ? data : JSON.stringify(data);
+  return `[${formatBinaryLabel(kind, mimeType)}, ${encoded.length} bytes base64]`;
+}
+
+/** Content written to disk by --save-dir is shown by its path. */
+function formatSavedPlaceholder(kind: string, mimeType: unknown, path: string): string {
+  return `[${formatBinaryLabel(kind, mimeType)} saved to ${path}]`;
+}
+
+function renderResourceContents(
+  contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string; path?: string }>
+): void {
+  for (const entry of contents) {
+    if (contents.length > 1) {
+      console.log(`${DIM}${entry.uri}${RESET}`);
+    }
+
+    if (typeof entry.text === 'string') {
+      console.log(entry.text);
+    } else if (typeof entry.path === 'string') {
+      console.log(formatSavedPlaceholder('blob', entry.mimeType, entry.path));
+    } else if (entry.blob !== undefined) {
+      console.log(formatBinaryPlaceholder('blob', entry.mimeType, entry.blob));
+    } else {
+      console.log(JSON.stringify(entry, null, 2));
+    }
+  }
+}
+
+function renderContentItem(item: Record<string, unknown>): void {
+  if (item.type === 'text') {
+    console.log(item.text);
+  } else if ((item.type === 'image' || item.type === 'audio') && typeof item.path === 'string') {
+    console.log(formatSavedPlaceholder(item.type, item.mimeType, item.path));
+  } else if (item.type === 'image' || item.type === 'audio') {
+    console.log(formatBinaryPlaceholder(item.type, item.mimeType, item.data));
+  } else if (item.type === 'resource' && typeof item.resource === 'object' && item.resource) {
+    renderResourceContents([item.resource as { uri: string }]);
+  } else {
+    console.log(JSON.stringify(item, null, 2));
+  }
+}
+
 export function renderDefaultResult(result: unknown): void {
+  if (hasPromptMessages(result)) {
+    if (result.description) {
+      console.log(`${DIM}${result.description}${RESET}`);
+    }
+
+    for (const message of result.messages) {
+      console.log(`${BOLD}${message.role}:${RESET}`);
+      renderContentItem(message.content);
+    }
+    return;
+  }
+
+  if (hasResourceContents(result)) {
+    renderResourceContents(result.contents);
+    return;
+  }
+
   if (!hasRenderableContent(result)) {
     console.log(JSON.stringify(result, null, 2));
     return;
@@ -92,16 +181,23 @@ export function renderDefaultResult(result: unknown): void {
   }
 
   for (const item of result.content) {
-    if (item.type === 'text') {
-      console.log(item.text);
-    } else if (item.type === 'image') {
-      const data = typeof item.data === 'string' ? item.data : JSON.stringify(item.data);
-      console.log(`[image ${item.mimeType}, ${data.length} bytes base64]`);
-    } else if (item.type === 'audio') {
-      const data = typeof item.data === 'string' ? item.data : JSON.stringify(item.data);
-      console.log(`[audio ${item.mimeType}, ${data.length} bytes base64]`);
+    renderContentItem(item);
+  }
+}
+
+export function printRawResult(result: unknown, pretty: boolean): void {
+  console.log(JSON.stringify(result, null, pretty ? 2 : undefined));
+}
+
+export function printExtractedResult(result: unknown, paths: string[]): void {
+  // Evaluate every path first so a bad one fails before anything is printed.
+  const values = paths.map((path) => extractResultValue(result, path));
+
+  for (const extracted of values) {
+    if (typeof extracted === 'string') {
+      console.log(extracted);
     } else {
-      console.log(JSON.stringify(item, null, 2));
+      printRawResult(extracted, false);
     }
   }
 }
@@ -104,7 +104,8 @@ function getNestedObjectSchema(
 
 export function renderSchemaProperties(
   schema: Record<string, unknown> | undefined,
-  emptyLabel: string
+  emptyLabel: string,
+  indent = 2
 ): void {
   const properties =
     schema?.properties && typeof schema.properties === 'object'
@@ -113,8 +114,10 @@ export function renderSchemaProperties(
   const required = new Set(Array.isArray(schema?.required) ? schema.required : []);
   const names = Object.keys(properties);
 
+  const prefix = ' '.repeat(indent);
+
   if (names.length === 0) {
-    console.log(`  (no ${emptyLabel})`);
+    console.log(`${prefix}(no ${emptyLabel})`);
     return;
   }
 
@@ -128,18 +131,18 @@ export function renderSchemaProperties(
     const nestedObjectSchema = getNestedObjectSchema(property);
     if (nestedObjectSchema) {
       console.log(
-        `  - ${name}${required.has(name) ? '' : '?'}: ${type}${description ? ` - ${description}` : ''}`
+        `${prefix}- ${name}${required.has(name) ? '' : '?'}: ${type}${description ? ` - ${description}` : ''}`
       );
-      renderNestedSchemaProperties(nestedObjectSchema, 4);
+      renderNestedSchemaProperties(nestedObjectSchema, indent + 2);
       continue;
     }
 
     console.log(
-      `  - ${name}${required.has(name) ? '' : '?'}: ${type}${enumValues}${description ? ` - ${description}` : ''}`
+      `${prefix}- ${name}${required.has(name) ? '' : '?'}: ${type}${enumValues}${description ? ` - ${description}` : ''}`
     );
   }
 }
 
-export function renderToolSchema(tool: Tool): void {
-  renderSchemaProperties(tool.inputSchema as Record<string, unknown>, 'input parameters');
+export function renderToolSchema(tool: Tool, indent = 2): void {
+  renderSchemaProperties(tool.inputSchema as Record<string, unknown>, 'input parameters', indent);
 }
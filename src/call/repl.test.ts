@@ -0,0 +1,165 @@
+import { PassThrough } from 'stream';
+import { describe, expect, it, vi } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createReplCompleter, runCallRepl, tokenizeReplLine } from './repl.ts';
+import type { CallReplSession } from './repl.ts';
+import { stripAnsi } from '../test-utils.ts';
+
+const TOOLS = [
+  {
+    name: 'get_current',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        units: { type: 'string', enum: ['metric', 'imperial'] },
+      },
+    },
+  },
+  { name: 'get_forecast', inputSchema: { type: 'object' } },
+] as Tool[];
+
+function createSession(overrides: Partial<CallReplSession> = {}): CallReplSession {
+  return {
+    label: 'weather',
+    tools: TOOLS,
+    printTools: vi.fn(),
+    printToolHelp: vi.fn(),
+    callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'sunny' }] }),
+    printResult: vi.fn(),
+    ...overrides,
+  };
+}
+
+async function runLines(session: CallReplSession, lines: string[]) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const logs: string[] = [];
+  const log = console.log;
+  const error = console.error;
+  console.log = (message?: unknown) => logs.push(stripAnsi(String(message ?? '')));
+  console.error = (message?: unknown) => logs.push(stripAnsi(String(message ?? '')));
+
+  try {
+    const done = runCallRepl(
+      session,
+      { raw: false, prettyRaw: false, extract: undefined },
+      { input, output, terminal: false }
+    );
+    input.end(lines.map((line) => `${line}\n`).join(''));
+    await done;
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+
+  return logs;
+}
+
+describe('tokenizeReplLine', () => {
+  it('splits on whitespace and honours quotes and escapes', () => {
+    expect(tokenizeReplLine(`get_current city="New York" 'tags=["a", "b"]' note=a\\ b`)).toEqual([
+      'get_current',
+      'city=New York',
+      'tags=["a", "b"]',
+      'note=a b',
+    ]);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => tokenizeReplLine('get_current city="Lisbon')).toThrow(
+      'Unterminated quote in input'
+    );
+  });
+});
+
+describe('createReplCompleter', () => {
+  const complete = createReplCompleter(() => TOOLS);
+
+  it('completes tool names and meta-commands', () => {
+    expect(complete('get_')).toEqual([['get_current', 'get_forecast'], 'get_']);
+    expect(complete('.r')).toEqual([['.raw'], '.r']);
+  });
+
+  it('completes unused argument keys and enum values from the input schema', () => {
+    expect(complete('get_current ')).toEqual([['city=', 'units='], '']);
+    expect(complete('get_current city=Lisbon ')).toEqual([['units='], '']);
+    expect(complete('get_current units=m')).toEqual([['units=metric'], 'units=m']);
+  });
+});
+
+describe('runCallRepl', () => {
+  it('calls tools with coerced input over the same session', async () => {
+    const session = createSession();
+
+    await runLines(session, ['get_current city=Lisbon days=3', 'get_forecast']);
+
+    expect(session.callTool).toHaveBeenNthCalledWith(
+      1,
+      'get_current',
+      { city: 'Lisbon', days: 3 },
+      expect.any(AbortSignal)
+    );
+    expect(session.callTool).toHaveBeenNthCalledWith(
+      2,
+      'get_forecast',
+      {},
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('applies .raw and .extract to subsequent results', async () => {
+    const session = createSession();
+
+    const logs = await runLines(session, [
+      '.raw pretty',
+      '.extract content[?type == "text"].text',
+      'get_forecast',
+      '.extract off',
+      '.raw off',
+      'get_forecast',
+    ]);
+
+    expect(logs).toContain('raw: pretty');
+    expect(logs).toContain('extract: content[?type == "text"].text');
+    expect(session.printResult).toHaveBeenNthCalledWith(
+      1,
+      expect.anything(),
+      {
+        raw: true,
+        prettyRaw: true,
+        extract: ['content[?type == "text"].text'],
+      },
+      'get_forecast'
+    );
+    expect(session.printResult).toHaveBeenNthCalledWith(
+      2,
+      expect.anything(),
+      {
+        raw: false,
+        prettyRaw: false,
+        extract: undefined,
+      },
+      'get_forecast'
+    );
+  });
+
+  it('reports errors without ending the session and stops at .exit', async () => {
+    const session = createSession();
+
+    const logs = await runLines(session, [
+      'missing_tool',
+      'get_current city',
+      '.tools',
+      'get_current --help',
+      '.exit',
+      'get_forecast',
+    ]);
+
+    expect(logs).toContain('Tool not found: missing_tool. Type .tools to list available tools.');
+    expect(logs).toContain('Expected key=value argument, got: city');
+    expect(session.printTools).toHaveBeenCalledWith(TOOLS);
+    expect(session.printToolHelp).toHaveBeenCalledWith(TOOLS[0]);
+    expect(session.callTool).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,356 @@
+import { createInterface } from 'readline';
+import type { Interface } from 'readline';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BOLD, DIM, RESET, TEXT } from '../constants/ui.ts';
+import { parseExtractPath } from './extract.ts';
+import { applyInputAssignment } from './input.ts';
+
+const META_COMMANDS = ['.help', '.tools', '.raw', '.extract', '.exit'];
+const HISTORY_SIZE = 500;
+
+export interface CallReplState {
+  raw: boolean;
+  prettyRaw: boolean;
+  extract: string[] | undefined;
+}
+
+/**
+ * Everything the REPL needs from an open `cvmi call` session. The caller owns
+ * the connection; the REPL only drives it line by line.
+ */
+export interface CallReplSession {
+  label: string;
+  tools: Tool[];
+  printTools(tools: Tool[]): void;
+  printToolHelp(tool: Tool): void;
+  callTool(name: string, input: Record<string, unknown>, signal?: AbortSignal): Promise<unknown>;
+  printResult(result: unknown, state: CallReplState, name: string): void;
+}
+
+export interface CallReplIO {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+  terminal?: boolean;
+  historyPath?: string;
+}
+
+/**
+ * Split a REPL line into arguments, honouring single/double quotes and
+ * backslash escapes the same way a shell would for key=value input.
+ */
+export function tokenizeReplLine(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let hasToken = false;
+  let quote: '"' | "'" | undefined;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]!;
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"' && index + 1 < line.length) {
+        current += line[++index];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (char === '\\' && index + 1 < line.length) {
+      current += line[++index];
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error('Unterminated quote in input');
+  }
+
+  if (hasToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+function getSchemaProperties(tool: Tool): Record<string, Record<string, unknown>> {
+  const properties = (tool.inputSchema as Record<string, unknown> | undefined)?.properties;
+  if (!properties || typeof properties !== 'object') {
+    return {};
+  }
+
+  return properties as Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Build a readline completer for tool names, meta-commands, argument keys
+ * from the tool `inputSchema`, and enum values for the key being typed.
+ */
+export function createReplCompleter(getTools: () => Tool[]): (line: string) => [string[], string] {
+  return (line: string): [string[], string] => {
+    const words = line.trimStart().split(/\s+/);
+    const fragment = words[words.length - 1] ?? '';
+    const match = (candidates: string[]): [string[], string] => {
+      const hits = candidates.filter((candidate) => candidate.startsWith(fragment));
+      return [hits, fragment];
+    };
+
+    if (words.length <= 1) {
+      return match([...META_COMMANDS, ...getTools().map((tool) => tool.name)]);
+    }
+
+    const command = words[0]!;
+    if (command === '.raw') {
+      return match(['on', 'off', 'pretty']);
+    }
+
+    if (command === '.help') {
+      return match(getTools().map((tool) => tool.name));
+    }
+
+    const tool = getTools().find((entry) => entry.name === command);
+    if (!tool) {
+      return [[], fragment];
+    }
+
+    const properties = getSchemaProperties(tool);
+    const separatorIndex = fragment.indexOf('=');
+    if (separatorIndex > 0) {
+      const key = fragment.slice(0, separatorIndex);
+      const values = Array.isArray(properties[key]?.enum) ? properties[key]!.enum : [];
+      return match((values as unknown[]).map((value) => `${key}=${String(value)}`));
+    }
+
+    const usedKeys = new Set(words.slice(1, -1).map((word) => word.split('=')[0]));
+    return match(
+      Object.keys(properties)
+        .filter((key) => !usedKeys.has(key))
+        .map((key) => `${key}=`)
+    );
+  };
+}
+
+function printReplHelp(): void {
+  console.log(`
+${BOLD}Commands:${RESET}
+  <tool> [key=value ...]   Call a tool on the connected server
+                           Keys may be nested (a.b, tags[0]); use key:=json for JSON
+  <tool> --help            Show a tool's input and output schema
+  .tools                   List the server's tools
+  .raw on|off|pretty       Toggle raw JSON output
+  .extract [query|off]     Show, set, or clear the extract query, e.g. content[?type=="text"].text
+  .help                    Show this help message
+  .exit                    Close the session (or press Ctrl+D)
+
+${DIM}Use Tab to complete tool names and argument keys. History is kept between sessions.${RESET}
+`);
+}
+
+async function loadHistory(historyPath: string | undefined): Promise<string[]> {
+  if (!historyPath) {
+    return [];
+  }
+
+  try {
+    const contents = await readFile(historyPath, 'utf-8');
+    // readline expects the most recent entry first.
+    return contents.split('\n').filter(Boolean).reverse().slice(0, HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+async function saveHistory(historyPath: string | undefined, history: string[]): Promise<void> {
+  if (!historyPath || history.length === 0) {
+    return;
+  }
+
+  try {
+    await mkdir(dirname(historyPath), { recursive: true });
+    await writeFile(historyPath, `${[...history].reverse().join('\n')}\n`, 'utf-8');
+  } catch {
+    // History is a convenience; never fail the session because it cannot be written.
+  }
+}
+
+function handleRawCommand(state: CallReplState, value: string | undefined): void {
+  if (value === 'on') {
+    state.raw = true;
+    state.prettyRaw = false;
+  } else if (value === 'pretty') {
+    state.raw = true;
+    state.prettyRaw = true;
+  } else if (value === 'off') {
+    state.raw = false;
+    state.prettyRaw = false;
+  } else if (value !== undefined) {
+    throw new Error(`Usage: .raw on|off|pretty`);
+  }
+
+  console.log(`${DIM}raw:${RESET} ${state.raw ? (state.prettyRaw ? 'pretty' : 'on') : 'off'}`);
+}
+
+function handleExtractCommand(state: CallReplState, value: string | undefined): void {
+  if (value === 'off') {
+    state.extract = undefined;
+  } else if (value !== undefined) {
+    parseExtractPath(value);
+    state.extract = [value];
+  }
+
+  console.log(`${DIM}extract:${RESET} ${state.extract?.join(', ') ?? 'off'}`);
+}
+
+/**
+ * Handle one line of REPL input. Returns false when the session should end.
+ */
+async function evaluateLine(
+  session: CallReplSession,
+  state: CallReplState,
+  line: string,
+  inFlight: { controller?: AbortController } = {}
+): Promise<boolean> {
+  const [command, ...args] = tokenizeReplLine(line);
+  if (!command) {
+    return true;
+  }
+
+  switch (command) {
+    case '.exit':
+    case '.quit':
+      return false;
+    case '.help': {
+      const tool = args[0] ? session.tools.find((entry) => entry.name === args[0]) : undefined;
+      if (tool) {
+        session.printToolHelp(tool);
+      } else {
+        printReplHelp();
+      }
+      return true;
+    }
+    case '.tools':
+      session.printTools(session.tools);
+      return true;
+    case '.raw':
+      handleRawCommand(state, args[0]);
+      return true;
+    case '.extract':
+      // Queries keep their own quoting, e.g. [?type=="text"], so use the raw text.
+      handleExtractCommand(state, line.trim().slice(command.length).trim() || undefined);
+      return true;
+  }
+
+  if (command.startsWith('.')) {
+    throw new Error(`Unknown command: ${command}. Type .help for available commands.`);
+  }
+
+  const toolName = command.startsWith('tool:') ? command.slice('tool:'.length) : command;
+  const tool = session.tools.find((entry) => entry.name === toolName);
+  if (!tool) {
+    throw new Error(`Tool not found: ${toolName}. Type .tools to list available tools.`);
+  }
+
+  if (args.includes('--help') || args.includes('-h')) {
+    session.printToolHelp(tool);
+    return true;
+  }
+
+  const input: Record<string, unknown> = {};
+  for (const arg of args) {
+    if (!applyInputAssignment(input, arg)) {
+      throw new Error(`Expected key=value argument, got: ${arg}`);
+    }
+  }
+
+  inFlight.controller = new AbortController();
+  let result: unknown;
+  try {
+    result = await session.callTool(tool.name, input, inFlight.controller.signal);
+  } finally {
+    inFlight.controller = undefined;
+  }
+  session.printResult(result, { ...state }, tool.name);
+  return true;
+}
+
+/**
+ * Run an interactive read-eval-print loop against an already connected
+ * server. Resolves when the user exits with `.exit` or Ctrl+D.
+ */
+export async function runCallRepl(
+  session: CallReplSession,
+  initialState: CallReplState,
+  io: CallReplIO
+): Promise<void> {
+  const state = { ...initialState };
+  let history = await loadHistory(io.historyPath);
+  const rl: Interface = createInterface({
+    input: io.input,
+    output: io.output,
+    terminal: io.terminal,
+    completer: createReplCompleter(() => session.tools),
+    history,
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+  });
+
+  rl.on('history', (entries: string[]) => {
+    history = entries;
+  });
+  const inFlight: { controller?: AbortController } = {};
+  rl.on('SIGINT', () => {
+    if (inFlight.controller) {
+      // Cancel the running call but keep the session open.
+      inFlight.controller.abort('Cancelled by user');
+      return;
+    }
+
+    if (rl.line) {
+      // Discard the current line, like most shells do.
+      io.output.write('\n');
+      rl.write(null, { ctrl: true, name: 'u' });
+      rl.prompt();
+      return;
+    }
+
+    rl.close();
+  });
+
+  console.log(
+    `${TEXT}Connected to ${session.label}.${RESET} ${DIM}${session.tools.length} tool(s). Type .help for commands.${RESET}`
+  );
+  rl.setPrompt(`${session.label}> `);
+  rl.prompt();
+
+  try {
+    for await (const line of rl) {
+      try {
+        if (!(await evaluateLine(session, state, line, inFlight))) {
+          break;
+        }
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+      }
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+    await saveHistory(io.historyPath, history);
+  }
+}
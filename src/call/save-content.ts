@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+  'application/pdf': 'pdf',
+  'application/json': 'json',
+  'application/zip': 'zip',
+  'application/gzip': 'gz',
+  'application/octet-stream': 'bin',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'text/html': 'html',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function extensionForMimeType(mimeType: unknown): string {
+  if (typeof mimeType !== 'string') {
+    return 'bin';
+  }
+
+  const normalized = mimeType.split(';')[0]!.trim().toLowerCase();
+  const known = MIME_EXTENSIONS[normalized];
+  if (known) {
+    return known;
+  }
+
+  // Fall back to the subtype (image/avif -> avif), dropping any +suffix.
+  const subtype = normalized.split('/')[1]?.split('+')[0]?.replace(/^x-/, '');
+  return subtype && /^[a-z0-9.-]+$/.test(subtype) ? subtype : 'bin';
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'result';
+}
+
+/**
+ * Writes decoded binary content into a directory, numbering files per name so
+ * that nothing already on disk is overwritten.
+ */
+class ContentSaver {
+  private readonly counters = new Map<string, number>();
+  readonly saved: string[] = [];
+
+  constructor(
+    private readonly dir: string,
+    private readonly baseName: string
+  ) {}
+
+  save(data: string, mimeType: unknown, uri?: unknown): string {
+    const fromUri = typeof uri === 'string' ? basename(uri.split(/[?#]/)[0] ?? '') : '';
+    const [stem, extension] =
+      fromUri && extname(fromUri)
+        ? [sanitizeFileName(fromUri.slice(0, -extname(fromUri).length)), extname(fromUri).slice(1)]
+        : [sanitizeFileName(this.baseName), extensionForMimeType(mimeType)];
+
+    mkdirSync(this.dir, { recursive: true });
+    let counter = this.counters.get(stem) ?? 0;
+    let path: string;
+    do {
+      counter++;
+      path = join(this.dir, `${stem}-${counter}.${extension}`);
+    } while (existsSync(path));
+    this.counters.set(stem, counter);
+
+    writeFileSync(path, Buffer.from(data, 'base64'));
+    this.saved.push(path);
+    return path;
+  }
+
+  saveResourceEntry(entry: Record<string, unknown>): Record<string, unknown> {
+    if (typeof entry.blob !== 'string') {
+      return entry;
+    }
+
+    const { blob, ...rest } = entry;
+    return { ...rest, path: this.save(blob, entry.mimeType, entry.uri) };
+  }
+
+  saveContentItem(item: unknown): unknown {
+    if (!isPlainObject(item)) {
+      return item;
+    }
+
+    if ((item.type === 'image' || item.type === 'audio') && typeof item.data === 'string') {
+      const { data, ...rest } = item;
+      return { ...rest, path: this.save(data, item.mimeType) };
+    }
+
+    if (item.type === 'resource' && isPlainObject(item.resource)) {
+      return { ...item, resource: this.saveResourceEntry(item.resource) };
+    }
+
+    return item;
+  }
+}
+
+/**
+ * Decode base64 image, audio, and blob content in a call result into files
+ * under `dir`. Returns a copy of the result where each decoded item carries a
+ * `path` instead of its base64 payload, plus the list of written files.
+ */
+export function saveBinaryContent(
+  result: unknown,
+  dir: string,
+  baseName: string
+): { result: unknown; saved: string[] } {
+  if (!isPlainObject(result)) {
+    return { result, saved: [] };
+  }
+
+  const saver = new ContentSaver(dir, baseName);
+  const copy: Record<string, unknown> = { ...result };
+
+  if (Array.isArray(result.content)) {
+    copy.content = result.content.map((item) => saver.saveContentItem(item));
+  }
+
+  if (Array.isArray(result.contents)) {
+    copy.contents = result.contents.map((entry) =>
+      isPlainObject(entry) ? saver.saveResourceEntry(entry) : entry
+    );
+  }
+
+  if (Array.isArray(result.messages)) {
+    copy.messages = result.messages.map((message) =>
+      isPlainObject(message)
+        ? { ...message, content: saver.saveContentItem(message.content) }
+        : message
+    );
+  }
+
+  return { result: copy, saved: saver.saved };
+}
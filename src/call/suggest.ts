@@ -0,0 +1,49 @@
+function levenshteinDistance(left: string, right: string): number {
+  const rows = left.length + 1;
+  const cols = right.length + 1;
+  const matrix = Array.from({ length: rows }, () => Array<number>(cols).fill(0));
+
+  for (let row = 0; row < rows; row++) {
+    matrix[row]![0] = row;
+  }
+
+  for (let col = 0; col < cols; col++) {
+    matrix[0]![col] = col;
+  }
+
+  for (let row = 1; row < rows; row++) {
+    for (let col = 1; col < cols; col++) {
+      const substitutionCost = left[row - 1] === right[col - 1] ? 0 : 1;
+      matrix[row]![col] = Math.min(
+        matrix[row - 1]![col]! + 1,
+        matrix[row]![col - 1]! + 1,
+        matrix[row - 1]![col - 1]! + substitutionCost
+      );
+    }
+  }
+
+  return matrix[rows - 1]![cols - 1]!;
+}
+
+/**
+ * Return the candidate closest to `requested`, or undefined when nothing is
+ * similar enough to be a plausible typo.
+ */
+export function findClosestName(candidates: string[], requested: string): string | undefined {
+  const normalizedRequested = requested.toLowerCase();
+  let bestMatch: { name: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(candidate.toLowerCase(), normalizedRequested);
+    if (!bestMatch || distance < bestMatch.distance) {
+      bestMatch = { name: candidate, distance };
+    }
+  }
+
+  if (!bestMatch) {
+    return undefined;
+  }
+
+  const threshold = Math.max(2, Math.floor(requested.length / 3));
+  return bestMatch.distance <= threshold ? bestMatch.name : undefined;
+}
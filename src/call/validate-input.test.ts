@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { formatInputIssues, prepareToolInput } from './validate-input.ts';
+import { coerceValue } from './input.ts';
+
+const schema = {
+  type: 'object',
+  properties: {
+    city: { type: 'string' },
+    zip: { type: 'string' },
+    days: { type: 'integer', minimum: 1, maximum: 7 },
+    metric: { type: 'boolean' },
+    units: { enum: ['metric', 'imperial'] },
+    filters: {
+      type: 'object',
+      properties: {
+        kinds: { type: 'array', items: { type: 'integer' } },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ['city'],
+};
+
+describe('prepareToolInput', () => {
+  it('coerces loosely typed CLI values to the declared schema types', () => {
+    const { value, issues } = prepareToolInput(schema, {
+      city: 'Lisbon',
+      zip: coerceValue('01234'),
+      days: '3',
+      metric: 'true',
+      filters: '{"kinds":["1", 7]}',
+    });
+
+    expect(issues).toEqual([]);
+    expect(value).toEqual({
+      city: 'Lisbon',
+      zip: '01234',
+      days: 3,
+      metric: true,
+      filters: { kinds: [1, 7] },
+    });
+  });
+
+  it('turns numbers back into strings for string fields', () => {
+    expect(prepareToolInput(schema, { city: coerceValue('1000') }).value).toEqual({
+      city: '1000',
+    });
+  });
+
+  it('reports missing required fields, unknown keys, and type mismatches with paths', () => {
+    const { issues, warnings } = prepareToolInput(schema, {
+      citty: 'Lisbon',
+      days: 12,
+      units: 'kelvin',
+      filters: { kinds: ['x'], limit: 2 },
+    });
+
+    expect(formatInputIssues(issues)).toEqual([
+      '  - city: missing required field',
+      '  - days: must be <= 7',
+      '  - units: must be one of: "metric", "imperial"',
+      '  - filters.kinds[0]: expected integer, got string',
+      '  - filters.limit: unknown field',
+    ]);
+    // The root schema does not set additionalProperties, so unknown keys only warn.
+    expect(formatInputIssues(warnings)).toEqual(['  - citty: unknown field (did you mean city?)']);
+  });
+
+  it('checks properties and required next to anyOf', () => {
+    const unionSchema = {
+      type: 'object',
+      properties: { id: { type: 'integer' } },
+      required: ['id'],
+      anyOf: [{ required: ['name'] }, { required: ['email'] }],
+    };
+
+    expect(formatInputIssues(prepareToolInput(unionSchema, { id: 'x', name: 'a' }).issues)).toEqual(
+      ['  - id: expected integer, got string']
+    );
+    expect(formatInputIssues(prepareToolInput(unionSchema, { id: 1 }).issues)).toEqual([
+      '  - (input): does not match any of the allowed schemas',
+    ]);
+  });
+
+  it('resolves local refs and anyOf variants', () => {
+    const refSchema = {
+      type: 'object',
+      properties: {
+        when: { $ref: '#/$defs/when' },
+      },
+      $defs: {
+        when: { anyOf: [{ type: 'integer' }, { type: 'string', pattern: '^\\d{4}-\\d{2}$' }] },
+      },
+    };
+
+    expect(prepareToolInput(refSchema, { when: '42' }).value).toEqual({ when: 42 });
+    expect(prepareToolInput(refSchema, { when: '2026-10' }).value).toEqual({ when: '2026-10' });
+    expect(formatInputIssues(prepareToolInput(refSchema, { when: 'soon' }).issues)).toEqual([
+      '  - when: does not match any of the allowed schemas',
+    ]);
+  });
+
+  it('requires exactly one oneOf variant to match', () => {
+    const exclusiveSchema = {
+      type: 'object',
+      properties: {
+        limit: {
+          oneOf: [
+            { type: 'integer', maximum: 10 },
+            { type: 'number', minimum: 5 },
+          ],
+        },
+      },
+    };
+
+    expect(prepareToolInput(exclusiveSchema, { limit: '2' }).issues).toEqual([]);
+    expect(prepareToolInput(exclusiveSchema, { limit: '5.5' }).issues).toEqual([]);
+    expect(formatInputIssues(prepareToolInput(exclusiveSchema, { limit: '7' }).issues)).toEqual([
+      '  - limit: matches more than one of the allowed schemas',
+    ]);
+  });
+
+  it('allows unknown keys when the schema declares additionalProperties', () => {
+    const openSchema = { type: 'object', properties: {}, additionalProperties: { type: 'number' } };
+
+    expect(prepareToolInput(openSchema, { anything: '5' })).toEqual({
+      value: { anything: 5 },
+      issues: [],
+      warnings: [],
+    });
+  });
+});
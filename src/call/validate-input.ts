@@ -0,0 +1,364 @@
+import { findClosestName } from './suggest.ts';
+
+type JsonSchema = Record<string, unknown>;
+
+export interface InputIssue {
+  /** Location of the offending value, e.g. `filters.kinds[0]`. Empty for the input root. */
+  path: string;
+  message: string;
+  /** Worth pointing out, but the server may well accept it. */
+  warning?: boolean;
+}
+
+export interface PreparedInput {
+  value: Record<string, unknown>;
+  issues: InputIssue[];
+  /** Keys the schema does not declare but does not forbid either. */
+  warnings: InputIssue[];
+}
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+function asSchema(value: unknown): JsonSchema | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as JsonSchema)
+    : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+
+  return base ? `${base}.${key}` : key;
+}
+
+/** Resolve local `#/...` references; anything else is left as-is. */
+export function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  const seen = new Set<string>();
+
+  while (
+    typeof current.$ref === 'string' &&
+    current.$ref.startsWith('#') &&
+    !seen.has(current.$ref)
+  ) {
+    seen.add(current.$ref);
+    let target: unknown = root;
+    for (const segment of current.$ref.slice(1).split('/').filter(Boolean)) {
+      target = asSchema(target)?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+
+    const resolved = asSchema(target);
+    if (!resolved) {
+      break;
+    }
+    current = resolved;
+  }
+
+  return current;
+}
+
+function getTypes(schema: JsonSchema): string[] {
+  if (typeof schema.type === 'string') {
+    return [schema.type];
+  }
+
+  return Array.isArray(schema.type)
+    ? schema.type.filter((type): type is string => typeof type === 'string')
+    : [];
+}
+
+function asSchemaList(value: unknown): JsonSchema[] | undefined {
+  return Array.isArray(value)
+    ? value.map((variant) => asSchema(variant)).filter((variant) => !!variant)
+    : undefined;
+}
+
+function getVariants(schema: JsonSchema): JsonSchema[] | undefined {
+  return asSchemaList(schema.anyOf) ?? asSchemaList(schema.oneOf);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function coerceToType(value: unknown, type: string): unknown {
+  if (type === 'string') {
+    if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+      return String(value);
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : value;
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if ((type === 'number' || type === 'integer') && NUMBER_PATTERN.test(value)) {
+    const parsed = Number(value);
+    return type === 'number' || Number.isInteger(parsed) ? parsed : value;
+  }
+
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+
+  if (type === 'null' && value === 'null') {
+    return null;
+  }
+
+  if (type === 'object' || type === 'array') {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return matchesType(parsed, type) ? parsed : value;
+    } catch {
+      return value;
+    }
+  }
+
+  return value;
+}
+
+function coerceToSchema(value: unknown, schema: JsonSchema, root: JsonSchema): unknown {
+  const resolved = resolveSchema(schema, root);
+
+  const variants = getVariants(resolved);
+  if (variants) {
+    for (const variant of variants) {
+      const candidate = coerceToSchema(value, variant, root);
+      if (validateAgainstSchema(candidate, variant, root, '').length === 0) {
+        return candidate;
+      }
+    }
+    return value;
+  }
+
+  let result = value;
+  const types = getTypes(resolved);
+  if (types.length > 0 && !types.some((type) => matchesType(result, type))) {
+    for (const type of types) {
+      const candidate = coerceToType(result, type);
+      if (matchesType(candidate, type)) {
+        result = candidate;
+        break;
+      }
+    }
+  }
+
+  // Untyped enums such as ["1", "2"] still expect the declared literal.
+  if (Array.isArray(resolved.enum) && !resolved.enum.some((entry) => isEqual(entry, result))) {
+    const literal = resolved.enum.find((entry) => String(entry) === String(result));
+    if (literal !== undefined) {
+      result = literal;
+    }
+  }
+
+  if (Array.isArray(result)) {
+    const items = asSchema(resolved.items);
+    return items ? result.map((item) => coerceToSchema(item, items, root)) : result;
+  }
+
+  if (isPlainObject(result)) {
+    const properties = asSchema(resolved.properties) ?? {};
+    const additional = asSchema(resolved.additionalProperties);
+    return Object.fromEntries(
+      Object.entries(result).map(([key, entry]) => {
+        const propertySchema = asSchema(properties[key]) ?? additional;
+        return [key, propertySchema ? coerceToSchema(entry, propertySchema, root) : entry];
+      })
+    );
+  }
+
+  return result;
+}
+
+function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string
+): InputIssue[] {
+  const resolved = resolveSchema(schema, root);
+  const issues: InputIssue[] = [];
+
+  const countMatches = (variants: JsonSchema[]) =>
+    variants.filter((variant) =>
+      validateAgainstSchema(value, variant, root, path).every((issue) => issue.warning)
+    ).length;
+
+  const anyOf = asSchemaList(resolved.anyOf);
+  if (anyOf && countMatches(anyOf) === 0) {
+    issues.push({ path, message: 'does not match any of the allowed schemas' });
+  }
+
+  const oneOf = asSchemaList(resolved.oneOf);
+  if (oneOf) {
+    const matches = countMatches(oneOf);
+    if (matches === 0) {
+      issues.push({ path, message: 'does not match any of the allowed schemas' });
+    } else if (matches > 1) {
+      issues.push({ path, message: 'matches more than one of the allowed schemas' });
+    }
+  }
+
+  if (Array.isArray(resolved.allOf)) {
+    for (const part of resolved.allOf) {
+      const partSchema = asSchema(part);
+      if (partSchema) {
+        issues.push(...validateAgainstSchema(value, partSchema, root, path));
+      }
+    }
+  }
+
+  const types = getTypes(resolved);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    issues.push({ path, message: `expected ${types.join(' | ')}, got ${describeType(value)}` });
+    return issues;
+  }
+
+  if (Array.isArray(resolved.enum) && !resolved.enum.some((entry) => isEqual(entry, value))) {
+    const allowed = resolved.enum.map((entry) => JSON.stringify(entry)).join(', ');
+    issues.push({ path, message: `must be one of: ${allowed}` });
+  }
+
+  if ('const' in resolved && !isEqual(resolved.const, value)) {
+    issues.push({ path, message: `must be ${JSON.stringify(resolved.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof resolved.minLength === 'number' && value.length < resolved.minLength) {
+      issues.push({ path, message: `must be at least ${resolved.minLength} characters` });
+    }
+    if (typeof resolved.maxLength === 'number' && value.length > resolved.maxLength) {
+      issues.push({ path, message: `must be at most ${resolved.maxLength} characters` });
+    }
+    if (typeof resolved.pattern === 'string') {
+      try {
+        if (!new RegExp(resolved.pattern, 'u').test(value)) {
+          issues.push({ path, message: `must match pattern ${resolved.pattern}` });
+        }
+      } catch {
+        // Patterns JavaScript cannot compile are left to the server.
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof resolved.minimum === 'number' && value < resolved.minimum) {
+      issues.push({ path, message: `must be >= ${resolved.minimum}` });
+    }
+    if (typeof resolved.maximum === 'number' && value > resolved.maximum) {
+      issues.push({ path, message: `must be <= ${resolved.maximum}` });
+    }
+    if (typeof resolved.exclusiveMinimum === 'number' && value <= resolved.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${resolved.exclusiveMinimum}` });
+    }
+    if (typeof resolved.exclusiveMaximum === 'number' && value >= resolved.exclusiveMaximum) {
+      issues.push({ path, message: `must be < ${resolved.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof resolved.minItems === 'number' && value.length < resolved.minItems) {
+      issues.push({ path, message: `must have at least ${resolved.minItems} item(s)` });
+    }
+    if (typeof resolved.maxItems === 'number' && value.length > resolved.maxItems) {
+      issues.push({ path, message: `must have at most ${resolved.maxItems} item(s)` });
+    }
+    const items = asSchema(resolved.items);
+    if (items) {
+      value.forEach((item, index) => {
+        issues.push(...validateAgainstSchema(item, items, root, joinPath(path, index)));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = asSchema(resolved.properties);
+    const required = Array.isArray(resolved.required) ? resolved.required : [];
+    for (const key of required) {
+      if (typeof key === 'string' && value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'missing required field' });
+      }
+    }
+
+    // Undeclared keys are only an error when the schema says so; JSON Schema allows
+    // them by default.
+    const additional = resolved.additionalProperties;
+    for (const [key, entry] of Object.entries(value)) {
+      const propertySchema = asSchema(properties?.[key]);
+      if (propertySchema) {
+        issues.push(...validateAgainstSchema(entry, propertySchema, root, joinPath(path, key)));
+      } else if (asSchema(additional)) {
+        issues.push(
+          ...validateAgainstSchema(entry, asSchema(additional)!, root, joinPath(path, key))
+        );
+      } else if (properties || additional === false) {
+        const suggestion = findClosestName(Object.keys(properties ?? {}), key);
+        issues.push({
+          path: joinPath(path, key),
+          message: `unknown field${suggestion ? ` (did you mean ${suggestion}?)` : ''}`,
+          ...(additional === false ? {} : { warning: true }),
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Coerce CLI input towards a tool's `inputSchema` and validate the result.
+ *
+ * Values arrive loosely typed from key=value arguments, so a declared type
+ * wins over the guessed one: `zip=01234` stays a string for a string field,
+ * `count=3` becomes a number for a numeric field.
+ */
+export function prepareToolInput(schema: unknown, input: Record<string, unknown>): PreparedInput {
+  const root = asSchema(schema);
+  if (!root) {
+    return { value: input, issues: [], warnings: [] };
+  }
+
+  const coerced = coerceToSchema(input, root, root);
+  const value = isPlainObject(coerced) ? coerced : input;
+  const found = validateAgainstSchema(value, root, root, '');
+  return {
+    value,
+    issues: found.filter((issue) => !issue.warning),
+    warnings: found.filter((issue) => issue.warning),
+  };
+}
+
+export function formatInputIssues(issues: InputIssue[]): string[] {
+  return issues.map((issue) => `  - ${issue.path || '(input)'}: ${issue.message}`);
+}
@@ -22,9 +22,16 @@ import { track } from './telemetry.ts';
 import { serve, showServeHelp } from './serve.ts';
 import { showUseHelp, use } from './use.ts';
 import { call, parseCallArgs, showCallHelp } from './call.ts';
+import { PromptCancelledError } from './call/interactive.ts';
 import { discover, parseDiscoverArgs, showDiscoverHelp } from './discover.ts';
+import { inspect, parseInspectArgs, showInspectHelp } from './inspect.ts';
 import { runSync, parseSyncOptions } from './sync.ts';
 import { runCn } from './cn/index.ts';
+import { detach, runLogs, runPs, runStop } from './daemon.ts';
+import { EMIT_FORMATS } from './serve/emit.ts';
+import type { EmitFormat } from './serve/emit.ts';
+import { REMOTE_TRANSPORTS } from './serve/remote.ts';
+import type { RemoteTransport } from './serve/remote.ts';
 import { parseEncryptionMode } from './config/loader.ts';
 import { BOLD, DIM, GRAYS, LOGO_LINES, RESET, TEXT } from './constants/ui.ts';
 
@@ -69,6 +76,7 @@ function showBanner(): void {
     ['npx cvmi config <command>', 'Manage saved server aliases'],
     ['npx cvmi discover', 'Discover announced servers on relays'],
     ['npx cvmi call <server>', 'Call a remote ContextVM capability'],
+    ['npx cvmi inspect <server>', 'Inspect a remote server schema'],
     ['npx cvmi cn <cmd>', 'Compile a server to TypeScript code'],
     ['npx cvmi check', 'Check for updates'],
     ['npx cvmi update', 'Update all skills'],
@@ -97,8 +105,13 @@ ${BOLD}Commands:${RESET}
   serve                  Expose an MCP server over Nostr
   use                    Connect to a remote Nostr MCP server
   config                 Manage saved server aliases
+  ps                     List gateways and proxies started with --detach
+  stop <name>            Stop a background instance
+  logs <name> [-f]       Show (or follow) the log of a background instance
   discover               Discover announced ContextVM servers on relays
   call                   Inspect or call a remote ContextVM capability
+  shell                  Open an interactive session with a remote server (call --repl)
+  inspect                Dump a remote server's full schema (tools, resources, prompts)
   cn, compile            Compile a server to TypeScript code
   check                  Check for available skill updates
   update                 Update all skills to latest versions
@@ -119,9 +132,12 @@ ${BOLD}Examples:${RESET}
   ${DIM}$${RESET} cvmi remove <skill>               ${DIM}# remove an installed skill${RESET}
   ${DIM}$${RESET} cvmi serve -- <command-or-url>    ${DIM}# start gateway, expose an already existing server (stdio or http) over nostr${RESET}
   ${DIM}$${RESET} cvmi use <server-pubkey>          ${DIM}# connect to remote MCP server, expose it as stdio${RESET}
+  ${DIM}$${RESET} cvmi serve --detach -- <command>  ${DIM}# run a gateway in the background (see cvmi ps)${RESET}
   ${DIM}$${RESET} cvmi discover                     ${DIM}# find public ContextVM servers${RESET}
   ${DIM}$${RESET} cvmi call <server>                ${DIM}# list remote capabilities${RESET}
   ${DIM}$${RESET} cvmi call <server> <tool> x=1     ${DIM}# invoke a remote tool${RESET}
+  ${DIM}$${RESET} cvmi shell <server>               ${DIM}# call tools interactively over one session${RESET}
+  ${DIM}$${RESET} cvmi inspect <server> --json      ${DIM}# dump the full server schema${RESET}
   ${DIM}$${RESET} cvmi config                       ${DIM}# add/list/remove server aliases${RESET}
   ${DIM}$${RESET} cvmi check                        ${DIM}# check for skill updates${RESET}
   ${DIM}$${RESET} cvmi update                       ${DIM}# update installed skills${RESET}
@@ -706,17 +722,32 @@ interface ServeParseResult {
   config: string | undefined;
   persistPrivateKey: boolean;
   env: Record<string, string> | undefined;
+  maxRestarts: number | undefined;
+  auditLog: string | undefined;
+  metricsPort: string | undefined;
+  healthPort: string | undefined;
+  detach: boolean;
+  name: string | undefined;
+  emit: EmitFormat | undefined;
+  module: string | undefined;
+  transport: RemoteTransport | undefined;
   unknownFlags: string[];
 }
 
 interface UseParseResult {
   serverPubkey: string | undefined;
+  /** Every positional server (pubkey or alias); more than one aggregates them */
+  servers: string[];
   verbose: boolean;
   privateKey: string | undefined;
   relays: string[] | undefined;
   encryption: EncryptionMode | undefined;
   config: string | undefined;
   persistPrivateKey: boolean;
+  metricsPort: string | undefined;
+  http: string | undefined;
+  detach: boolean;
+  name: string | undefined;
   unknownFlags: string[];
 }
 
@@ -745,6 +776,15 @@ function parseServeArgs(args: string[]): ServeParseResult {
     config: undefined,
     persistPrivateKey: false,
     env: undefined,
+    maxRestarts: undefined,
+    auditLog: undefined,
+    metricsPort: undefined,
+    healthPort: undefined,
+    detach: false,
+    name: undefined,
+    emit: undefined,
+    module: undefined,
+    transport: undefined,
     unknownFlags: [],
   };
 
@@ -805,6 +845,42 @@ function parseServeArgs(args: string[]): ServeParseResult {
       result.encryption = parseEncryptionMode(value, 'CLI flag --encryption-mode');
     } else if (arg === '--config') {
       result.config = consumeValue('--config');
+    } else if (arg === '--max-restarts') {
+      const value = consumeValue('--max-restarts');
+      if (value === undefined) continue;
+      if (!/^\d+$/.test(value)) {
+        result.unknownFlags.push(`--max-restarts (expected a non-negative integer)`);
+        continue;
+      }
+      result.maxRestarts = Number(value);
+    } else if (arg === '--audit-log') {
+      result.auditLog = consumeValue('--audit-log');
+    } else if (arg === '--metrics-port') {
+      result.metricsPort = consumeValue('--metrics-port');
+    } else if (arg === '--health-port') {
+      result.healthPort = consumeValue('--health-port');
+    } else if (arg === '--detach') {
+      result.detach = true;
+    } else if (arg === '--name') {
+      result.name = consumeValue('--name');
+    } else if (arg === '--emit') {
+      const value = consumeValue('--emit');
+      if (value === undefined) continue;
+      if (!(EMIT_FORMATS as readonly string[]).includes(value)) {
+        result.unknownFlags.push(`--emit (expected ${EMIT_FORMATS.join(', ')})`);
+        continue;
+      }
+      result.emit = value as EmitFormat;
+    } else if (arg === '--module') {
+      result.module = consumeValue('--module');
+    } else if (arg === '--transport') {
+      const value = consumeValue('--transport');
+      if (value === undefined) continue;
+      if (!(REMOTE_TRANSPORTS as readonly string[]).includes(value)) {
+        result.unknownFlags.push(`--transport (expected ${REMOTE_TRANSPORTS.join(', ')})`);
+        continue;
+      }
+      result.transport = value as RemoteTransport;
     } else if (arg === '--help' || arg === '-h') {
       // Handled at call site
     } else if (arg.startsWith('--')) {
@@ -822,23 +898,32 @@ function parseServeArgs(args: string[]): ServeParseResult {
     }
   }
 
+  if (result.module && result.serverArgs.length > 0) {
+    result.unknownFlags.push('--module (cannot be combined with a server command or URL)');
+  }
+
   return result;
 }
 
 /**
  * Parse CLI arguments for the use command.
- * Handles flags in any order and identifies the positional server pubkey.
+ * Handles flags in any order and identifies the positional servers (pubkeys or aliases).
  * Reports unknown flags for strict validation.
  */
 function parseUseArgs(args: string[]): UseParseResult {
   const result: UseParseResult = {
     serverPubkey: undefined,
+    servers: [],
     verbose: false,
     privateKey: undefined,
     relays: undefined,
     encryption: undefined,
     config: undefined,
     persistPrivateKey: false,
+    metricsPort: undefined,
+    http: undefined,
+    detach: false,
+    name: undefined,
     unknownFlags: [],
   };
 
@@ -874,6 +959,14 @@ function parseUseArgs(args: string[]): UseParseResult {
       result.serverPubkey = consumeValue('--server-pubkey');
     } else if (arg === '--config') {
       result.config = consumeValue('--config');
+    } else if (arg === '--metrics-port') {
+      result.metricsPort = consumeValue('--metrics-port');
+    } else if (arg === '--http') {
+      result.http = consumeValue('--http');
+    } else if (arg === '--detach') {
+      result.detach = true;
+    } else if (arg === '--name') {
+      result.name = consumeValue('--name');
     } else if (arg === '--help' || arg === '-h') {
       // Handled at call site
     } else if (arg.startsWith('-')) {
@@ -882,6 +975,7 @@ function parseUseArgs(args: string[]): UseParseResult {
     } else {
       // First non-flag argument is the server pubkey (if not already set via --server-pubkey)
       result.serverPubkey = result.serverPubkey ?? arg;
+      result.servers.push(arg);
     }
   }
 
@@ -976,6 +1070,19 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
+      if (parsed.detach) {
+        const instance = await detach('serve', restArgs, {
+          name: parsed.name,
+          config: parsed.config,
+          target: parsed.module ? [parsed.module] : parsed.serverArgs,
+        });
+        console.log(`Started ${instance.name} (pid ${instance.pid})`);
+        console.log(
+          `${DIM}Logs: cvmi logs ${instance.name} -f    Stop: cvmi stop ${instance.name}${RESET}`
+        );
+        break;
+      }
+
       await serve(parsed.serverArgs, {
         verbose: parsed.verbose,
         privateKey: parsed.privateKey,
@@ -985,6 +1092,14 @@ async function main(): Promise<void> {
         config: parsed.config,
         persistPrivateKey: parsed.persistPrivateKey,
         env: parsed.env,
+        maxRestarts: parsed.maxRestarts,
+        auditLog: parsed.auditLog,
+        metricsPort: parsed.metricsPort,
+        healthPort: parsed.healthPort,
+        emit: parsed.emit,
+        module: parsed.module,
+        transport: parsed.transport,
+        version: VERSION,
       });
       break;
     }
@@ -1004,13 +1119,35 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
-      await use(parsed.serverPubkey, {
+      const servers =
+        parsed.servers.length > 1
+          ? parsed.servers
+          : parsed.serverPubkey
+            ? [parsed.serverPubkey]
+            : [];
+
+      if (parsed.detach) {
+        const instance = await detach('use', restArgs, {
+          name: parsed.name,
+          config: parsed.config,
+          target: servers,
+        });
+        console.log(`Started ${instance.name} (pid ${instance.pid})`);
+        console.log(
+          `${DIM}Logs: cvmi logs ${instance.name} -f    Stop: cvmi stop ${instance.name}${RESET}`
+        );
+        break;
+      }
+
+      await use(servers, {
         verbose: parsed.verbose,
         privateKey: parsed.privateKey,
         relays: parsed.relays,
         encryption: parsed.encryption,
         config: parsed.config,
         persistPrivateKey: parsed.persistPrivateKey,
+        metricsPort: parsed.metricsPort,
+        http: parsed.http,
       });
       break;
     }
@@ -1037,9 +1174,13 @@ async function main(): Promise<void> {
       });
       break;
     }
+    case 'shell':
     case 'call': {
       ensureRelayRuntime();
       const parsed = parseCallArgs(restArgs);
+      if (command === 'shell') {
+        parsed.repl = true;
+      }
 
       if (parsed.unknownFlags.length > 0) {
         console.error(`Unknown flag(s): ${parsed.unknownFlags.join(', ')}`);
@@ -1056,6 +1197,15 @@ async function main(): Promise<void> {
         debug: parsed.debug,
         verbose: parsed.verbose,
         raw: parsed.raw,
+        prettyRaw: parsed.prettyRaw,
+        extract: parsed.extract,
+        output: parsed.output,
+        saveDir: parsed.saveDir,
+        timeout: parsed.timeout,
+        repl: parsed.repl,
+        batch: parsed.batch,
+        validate: parsed.validate,
+        interactive: parsed.interactive,
         help: parsed.help,
         showServerDetails: parsed.showServerDetails,
         privateKey: parsed.privateKey,
@@ -1063,6 +1213,38 @@ async function main(): Promise<void> {
         encryption: parsed.encryption,
         isStateless: parsed.isStateless,
         config: parsed.config,
+      }).catch((error: unknown) => {
+        // A cancelled prompt was already reported; exit like Ctrl+C does.
+        if (error instanceof PromptCancelledError) process.exit(130);
+        throw error;
+      });
+      process.exit(0);
+      break;
+    }
+    case 'inspect': {
+      ensureRelayRuntime();
+      const parsed = parseInspectArgs(restArgs);
+
+      if (parsed.unknownFlags.length > 0) {
+        console.error(`Unknown flag(s): ${parsed.unknownFlags.join(', ')}`);
+        console.error(`Run 'cvmi inspect --help' for usage.`);
+        process.exit(1);
+      }
+
+      if (parsed.help) {
+        showInspectHelp();
+        break;
+      }
+
+      await inspect(parsed.server, {
+        json: parsed.json,
+        debug: parsed.debug,
+        verbose: parsed.verbose,
+        privateKey: parsed.privateKey,
+        relays: parsed.relays,
+        encryption: parsed.encryption,
+        isStateless: parsed.isStateless,
+        config: parsed.config,
       });
       process.exit(0);
       break;
@@ -1071,6 +1253,15 @@ async function main(): Promise<void> {
       await runConfigCommand(restArgs);
       break;
     }
+    case 'ps':
+      await runPs(restArgs);
+      break;
+    case 'stop':
+      await runStop(restArgs);
+      break;
+    case 'logs':
+      await runLogs(restArgs);
+      break;
     case 'compile':
     case 'cn': {
       await runCn(restArgs);
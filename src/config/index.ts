@@ -5,6 +5,7 @@
 export {
   loadConfig,
   loadConfigFromEnv,
+  loadConfigFromFile,
   loadCallPrivateKeyFromEnv,
   getConfigPaths,
   getServeConfig,
@@ -19,6 +20,17 @@ export {
 export type {
   ServeConfig,
   ServeJsonConfig,
+  ServeTargetConfig,
+  RemoteTransportConfig,
+  ServeHttpAuthConfig,
+  ServeOAuthClientCredentialsConfig,
+  ServeAccessPolicyConfig,
+  ServeAccessRule,
+  CapabilityPatterns,
+  ServeRateLimitConfig,
+  TokenBucketConfig,
+  ServeRestartConfig,
+  ServeAuditLogConfig,
   UseConfig,
   UseJsonConfig,
   ServerTargetConfig,
@@ -101,6 +101,17 @@ export function loadConfigFromEnv(): EnvConfig {
     config.serve.url = serveUrl;
   }
 
+  const serveEnvKeys = process.env.CVMI_SERVE_ENV_KEYS;
+  if (serveEnvKeys) {
+    const env: Record<string, string> = {};
+    for (const key of serveEnvKeys.split(',').map((k) => k.trim())) {
+      const value = process.env[key];
+      if (key && value !== undefined) env[key] = value;
+    }
+    config.serve = config.serve || {};
+    config.serve.env = env;
+  }
+
   // Use/proxy environment variables
   if (process.env.CVMI_PROXY_PRIVATE_KEY || process.env.CVMI_USE_PRIVATE_KEY) {
     config.use = {
@@ -142,7 +153,7 @@ export function loadCallPrivateKeyFromEnv(): string | undefined {
 /**
  * Load configuration from a JSON file.
  */
-async function loadConfigFromFile(filePath: string): Promise<Partial<CvmiConfig>> {
+export async function loadConfigFromFile(filePath: string): Promise<Partial<CvmiConfig>> {
   try {
     await access(filePath);
     const content = await readFile(filePath, 'utf-8');
@@ -253,9 +264,19 @@ export function getServeConfig(
     encryption: cliFlags.encryption ?? config.encryption ?? DEFAULT_ENCRYPTION,
     serverInfo: cliFlags.serverInfo ?? config.serverInfo,
     url: cliFlags.url ?? config.url,
+    transport: cliFlags.transport ?? config.transport,
+    auth: cliFlags.auth ?? config.auth,
+    module: cliFlags.module ?? config.module,
     command: cliFlags.command ?? config.command,
     args: cliFlags.args ?? config.args,
     env: cliFlags.env ?? config.env,
+    targets: cliFlags.targets ?? config.targets,
+    policy: cliFlags.policy ?? config.policy,
+    rateLimit: cliFlags.rateLimit ?? config.rateLimit,
+    restart: cliFlags.restart ?? config.restart,
+    auditLog: cliFlags.auditLog ?? config.auditLog,
+    metricsPort: cliFlags.metricsPort ?? config.metricsPort,
+    healthPort: cliFlags.healthPort ?? config.healthPort,
   };
 }
 
@@ -272,6 +293,8 @@ export function getUseConfig(
     serverPubkey: cliFlags.serverPubkey ?? config.serverPubkey,
     encryption: cliFlags.encryption ?? config.encryption ?? DEFAULT_ENCRYPTION,
     isStateless: cliFlags.isStateless ?? config.isStateless ?? false,
+    metricsPort: cliFlags.metricsPort ?? config.metricsPort,
+    http: cliFlags.http ?? config.http,
   };
 }
 
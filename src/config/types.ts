@@ -27,8 +27,175 @@ export interface ServeConfig {
   args?: string[];
   /** Environment variables to pass to the spawned MCP server process */
   env?: Record<string, string>;
-  /** Optional remote MCP server URL (Streamable HTTP). Mutually exclusive with command/args. */
+  /**
+   * Optional remote MCP server URL (http(s) or ws(s)). Mutually exclusive with command/args.
+   */
   url?: string;
+  /** Transport for `url`; `auto` (default) picks one from the URL and the server's response */
+  transport?: RemoteTransportConfig;
+  /** Headers and credentials sent to an http(s) `url` */
+  auth?: ServeHttpAuthConfig;
+  /**
+   * Module exporting an MCP Server/McpServer or a factory for one, served in-process.
+   * Wins over url and command/args.
+   */
+  module?: string;
+  /**
+   * Several MCP servers to aggregate behind one identity. Each target's tools and prompts
+   * are exposed as `<name>.<tool>`, its resources as `<name>+<uri>`.
+   */
+  targets?: ServeTargetConfig[];
+  /** Per-client access rules for tools, resources, and prompts */
+  policy?: ServeAccessPolicyConfig;
+  /** Per-client and global rate limits and daily quotas */
+  rateLimit?: ServeRateLimitConfig;
+  /** Restart policy for a stdio MCP server or fan-out target that exits */
+  restart?: ServeRestartConfig;
+  /** JSON-lines log of every client request and its outcome */
+  auditLog?: ServeAuditLogConfig;
+  /** Serve Prometheus metrics at /metrics on this port (loopback) or `host:port` */
+  metricsPort?: number | string;
+  /** Serve /healthz and /status on this port (loopback) or `host:port` */
+  healthPort?: number | string;
+}
+
+/**
+ * One MCP server in a multi-target serve configuration.
+ */
+export interface ServeTargetConfig {
+  /** Namespace prefix (letters, digits, `-`, `_`) */
+  name: string;
+  /** MCP server command to execute */
+  command?: string;
+  /** MCP server command arguments */
+  args?: string[];
+  /** Environment variables for this target, merged over serve.env */
+  env?: Record<string, string>;
+  /** Remote MCP server URL (http(s) or ws(s)). Mutually exclusive with command/args. */
+  url?: string;
+  /** Transport for `url` (default `auto`) */
+  transport?: RemoteTransportConfig;
+  /** Headers and credentials sent to an http(s) `url` */
+  auth?: ServeHttpAuthConfig;
+}
+
+/**
+ * How a remote MCP server is reached: Streamable HTTP, legacy HTTP+SSE, WebSocket, or `auto`
+ * (WebSocket for ws(s) URLs, otherwise Streamable HTTP with a fallback to SSE).
+ */
+export type RemoteTransportConfig = 'auto' | 'streamable' | 'sse' | 'ws';
+
+/**
+ * Authentication for an HTTP MCP server. String values may reference environment variables
+ * as `${NAME}`; a missing variable is an error.
+ */
+export interface ServeHttpAuthConfig {
+  /** Extra headers sent with every request, e.g. `{ "X-Api-Key": "${INTERNAL_API_KEY}" }` */
+  headers?: Record<string, string>;
+  /** Sent as `Authorization: Bearer <token>` */
+  bearerToken?: string;
+  /** Fetch (and refresh) the bearer token with the OAuth 2.0 client-credentials grant */
+  oauth?: ServeOAuthClientCredentialsConfig;
+}
+
+export interface ServeOAuthClientCredentialsConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+  /** How the client authenticates to the token endpoint (default `basic`) */
+  clientAuthentication?: 'basic' | 'post';
+}
+
+/**
+ * Glob patterns (`*` and `?`) matched against tool names, resource URIs, and prompt names.
+ */
+export interface CapabilityPatterns {
+  tools?: string[];
+  resources?: string[];
+  prompts?: string[];
+}
+
+/**
+ * One access rule. It applies to clients listed by pubkey (hex or npub), by `@group`, or `*`.
+ */
+export interface ServeAccessRule {
+  clients: string[];
+  /** When a kind has allow patterns, only matching names of that kind are allowed */
+  allow?: CapabilityPatterns;
+  /** Matching names are always denied, even when another rule allows them */
+  deny?: CapabilityPatterns;
+}
+
+/**
+ * Access policy for the serve command, enforced by the gateway before forwarding requests.
+ */
+export interface ServeAccessPolicyConfig {
+  /** Named lists of client pubkeys, referenced from rules as `@name` */
+  groups?: Record<string, string[]>;
+  rules?: ServeAccessRule[];
+  /** Decision when no applicable rule has allow patterns for that kind (default: allow) */
+  default?: 'allow' | 'deny';
+}
+
+/**
+ * Token bucket: `burst` requests at once, refilled at `requestsPerMinute`.
+ */
+export interface TokenBucketConfig {
+  requestsPerMinute: number;
+  /** Bucket size (default: requestsPerMinute) */
+  burst?: number;
+}
+
+/**
+ * Rate limits for the serve command. Counters are persisted so restarts don't reset them.
+ */
+export interface ServeRateLimitConfig {
+  /** Limit applied to each client pubkey */
+  perClient?: TokenBucketConfig;
+  /** Limit shared by all clients */
+  global?: TokenBucketConfig;
+  /** Maximum tools/call requests per client pubkey per UTC day */
+  dailyQuota?: number;
+  /** Maximum tools/call requests across all clients per UTC day */
+  globalDailyQuota?: number;
+  /** Counter file (default: ~/.cvmi/rate-limits/<server pubkey>.json) */
+  stateFile?: string;
+}
+
+/**
+ * Restart policy for a supervised stdio MCP server. Delays double from
+ * `initialDelayMs` up to `maxDelayMs`; the count resets after a minute of uptime.
+ */
+export interface ServeRestartConfig {
+  /** Consecutive restarts before the gateway gives up and exits (default: 5, 0 = never restart) */
+  maxRestarts?: number;
+  /** Delay before the first restart in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound for the restart delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Audit log for the serve command: one JSON line per client request.
+ */
+export interface ServeAuditLogConfig {
+  /** Log file path */
+  path: string;
+  /** Rotate once the file would grow past this many bytes */
+  maxBytes?: number;
+  /** Rotate when the UTC day changes (default: true) */
+  daily?: boolean;
+  /** Rotated files to keep; older ones are deleted (default: 14) */
+  keep?: number;
+  /** Also log tool call arguments, with `redact` applied (default: false) */
+  includeArguments?: boolean;
+  /**
+   * Globs over argument keys (at any depth, case-insensitive) whose values are replaced
+   * with "[REDACTED]" (default: *password*, *secret*, *token*, *apikey*, *api_key*, authorization)
+   */
+  redact?: string[];
 }
 
 /**
@@ -52,6 +219,13 @@ export interface UseConfig {
   encryption?: EncryptionMode;
   /** Whether to use stateless transport mode */
   isStateless?: boolean;
+  /** Serve Prometheus metrics at /metrics on this port (loopback) or `host:port` */
+  metricsPort?: number | string;
+  /**
+   * Expose the server as a local Streamable HTTP endpoint at /mcp on this port or `host:port`
+   * (default host 127.0.0.1) instead of stdio
+   */
+  http?: number | string;
 }
 
 /**
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { spawn } from 'child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  deriveInstanceName,
+  detach,
+  listInstances,
+  stopInstance,
+  stripDaemonFlags,
+  targetLabel,
+} from './daemon.ts';
+
+describe('instance names', () => {
+  it('derives names from the MCP server command, URL or label', () => {
+    expect(
+      targetLabel(['npx', '-y', '@modelcontextprotocol/server-filesystem@1.2.0', '/tmp'])
+    ).toBe('server-filesystem');
+    expect(targetLabel(['python3', 'weather.py'])).toBe('weather');
+    expect(targetLabel(['https://mcp.example.com/mcp'])).toBe('mcp.example.com');
+    expect(deriveInstanceName('serve', 'My Weather Server!')).toBe('serve-my-weather-server');
+    expect(deriveInstanceName('use', undefined)).toBe('use');
+  });
+
+  it('strips daemon flags but keeps the MCP server arguments', () => {
+    expect(
+      stripDaemonFlags(['--detach', '--name', 'fs', '--public', '--', 'server', '--name', 'x'])
+    ).toEqual(['--public', '--', 'server', '--name', 'x']);
+  });
+});
+
+function writeRecord(runDir: string, name: string, pid: number, startedAt: string) {
+  return writeFile(
+    join(runDir, `${name}.json`),
+    JSON.stringify({ name, pid, command: 'serve', args: [], cwd: '/', startedAt })
+  );
+}
+
+describe('instances', () => {
+  let runDir: string | undefined;
+
+  afterEach(async () => {
+    if (runDir) await rm(runDir, { recursive: true, force: true });
+  });
+
+  it('refuses to record a private key given on the command line', async () => {
+    runDir = await mkdtemp(join(tmpdir(), 'cvmi-run-'));
+
+    await expect(
+      detach('serve', ['--detach', '--private-key', 'abc', '--', 'npx', 'server'], { runDir })
+    ).rejects.toThrow('Set CVMI_SERVE_PRIVATE_KEY instead');
+    await expect(detach('use', ['npub1server', '--private-key=abc'], { runDir })).rejects.toThrow(
+      'Set CVMI_USE_PRIVATE_KEY instead'
+    );
+    expect(await readdir(runDir)).toEqual([]);
+  });
+
+  it('refuses to detach use without an HTTP endpoint', async () => {
+    runDir = await mkdtemp(join(tmpdir(), 'cvmi-run-'));
+
+    await expect(detach('use', ['npub1server', '--detach'], { runDir })).rejects.toThrow(
+      'cvmi use --detach needs --http'
+    );
+    expect(await readdir(runDir)).toEqual([]);
+  });
+
+  it('lists running and exited instances and stops them', async () => {
+    runDir = await mkdtemp(join(tmpdir(), 'cvmi-run-'));
+    const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], {
+      stdio: 'ignore',
+      detached: true,
+    });
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    await writeRecord(runDir, 'serve-live', child.pid!, new Date().toISOString());
+    await writeRecord(runDir, 'serve-gone', 2 ** 22 + 1, new Date().toISOString());
+
+    try {
+      expect((await listInstances(runDir)).map(({ name, running }) => ({ name, running }))).toEqual(
+        [
+          { name: 'serve-gone', running: false },
+          { name: 'serve-live', running: true },
+        ]
+      );
+
+      expect(await stopInstance('serve-live', runDir)).toBe('stopped');
+      await exited;
+      expect(await stopInstance('serve-gone', runDir)).toBe('not-running');
+      expect(await readdir(runDir)).toEqual([]);
+      await expect(stopInstance('missing', runDir)).rejects.toThrow('No instance named');
+      await expect(stopInstance('../serve-live', runDir)).rejects.toThrow('Invalid instance name');
+    } finally {
+      child.kill('SIGKILL');
+    }
+  });
+
+  it('leaves a process alone that reuses the pid of a stale record', async () => {
+    runDir = await mkdtemp(join(tmpdir(), 'cvmi-run-'));
+    const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], {
+      stdio: 'ignore',
+      detached: true,
+    });
+    await writeRecord(runDir, 'serve-old', child.pid!, '2020-01-01T00:00:00.000Z');
+
+    try {
+      expect((await listInstances(runDir))[0]).toMatchObject({ running: false });
+      expect(await stopInstance('serve-old', runDir)).toBe('not-running');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(child.exitCode).toBeNull();
+      expect(child.signalCode).toBeNull();
+    } finally {
+      child.kill('SIGKILL');
+    }
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Background instances of `cvmi serve` / `cvmi use`: `--detach`, `cvmi ps`, `cvmi stop`
+ * and `cvmi logs`. Each instance has a pidfile, a JSON record and a log file under
+ * `~/.cvmi/run`.
+ */
+import { execFile, spawn } from 'child_process';
+import { open, mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { promisify } from 'util';
+import { getConfigPaths, loadConfig } from './config/index.ts';
+import type { ServeConfig } from './config/index.ts';
+import { BOLD, DIM, RESET } from './constants/ui.ts';
+import { waitForShutdownSignal } from './utils/process.ts';
+
+export type DaemonCommand = 'serve' | 'use';
+
+export interface InstanceRecord {
+  name: string;
+  pid: number;
+  command: DaemonCommand;
+  args: string[];
+  cwd: string;
+  startedAt: string;
+  logFile: string;
+}
+
+export interface InstanceInfo extends InstanceRecord {
+  running: boolean;
+}
+
+/** How long `cvmi stop` waits for a graceful shutdown before killing the process. */
+const STOP_TIMEOUT_MS = 10_000;
+/** A detached process that exits this quickly is reported as failed to start. */
+const STARTUP_CHECK_MS = 1000;
+/** How far a process's start time may be from the record's `startedAt` for it to be ours. */
+const START_TIME_TOLERANCE_MS = 5000;
+const DEFAULT_LOG_LINES = 100;
+const FOLLOW_INTERVAL_MS = 500;
+
+/** Programs that only launch the MCP server; the next token names it better. */
+const LAUNCHERS = new Set([
+  'npx',
+  'bunx',
+  'pnpx',
+  'uvx',
+  'node',
+  'bun',
+  'deno',
+  'python',
+  'python3',
+  'uv',
+  'pnpm',
+  'yarn',
+  'npm',
+  'run',
+  'dlx',
+  'exec',
+]);
+
+export function getRunDir(): string {
+  return join(getConfigPaths().globalDir, 'run');
+}
+
+/** Lowercase `value` and keep only `[a-z0-9-]`. */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+}
+
+/**
+ * A short label for an MCP server target: the host of a URL, otherwise the package or
+ * script name after any launchers (`npx -y @scope/server-x@1.2 /tmp` -> `server-x`).
+ */
+export function targetLabel(args: string[]): string | undefined {
+  const [first] = args;
+  if (first && /^(https?|wss?):\/\//i.test(first)) {
+    try {
+      return new URL(first).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const token = args.find((arg) => !arg.startsWith('-') && !LAUNCHERS.has(basename(arg)));
+  if (!token) return first ? basename(first) : undefined;
+  return basename(token)
+    .replace(/(.)@[^@]*$/, '$1')
+    .replace(/\.(m?[jt]s|py)$/, '');
+}
+
+/**
+ * Label for a gateway: its announced name, otherwise the MCP server from the command line
+ * (`target`) or from the config.
+ */
+export function serveLabel(serve: Partial<ServeConfig>, target: string[]): string | undefined {
+  return (
+    serve.serverInfo?.name ??
+    targetLabel(
+      target.length > 0
+        ? target
+        : serve.module
+          ? [serve.module]
+          : serve.url
+            ? [serve.url]
+            : serve.command
+              ? [serve.command, ...(serve.args ?? [])]
+              : []
+    )
+  );
+}
+
+/** `serve-<label>` / `use-<label>`, or just the command when there is no usable label. */
+export function deriveInstanceName(command: DaemonCommand, label: string | undefined): string {
+  const slug = label ? slugify(label) : '';
+  return slug ? `${command}-${slug}` : command;
+}
+
+/**
+ * Drop `--detach` and `--name <name>` so the background process runs the command itself.
+ * Arguments after `--` belong to the MCP server and are kept as they are.
+ */
+export function stripDaemonFlags(args: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--') {
+      result.push(...args.slice(i));
+      break;
+    }
+    if (arg === '--detach') continue;
+    if (arg === '--name') {
+      i++;
+      continue;
+    }
+    result.push(arg);
+  }
+  return result;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    // ESRCH, or EPERM for a process that belongs to someone else.
+    return false;
+  }
+}
+
+/** When a process started, from `ps`; undefined if that is not known. */
+async function getProcessStartTime(pid: number): Promise<number | undefined> {
+  try {
+    const { stdout } = await promisify(execFile)('ps', ['-o', 'lstart=', '-p', String(pid)], {
+      env: { ...process.env, LC_ALL: 'C' },
+    });
+    const time = Date.parse(stdout.trim());
+    return Number.isNaN(time) ? undefined : time;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the record's process is still running. Its pid may have been reused by an
+ * unrelated process since, so the start time has to match the record too.
+ */
+async function isRunning(record: InstanceRecord): Promise<boolean> {
+  if (!isAlive(record.pid)) return false;
+  if (process.platform === 'win32') return true;
+
+  const startTime = await getProcessStartTime(record.pid);
+  return (
+    startTime !== undefined &&
+    Math.abs(startTime - Date.parse(record.startedAt)) <= START_TIME_TOLERANCE_MS
+  );
+}
+
+/**
+ * Detached instances lead their own process group; signal the whole group, like Ctrl+C
+ * does in a terminal, so spawned MCP servers stop with the gateway.
+ */
+function signalInstance(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(process.platform === 'win32' ? pid : -pid, signal);
+  } catch {
+    // The group is already gone.
+  }
+}
+
+/** Reject names that `--detach` could not have produced, so they stay inside the run directory. */
+function checkInstanceName(name: string): void {
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+    throw new Error(`Invalid instance name "${name}". Run 'cvmi ps' to list instances.`);
+  }
+}
+
+function recordPath(runDir: string, name: string): string {
+  return join(runDir, `${name}.json`);
+}
+
+async function readInstance(runDir: string, name: string): Promise<InstanceInfo | undefined> {
+  try {
+    const record = JSON.parse(await readFile(recordPath(runDir, name), 'utf-8')) as InstanceRecord;
+    return { ...record, running: await isRunning(record) };
+  } catch {
+    return undefined;
+  }
+}
+
+async function removeInstance(runDir: string, name: string): Promise<void> {
+  await rm(recordPath(runDir, name), { force: true });
+  await rm(join(runDir, `${name}.pid`), { force: true });
+}
+
+/** Every known instance, running or not, sorted by name. */
+export async function listInstances(runDir = getRunDir()): Promise<InstanceInfo[]> {
+  const files = await readdir(runDir).catch(() => [] as string[]);
+  const instances = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readInstance(runDir, file.slice(0, -'.json'.length)))
+  );
+  return instances
+    .filter((instance): instance is InstanceInfo => instance !== undefined)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Pick the instance name for a detached command. An explicit name must not be in use;
+ * a derived one gets a numeric suffix so several gateways can run side by side.
+ */
+async function chooseName(
+  runDir: string,
+  command: DaemonCommand,
+  target: string[],
+  options: { name?: string; config?: string }
+): Promise<string> {
+  if (options.name) {
+    const name = slugify(options.name);
+    if (!name) throw new Error(`Invalid instance name "${options.name}"`);
+    const existing = await readInstance(runDir, name);
+    if (existing?.running) {
+      throw new Error(`Instance "${name}" is already running (pid ${existing.pid})`);
+    }
+    return name;
+  }
+
+  const config = await loadConfig({}, options.config);
+  let label: string | undefined;
+  if (command === 'serve') {
+    label = serveLabel(config.serve ?? {}, target);
+  } else {
+    const server = target[0] ?? config.use?.serverPubkey;
+    label = server?.replace(/^(npub1|nprofile1)/, '').slice(0, 8);
+  }
+
+  const base = deriveInstanceName(command, label);
+  for (let suffix = 1; ; suffix++) {
+    const name = suffix === 1 ? base : `${base}-${suffix}`;
+    if (!(await readInstance(runDir, name))?.running) return name;
+  }
+}
+
+export interface DetachOptions {
+  /** Explicit instance name (`--name`) */
+  name?: string;
+  /** `--config` path, read for serverInfo.name and the configured target */
+  config?: string;
+  /** MCP server command or URL (serve) or server pubkey (use) from the command line */
+  target?: string[];
+  runDir?: string;
+}
+
+/**
+ * Start `cvmi <command> <args>` in the background with its output appended to a log
+ * file, and record it so `cvmi ps`, `cvmi stop` and `cvmi logs` can find it.
+ */
+export async function detach(
+  command: DaemonCommand,
+  args: string[],
+  options: DetachOptions = {}
+): Promise<InstanceRecord> {
+  const childArgs = stripDaemonFlags(args);
+  // The arguments end up in the record, the log and `cvmi ps`, so keep keys out of them.
+  const separator = childArgs.indexOf('--');
+  const ownArgs = separator === -1 ? childArgs : childArgs.slice(0, separator);
+  if (ownArgs.some((arg) => arg === '--private-key' || arg.startsWith('--private-key='))) {
+    const envVar = command === 'serve' ? 'CVMI_SERVE_PRIVATE_KEY' : 'CVMI_USE_PRIVATE_KEY';
+    throw new Error(
+      `--private-key cannot be combined with --detach, as it would be shown by 'cvmi ps'. Set ${envVar} instead.`
+    );
+  }
+
+  // Nothing reads a detached gateway's stdin, so `use` needs an HTTP endpoint to be useful.
+  if (
+    command === 'use' &&
+    !ownArgs.some((arg) => arg === '--http' || arg.startsWith('--http=')) &&
+    (await loadConfig({}, options.config)).use?.http === undefined
+  ) {
+    throw new Error(
+      `cvmi use --detach needs --http (or use.http in the config): a detached gateway has no stdio host.`
+    );
+  }
+
+  const runDir = options.runDir ?? getRunDir();
+  await mkdir(runDir, { recursive: true, mode: 0o700 });
+  const name = await chooseName(runDir, command, options.target ?? [], options);
+  const logFile = join(runDir, `${name}.log`);
+
+  const log = await open(logFile, 'a', 0o600);
+  let pid: number | undefined;
+  let exited: Promise<number | null>;
+  try {
+    await log.write(
+      `\n--- ${new Date().toISOString()} cvmi ${[command, ...childArgs].join(' ')} ---\n`
+    );
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, process.argv[1]!, command, ...childArgs],
+      {
+        cwd: process.cwd(),
+        detached: true,
+        stdio: ['ignore', log.fd, log.fd],
+        env: { ...process.env, CVMI_INSTANCE: name },
+      }
+    );
+    exited = new Promise((resolve) => {
+      child.once('exit', (code) => resolve(code));
+      child.once('error', () => resolve(null));
+    });
+    pid = child.pid;
+    child.unref();
+  } finally {
+    await log.close();
+  }
+  if (pid === undefined) throw new Error(`Failed to start cvmi ${command}`);
+
+  const record: InstanceRecord = {
+    name,
+    pid,
+    command,
+    args: childArgs,
+    cwd: process.cwd(),
+    startedAt: new Date().toISOString(),
+    logFile,
+  };
+  await writeFile(join(runDir, `${name}.pid`), `${pid}\n`, { mode: 0o600 });
+  await writeFile(recordPath(runDir, name), `${JSON.stringify(record, null, 2)}\n`, {
+    mode: 0o600,
+  });
+
+  const exitCode = await Promise.race([
+    exited,
+    new Promise<'running'>((resolve) => setTimeout(() => resolve('running'), STARTUP_CHECK_MS)),
+  ]);
+  if (exitCode !== 'running') {
+    throw new Error(
+      `cvmi ${command} exited during startup (code ${exitCode ?? 'unknown'}). See ${logFile}`
+    );
+  }
+  return record;
+}
+
+/**
+ * Stop an instance with SIGTERM, or SIGKILL if it has not exited after a while, and
+ * forget it. The log file is kept.
+ */
+export async function stopInstance(
+  name: string,
+  runDir = getRunDir(),
+  timeoutMs = STOP_TIMEOUT_MS
+): Promise<'stopped' | 'killed' | 'not-running'> {
+  checkInstanceName(name);
+  const instance = await readInstance(runDir, name);
+  if (!instance) throw new Error(`No instance named "${name}". Run 'cvmi ps' to list them.`);
+
+  let result: 'stopped' | 'killed' | 'not-running' = 'not-running';
+  if (instance.running) {
+    signalInstance(instance.pid, 'SIGTERM');
+    const deadline = Date.now() + timeoutMs;
+    while (isAlive(instance.pid) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    if (isAlive(instance.pid)) {
+      signalInstance(instance.pid, 'SIGKILL');
+      result = 'killed';
+    } else {
+      result = 'stopped';
+    }
+  }
+  await removeInstance(runDir, name);
+  return result;
+}
+
+function formatUptime(since: string): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - Date.parse(since)) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h${Math.floor((seconds % 3600) / 60)}m`;
+  return `${Math.floor(seconds / 86400)}d${Math.floor((seconds % 86400) / 3600)}h`;
+}
+
+export async function runPs(args: string[]): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    showDaemonHelp();
+    return;
+  }
+  const instances = await listInstances();
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(instances, null, 2));
+    return;
+  }
+  if (instances.length === 0) {
+    console.log(`${DIM}No background instances. Start one with cvmi serve --detach.${RESET}`);
+    return;
+  }
+
+  const rows = instances.map((instance) => [
+    instance.name,
+    String(instance.pid),
+    instance.running ? 'running' : 'exited',
+    instance.running ? formatUptime(instance.startedAt) : '-',
+    `cvmi ${[instance.command, ...instance.args].join(' ')}`,
+  ]);
+  const header = ['NAME', 'PID', 'STATUS', 'UPTIME', 'COMMAND'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]!.length))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]!)))
+      .join('  ');
+
+  console.log(`${BOLD}${format(header)}${RESET}`);
+  for (const row of rows) console.log(format(row));
+}
+
+export async function runStop(args: string[]): Promise<void> {
+  const [name] = args;
+  if (!name || name === '--help' || name === '-h') {
+    showDaemonHelp();
+    if (!name) process.exitCode = 1;
+    return;
+  }
+  const result = await stopInstance(name);
+  if (result === 'not-running') console.log(`${name} was not running`);
+  else if (result === 'killed') console.log(`${name} did not shut down in time and was killed`);
+  else console.log(`Stopped ${name}`);
+}
+
+export async function runLogs(args: string[]): Promise<void> {
+  let name: string | undefined;
+  let follow = false;
+  let lines = DEFAULT_LOG_LINES;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--help' || arg === '-h') {
+      showDaemonHelp();
+      return;
+    } else if (arg === '-f' || arg === '--follow') {
+      follow = true;
+    } else if (arg === '-n' || arg === '--lines') {
+      const value = args[++i];
+      if (!value || !/^\d+$/.test(value)) throw new Error(`${arg} expects a number of lines`);
+      lines = Number(value);
+    } else if (!name && !arg.startsWith('-')) {
+      name = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!name) {
+    showDaemonHelp();
+    process.exitCode = 1;
+    return;
+  }
+
+  checkInstanceName(name);
+  const logFile = join(getRunDir(), `${name}.log`);
+  const content = await readFile(logFile, 'utf-8').catch(() => {
+    throw new Error(`No log for "${name}". Run 'cvmi ps' to list instances.`);
+  });
+  const tail = content.split('\n');
+  if (tail.at(-1) === '') tail.pop();
+  if (lines > 0) process.stdout.write(`${tail.slice(-lines).join('\n')}\n`);
+  if (!follow) return;
+
+  // Poll for appended output until Ctrl+C.
+  let offset = Buffer.byteLength(content);
+  const timer = setInterval(async () => {
+    const size = (await stat(logFile).catch(() => undefined))?.size ?? 0;
+    if (size < offset) offset = 0;
+    if (size === offset) return;
+    const file = await open(logFile, 'r');
+    try {
+      const { buffer, bytesRead } = await file.read(
+        Buffer.alloc(size - offset),
+        0,
+        size - offset,
+        offset
+      );
+      offset += bytesRead;
+      process.stdout.write(buffer.subarray(0, bytesRead));
+    } finally {
+      await file.close();
+    }
+  }, FOLLOW_INTERVAL_MS);
+  await waitForShutdownSignal();
+  clearInterval(timer);
+}
+
+export function showDaemonHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET}
+  cvmi serve --detach [--name <name>] [serve options] -- <mcp-server-command> [args...]
+  cvmi use --detach [--name <name>] <server-pubkey> [use options]
+  cvmi ps [--json]
+  cvmi stop <name>
+  cvmi logs <name> [-f] [-n <lines>]
+
+${BOLD}Description:${RESET}
+  Run gateways and proxies in the background. Each instance gets a name, derived from
+  serverInfo.name or the MCP server command (serve) or the server pubkey (use) unless
+  --name is given, and a pidfile, record and log file under ~/.cvmi/run.
+
+${BOLD}Commands:${RESET}
+  ps                      List background instances (--json for machine-readable output)
+  stop <name>             Send SIGTERM, wait up to 10s, then SIGKILL; forget the instance
+  logs <name>             Print the last lines of the instance log
+    -f, --follow            Keep printing new output until Ctrl+C
+    -n, --lines <n>         Number of lines to print (default: ${DEFAULT_LOG_LINES})
+
+${BOLD}Examples:${RESET}
+  ${DIM}$${RESET} cvmi serve --detach -- npx -y @modelcontextprotocol/server-filesystem /tmp
+  ${DIM}$${RESET} cvmi ps
+  ${DIM}$${RESET} cvmi logs serve-server-filesystem -f
+  ${DIM}$${RESET} cvmi stop serve-server-filesystem
+  `);
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EncryptionMode } from '@contextvm/sdk';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { inspect, parseInspectArgs, __test__ } from './inspect.ts';
+import {
+  resetCreateRemoteClientFactoryForTests,
+  setCreateRemoteClientFactoryForTests,
+} from './call.ts';
+import { stripAnsi } from './test-utils.ts';
+
+const SERVER_PUBKEY = '750682303c9f0ddad75941b49edc9d46e3ed306b9ee3335338a21a3e404c5fa3';
+
+async function captureConsoleOutputAsync(render: () => Promise<void>): Promise<string[]> {
+  const output: string[] = [];
+  const log = console.log;
+  console.log = (message?: unknown) => output.push(String(message ?? ''));
+
+  try {
+    await render();
+  } finally {
+    console.log = log;
+  }
+
+  return output.map((line) => stripAnsi(line));
+}
+
+function createMockRemote(capabilities: Record<string, unknown>) {
+  return {
+    client: {
+      getServerCapabilities: () => capabilities,
+      getServerVersion: () => ({ name: 'weather-server', version: '1.2.0' }),
+      getInstructions: () => undefined,
+      listTools: vi
+        .fn()
+        .mockResolvedValueOnce({
+          tools: [
+            {
+              name: 'get_current',
+              description: 'Current weather',
+              inputSchema: {
+                type: 'object',
+                properties: { city: { type: 'string' } },
+                required: ['city'],
+              },
+            },
+          ],
+          nextCursor: 'page-2',
+        })
+        .mockResolvedValueOnce({
+          tools: [{ name: 'get_forecast', inputSchema: { type: 'object' } }],
+        }),
+      listResources: vi.fn().mockResolvedValue({
+        resources: [{ uri: 'weather://stations', name: 'stations', mimeType: 'application/json' }],
+      }),
+      listResourceTemplates: vi.fn().mockResolvedValue({
+        resourceTemplates: [{ uriTemplate: 'weather://city/{name}', name: 'city' }],
+      }),
+      listPrompts: vi
+        .fn()
+        .mockRejectedValue(new McpError(ErrorCode.MethodNotFound, 'Method not found')),
+    },
+    protocolVersion: '2025-06-18',
+    metadata: { name: 'Weather', about: 'Forecasts over Nostr' },
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('parseInspectArgs', () => {
+  it('parses server, json flag, and connection options', () => {
+    const parsed = parseInspectArgs([
+      'weather',
+      '--json',
+      '--relays',
+      'wss://relay.example.com,wss://relay.two',
+      '--encryption-mode',
+      'disabled',
+      '--stateless',
+    ]);
+
+    expect(parsed.server).toBe('weather');
+    expect(parsed.json).toBe(true);
+    expect(parsed.relays).toEqual(['wss://relay.example.com', 'wss://relay.two']);
+    expect(parsed.encryption).toBe(EncryptionMode.DISABLED);
+    expect(parsed.isStateless).toBe(true);
+    expect(parsed.unknownFlags).toEqual([]);
+  });
+
+  it('tracks unknown flags and extra positional arguments', () => {
+    const parsed = parseInspectArgs(['weather', 'extra', '--wat']);
+
+    expect(parsed.unknownFlags).toEqual(['extra', '--wat']);
+  });
+});
+
+describe('inspect', () => {
+  it('formats advertised capabilities with enabled flags', () => {
+    expect(
+      __test__.formatCapabilities({
+        tools: { listChanged: true },
+        resources: { subscribe: true, listChanged: false },
+        logging: {},
+      })
+    ).toEqual(['tools (listChanged)', 'resources (subscribe)', 'logging']);
+  });
+
+  it('dumps paginated tools, resources, templates, and server details as JSON', async () => {
+    const remote = createMockRemote({ tools: {}, resources: {}, prompts: {} });
+    const factory = vi.fn().mockResolvedValue(remote);
+    setCreateRemoteClientFactoryForTests(factory as never);
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await inspect(SERVER_PUBKEY, { json: true, relays: ['wss://relay.example.com'] });
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    const inspection = JSON.parse(output.join('\n'));
+    expect(factory).toHaveBeenCalledWith(
+      expect.objectContaining({ server: SERVER_PUBKEY, isStateless: false }),
+      expect.anything()
+    );
+    expect(remote.client.listTools).toHaveBeenNthCalledWith(2, { cursor: 'page-2' });
+    expect(inspection.tools.map((tool: { name: string }) => tool.name)).toEqual([
+      'get_current',
+      'get_forecast',
+    ]);
+    expect(inspection.resources).toHaveLength(1);
+    expect(inspection.resourceTemplates[0].uriTemplate).toBe('weather://city/{name}');
+    expect(inspection.prompts).toEqual([]);
+    expect(inspection.protocolVersion).toBe('2025-06-18');
+    expect(inspection.serverInfo).toEqual({ name: 'weather-server', version: '1.2.0' });
+    expect(inspection.server.relays).toEqual(['wss://relay.example.com']);
+    expect(remote.close).toHaveBeenCalled();
+  });
+
+  it('skips list calls for capabilities the server does not advertise', async () => {
+    const remote = createMockRemote({ tools: {} });
+    setCreateRemoteClientFactoryForTests(vi.fn().mockResolvedValue(remote) as never);
+
+    const output = await captureConsoleOutputAsync(async () => {
+      await inspect(SERVER_PUBKEY, {});
+    });
+    resetCreateRemoteClientFactoryForTests();
+
+    expect(remote.client.listResources).not.toHaveBeenCalled();
+    expect(remote.client.listPrompts).not.toHaveBeenCalled();
+    expect(output).toContain('Tools (2)');
+    expect(output).toContain('  • get_current — Current weather');
+    expect(output).toContain('    - city: string');
+    expect(output).toContain('  Protocol: 2025-06-18');
+    expect(output).toContain('Resources (0)');
+  });
+
+  it('only treats a JSON-RPC method-not-found error as an empty list', async () => {
+    const remote = createMockRemote({ prompts: {} });
+    remote.client.listPrompts.mockRejectedValue(new Error('Relay said: method not found'));
+    setCreateRemoteClientFactoryForTests(vi.fn().mockResolvedValue(remote) as never);
+
+    try {
+      await expect(
+        captureConsoleOutputAsync(() => inspect(SERVER_PUBKEY, { json: true }))
+      ).rejects.toThrow('Relay said: method not found');
+    } finally {
+      resetCreateRemoteClientFactoryForTests();
+    }
+  });
+});
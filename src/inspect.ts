@@ -0,0 +1,387 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Implementation,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  ServerCapabilities,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { EncryptionMode } from '@contextvm/sdk';
+import { loadConfig, getUseConfig } from './config/index.ts';
+import { BOLD, DIM, RESET } from './constants/ui.ts';
+import {
+  assertKnownServerInput,
+  formatDisplayPubkey,
+  getDisplayRelays,
+  openRemoteClient,
+  resolveServerTarget,
+} from './call.ts';
+import type { RemoteClient, ResolvedServerTarget, ServerMetadata } from './call.ts';
+import { renderToolSchema } from './call/render-schema.ts';
+import {
+  listPrompts,
+  listResources,
+  listResourceTemplates,
+  listTools,
+  printEntry,
+} from './call/capability.ts';
+
+export interface InspectOptions {
+  config?: string;
+  privateKey?: string;
+  relays?: string[];
+  encryption?: EncryptionMode;
+  isStateless?: boolean;
+  json?: boolean;
+  debug?: boolean;
+  verbose?: boolean;
+}
+
+export interface ParseInspectResult {
+  server: string | undefined;
+  json: boolean;
+  debug: boolean;
+  verbose: boolean;
+  help: boolean;
+  privateKey: string | undefined;
+  relays: string[] | undefined;
+  encryption: EncryptionMode | undefined;
+  isStateless: boolean | undefined;
+  config: string | undefined;
+  unknownFlags: string[];
+}
+
+export interface ServerInspection {
+  server: {
+    input: string;
+    identity: string;
+    alias?: string;
+    relays: string[];
+  };
+  serverInfo?: Implementation;
+  metadata: ServerMetadata;
+  protocolVersion?: string;
+  instructions?: string;
+  capabilities: ServerCapabilities;
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+}
+
+export function parseInspectArgs(args: string[]): ParseInspectResult {
+  const result: ParseInspectResult = {
+    server: undefined,
+    json: false,
+    debug: false,
+    verbose: false,
+    help: false,
+    privateKey: undefined,
+    relays: undefined,
+    encryption: undefined,
+    isStateless: undefined,
+    config: undefined,
+    unknownFlags: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+
+    const consumeValue = (flagName: string): string | undefined => {
+      const nextIndex = ++i;
+      const value = args[nextIndex];
+      if (value === undefined || value.startsWith('--')) {
+        result.unknownFlags.push(`${flagName} (missing value)`);
+        if (value?.startsWith('--')) i--;
+        return undefined;
+      }
+      return value;
+    };
+
+    if (arg === '--json') {
+      result.json = true;
+    } else if (arg === '--debug') {
+      result.debug = true;
+      result.verbose = true;
+    } else if (arg === '--verbose') {
+      result.verbose = true;
+    } else if (arg === '--help' || arg === '-h') {
+      result.help = true;
+    } else if (arg === '--private-key') {
+      result.privateKey = consumeValue('--private-key');
+    } else if (arg === '--relays') {
+      const value = consumeValue('--relays');
+      result.relays = value ? value.split(',').map((relay) => relay.trim()) : undefined;
+    } else if (arg === '--encryption-mode') {
+      const value = consumeValue('--encryption-mode');
+      if (value === 'required') result.encryption = EncryptionMode.REQUIRED;
+      else if (value === 'disabled') result.encryption = EncryptionMode.DISABLED;
+      else if (value === 'optional') result.encryption = EncryptionMode.OPTIONAL;
+      else result.unknownFlags.push(`--encryption-mode${value ? ` (${value})` : ''}`);
+    } else if (arg === '--config') {
+      result.config = consumeValue('--config');
+    } else if (arg === '--stateless') {
+      result.isStateless = true;
+    } else if (arg === '--stateful') {
+      result.isStateless = false;
+    } else if (arg.startsWith('--')) {
+      result.unknownFlags.push(arg);
+    } else if (!result.server) {
+      result.server = arg;
+    } else {
+      result.unknownFlags.push(arg);
+    }
+  }
+
+  return result;
+}
+
+function isMethodNotFoundError(error: unknown): boolean {
+  return error instanceof McpError && error.code === ErrorCode.MethodNotFound;
+}
+
+async function listOrEmpty<T>(list: Promise<T[]>): Promise<T[]> {
+  try {
+    return await list;
+  } catch (error) {
+    // Stateless sessions advertise emulated capabilities, so a server may still
+    // reject a list method it does not implement.
+    if (!isMethodNotFoundError(error)) {
+      throw error;
+    }
+    return [];
+  }
+}
+
+/**
+ * Collect everything a server exposes over one session. List calls are only
+ * issued for capabilities the server advertised during initialization.
+ */
+async function collectInspection(
+  target: ResolvedServerTarget,
+  remote: RemoteClient
+): Promise<ServerInspection> {
+  const { client } = remote;
+  const capabilities = client.getServerCapabilities() ?? {};
+
+  const tools = capabilities.tools ? await listOrEmpty(listTools(client)) : [];
+  const resources = capabilities.resources ? await listOrEmpty(listResources(client)) : [];
+  const resourceTemplates = capabilities.resources
+    ? await listOrEmpty(listResourceTemplates(client))
+    : [];
+  const prompts = capabilities.prompts ? await listOrEmpty(listPrompts(client)) : [];
+
+  return {
+    server: {
+      input: target.input,
+      identity: target.server,
+      ...(target.aliasName ? { alias: target.aliasName } : {}),
+      relays: getDisplayRelays(target),
+    },
+    serverInfo: client.getServerVersion(),
+    metadata: remote.metadata,
+    protocolVersion: remote.protocolVersion,
+    instructions: client.getInstructions(),
+    capabilities,
+    tools,
+    resources,
+    resourceTemplates,
+    prompts,
+  };
+}
+
+function printSection(title: string, count?: number): void {
+  console.log(`${BOLD}${title}${RESET}${count !== undefined ? ` ${DIM}(${count})${RESET}` : ''}`);
+}
+
+function printSummaryRow(label: string, value: string): void {
+  console.log(`  ${DIM}${label}:${RESET} ${value}`);
+}
+
+function formatCapabilities(capabilities: ServerCapabilities): string[] {
+  return Object.entries(capabilities)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => {
+      const flags =
+        value && typeof value === 'object'
+          ? Object.entries(value as Record<string, unknown>)
+              .filter(([, enabled]) => enabled === true)
+              .map(([flag]) => flag)
+          : [];
+      return flags.length > 0 ? `${name} (${flags.join(', ')})` : name;
+    });
+}
+
+function formatPromptArguments(prompt: Prompt): string | undefined {
+  if (!prompt.arguments || prompt.arguments.length === 0) {
+    return undefined;
+  }
+
+  return prompt.arguments
+    .map((argument) => `${argument.name}${argument.required ? '' : '?'}`)
+    .join(' ');
+}
+
+function renderInspection(inspection: ServerInspection): void {
+  const { server, serverInfo, metadata } = inspection;
+
+  printSection('Server');
+  printSummaryRow('Name', server.alias ?? metadata.name ?? serverInfo?.name ?? 'unknown');
+  if (serverInfo) {
+    printSummaryRow('Server info', `${serverInfo.name} ${serverInfo.version}`);
+  }
+  if (metadata.about) {
+    printSummaryRow('About', metadata.about);
+  }
+  if (metadata.website) {
+    printSummaryRow('Website', metadata.website);
+  }
+  printSummaryRow('Identity', formatDisplayPubkey(server.identity));
+  printSummaryRow('Relays', server.relays.join(', '));
+  if (inspection.protocolVersion) {
+    printSummaryRow('Protocol', inspection.protocolVersion);
+  }
+  if (inspection.instructions) {
+    printSummaryRow('Instructions', inspection.instructions);
+  }
+  console.log();
+
+  const capabilities = formatCapabilities(inspection.capabilities);
+  printSection('Capabilities');
+  if (capabilities.length === 0) {
+    console.log(`  ${DIM}(none advertised)${RESET}`);
+  }
+  for (const capability of capabilities) {
+    printEntry(capability);
+  }
+  console.log();
+
+  printSection('Tools', inspection.tools.length);
+  if (inspection.tools.length === 0) {
+    console.log(`  ${DIM}(no tools exposed)${RESET}`);
+  }
+  for (const tool of inspection.tools) {
+    printEntry(tool.name, undefined, tool.description);
+    renderToolSchema(tool, 4);
+  }
+  console.log();
+
+  printSection('Resources', inspection.resources.length);
+  if (inspection.resources.length === 0) {
+    console.log(`  ${DIM}(no resources exposed)${RESET}`);
+  }
+  for (const resource of inspection.resources) {
+    printEntry(
+      resource.uri,
+      [resource.name, resource.mimeType ? `(${resource.mimeType})` : undefined]
+        .filter(Boolean)
+        .join(' '),
+      resource.description
+    );
+  }
+  console.log();
+
+  printSection('Resource templates', inspection.resourceTemplates.length);
+  if (inspection.resourceTemplates.length === 0) {
+    console.log(`  ${DIM}(no resource templates exposed)${RESET}`);
+  }
+  for (const template of inspection.resourceTemplates) {
+    printEntry(template.uriTemplate, template.name, template.description);
+  }
+  console.log();
+
+  printSection('Prompts', inspection.prompts.length);
+  if (inspection.prompts.length === 0) {
+    console.log(`  ${DIM}(no prompts exposed)${RESET}`);
+  }
+  for (const prompt of inspection.prompts) {
+    printEntry(prompt.name, formatPromptArguments(prompt), prompt.description);
+  }
+}
+
+export const __test__ = {
+  formatCapabilities,
+  renderInspection,
+};
+
+export async function inspect(
+  serverArg: string | undefined,
+  options: InspectOptions
+): Promise<void> {
+  const config = await loadConfig(
+    {
+      use: {
+        relays: options.relays,
+        encryption: options.encryption,
+      },
+    },
+    options.config
+  );
+  const useConfig = getUseConfig(config.use || {});
+
+  const serverInput = serverArg ?? useConfig.serverPubkey;
+  if (!serverInput) {
+    showInspectHelp();
+    process.exit(1);
+  }
+
+  assertKnownServerInput(config, serverInput);
+  // Inspection needs the real initialize handshake; stateless mode would only
+  // report emulated server info and capabilities.
+  const target = resolveServerTarget(config, serverInput, {
+    ...options,
+    isStateless: options.isStateless ?? false,
+  });
+  if (options.verbose) {
+    console.error(`Connecting to ${target.aliasName ?? target.server}...`);
+  }
+  const remote = await openRemoteClient(target, options);
+
+  try {
+    const inspection = await collectInspection(target, remote);
+
+    if (options.json) {
+      console.log(JSON.stringify(inspection, null, 2));
+      return;
+    }
+
+    renderInspection(inspection);
+  } finally {
+    await remote.close();
+  }
+}
+
+export function showInspectHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} cvmi inspect <server> [options]
+
+${BOLD}Description:${RESET}
+  Connect to a remote ContextVM server and print everything it exposes:
+  server info, protocol version, capabilities, tools (with input schemas),
+  resources, resource templates, and prompts.
+
+${BOLD}Arguments:${RESET}
+  <server>                Server identity (hex, npub, nprofile) or configured alias
+
+${BOLD}Options:${RESET}
+  --json                  Print the full inspection as JSON
+  --config <path>         Path to custom config JSON file
+  --private-key <key>     Your Nostr private key (hex/nsec format, overrides env, auto-generated if not provided)
+  --relays <urls>         Comma-separated relay URLs
+  --encryption-mode       Encryption mode: optional, required, disabled
+  --stateful              Run the full initialize handshake (default)
+  --stateless             Skip the handshake (server info and capabilities are emulated)
+  --verbose               Enable cvmi progress logging
+  --debug                 Enable SDK debug logging
+  --help, -h              Show this help message
+
+${BOLD}Private key:${RESET}
+  --private-key, then CVMI_CALL_PRIVATE_KEY, otherwise an ephemeral key is generated
+
+${BOLD}Examples:${RESET}
+  ${DIM}$${RESET} cvmi inspect weather
+  ${DIM}$${RESET} cvmi inspect npub1... --relays wss://relay.contextvm.org
+  ${DIM}$${RESET} cvmi inspect weather --json > weather.schema.json
+  `);
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { RelayHandler } from '@contextvm/sdk';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CvmiMetrics,
+  MeteredHostTransport,
+  MeteredRelayHandler,
+  MetricsRegistry,
+  startMetricsServer,
+} from './metrics.ts';
+
+function createRelayHandler() {
+  const subscribers: Array<(event: { kind: number }) => void> = [];
+  const handler = {
+    connect: async () => {},
+    disconnect: async () => {},
+    publish: async () => {},
+    subscribe: async (_filters: unknown, onEvent: (event: { kind: number }) => void) => {
+      subscribers.push(onEvent);
+      return () => {};
+    },
+    unsubscribe: () => {},
+    getRelayUrls: () => ['wss://a.example', 'wss://b.example'],
+  };
+  const deliver = (kind: number) => subscribers.forEach((onEvent) => onEvent({ kind }));
+  return { handler: handler as unknown as RelayHandler, deliver };
+}
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', 'Jobs').inc({ name: 'a "quoted"\nname' }, 2);
+    registry.gauge('temperature', 'Temperature', () => [{ value: 21.5 }]);
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    histogram.observe({ op: 'x' }, 0.05);
+    histogram.observe({ op: 'x' }, 0.5);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP jobs_total Jobs',
+        '# TYPE jobs_total counter',
+        'jobs_total{name="a \\"quoted\\"\\nname"} 2',
+        '# HELP temperature Temperature',
+        '# TYPE temperature gauge',
+        'temperature 21.5',
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{op="x",le="0.1"} 1',
+        'latency_seconds_bucket{op="x",le="1"} 2',
+        'latency_seconds_bucket{op="x",le="+Inf"} 2',
+        'latency_seconds_sum{op="x"} 0.55',
+        'latency_seconds_count{op="x"} 2',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('CvmiMetrics', () => {
+  it('tracks requests by method and tool, active clients and target restarts', () => {
+    const clock = { now: 0 };
+    const metrics = new CvmiMetrics('serve', () => clock.now);
+    const call = {
+      jsonrpc: '2.0' as const,
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'search' },
+    };
+
+    metrics.recordRequest({ jsonrpc: '2.0', id: 0, method: 'tools/list' }, 5, {
+      jsonrpc: '2.0',
+      id: 0,
+      result: { tools: [{ name: 'search', inputSchema: { type: 'object' } }] },
+    });
+    metrics.recordRequest(call, 20, { jsonrpc: '2.0', id: 1, result: { content: [] } });
+    metrics.recordRequest(call, 40, {
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32603, message: 'failed' },
+    });
+    metrics.clientSeen('a');
+    clock.now += 4 * 60 * 1000;
+    metrics.clientSeen('b');
+    clock.now += 2 * 60 * 1000;
+    metrics.targetRestarted('fs');
+    metrics.setTargetUp('fs', false);
+
+    const output = metrics.registry.render();
+    expect(output).toContain(
+      'cvmi_requests_total{method="tools/call",tool="search",status="ok"} 1'
+    );
+    expect(output).toContain(
+      'cvmi_requests_total{method="tools/call",tool="search",status="error"} 1'
+    );
+    expect(output).toContain(
+      'cvmi_request_duration_seconds_count{method="tools/call",tool="search"} 2'
+    );
+    expect(output).toContain('cvmi_active_clients 1');
+    expect(output).toContain('cvmi_target_restarts_total{target="fs"} 1');
+    expect(output).toContain('cvmi_target_up{target="fs"} 0');
+  });
+
+  it('counts methods and tools it does not know as unknown', () => {
+    const metrics = new CvmiMetrics('serve');
+    const ok = { jsonrpc: '2.0' as const, id: 1, result: {} };
+
+    metrics.recordRequest(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'made-up-1' } },
+      1,
+      ok
+    );
+    metrics.recordRequest({ jsonrpc: '2.0', id: 2, method: 'made/up' }, 1, ok);
+
+    const output = metrics.registry.render();
+    expect(output).toContain(
+      'cvmi_requests_total{method="tools/call",tool="unknown",status="ok"} 1'
+    );
+    expect(output).toContain('cvmi_requests_total{method="unknown",tool="",status="ok"} 1');
+    expect(output).not.toContain('made');
+  });
+
+  it('leaves gateway-only metrics out of use', () => {
+    const output = new CvmiMetrics('use').registry.render();
+
+    expect(output).toContain('cvmi_info{command="use"} 1');
+    expect(output).not.toContain('cvmi_active_clients');
+    expect(output).not.toContain('cvmi_target_restarts_total');
+  });
+});
+
+describe('MeteredRelayHandler', () => {
+  it('counts encrypted and plain events and reports relay connections', async () => {
+    const metrics = new CvmiMetrics('use');
+    const { handler: inner, deliver } = createRelayHandler();
+    const handler = new MeteredRelayHandler(inner, metrics);
+    metrics.watchRelays(() => [
+      { url: 'wss://a.example', connected: true },
+      { url: 'wss://b.example', connected: false },
+    ]);
+
+    await handler.subscribe([], () => {});
+    deliver(1059);
+    deliver(25910);
+    await handler.publish({ kind: 1059 } as Parameters<RelayHandler['publish']>[0]);
+
+    const output = metrics.registry.render();
+    expect(output).toContain('cvmi_relay_connected{relay="wss://a.example"} 1');
+    expect(output).toContain('cvmi_relay_connected{relay="wss://b.example"} 0');
+    expect(output).toContain('cvmi_nostr_events_total{direction="in",encrypted="true"} 1');
+    expect(output).toContain('cvmi_nostr_events_total{direction="in",encrypted="false"} 1');
+    expect(output).toContain('cvmi_nostr_events_total{direction="out",encrypted="true"} 1');
+  });
+});
+
+describe('MeteredHostTransport', () => {
+  it('times requests from the host until their response is sent', async () => {
+    const metrics = new CvmiMetrics('use');
+    const [host, proxySide] = InMemoryTransport.createLinkedPair();
+    const transport = new MeteredHostTransport(proxySide, metrics);
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+    await transport.start();
+
+    await host.send({ jsonrpc: '2.0', id: 7, method: 'tools/list' });
+    await transport.send({ jsonrpc: '2.0', id: 7, result: { tools: [] } });
+
+    expect(received).toHaveLength(1);
+    expect(metrics.registry.render()).toContain(
+      'cvmi_requests_total{method="tools/list",tool="",status="ok"} 1'
+    );
+  });
+});
+
+describe('startMetricsServer', () => {
+  it('serves /metrics and 404s everything else', async () => {
+    const server = await startMetricsServer(new CvmiMetrics('serve'), {
+      host: '127.0.0.1',
+      port: 0,
+    });
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const metrics = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(metrics.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await metrics.text()).toContain('cvmi_info{command="serve"} 1');
+      expect((await fetch(`http://127.0.0.1:${port}/`)).status).toBe(404);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Prometheus metrics for `cvmi serve` and `cvmi use`.
+ *
+ * A small registry renders the Prometheus text exposition format (which OpenMetrics
+ * scrapers also accept) and an HTTP endpoint serves it at `/metrics`.
+ */
+import type { Server } from 'http';
+import { EPHEMERAL_GIFT_WRAP_KIND, GIFT_WRAP_KIND } from '@contextvm/sdk';
+import type { RelayHandler } from '@contextvm/sdk';
+import type { NostrEvent, Filter } from 'nostr-tools';
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  JSONRPCErrorResponse,
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import { startHttpEndpoint } from './utils/listen.ts';
+import type { ListenAddress } from './utils/listen.ts';
+import type { RelayStatus } from './utils/relay-status.ts';
+import type { RequestGuard } from './serve/guard.ts';
+
+type Labels = Record<string, string>;
+
+/** Latency buckets in seconds, from fast local tools to slow remote calls. */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/** Clients count as active for this long after their last request. */
+const ACTIVE_CLIENT_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * MCP request methods used as the `method` label. Methods and tool names come from
+ * clients, so anything else is counted as `unknown` to keep the number of series bounded.
+ */
+const KNOWN_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+  'logging/setLevel',
+]);
+const UNKNOWN_LABEL = 'unknown';
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  /** `collect` computes the samples at scrape time instead of `set`. */
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect?: () => Array<{ labels?: Labels; value: number }>
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    const samples = this.collect
+      ? this.collect().map(({ labels = {}, value }) => ({ labels, value }))
+      : [...this.values.values()];
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...samples.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]! += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: ConstructorParameters<typeof Gauge>[2]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Render every metric in the Prometheus text format. */
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * The metrics cvmi records. `serve` and `use` share one set of names, so one
+ * dashboard covers gateways and proxies.
+ */
+export class CvmiMetrics {
+  readonly registry = new MetricsRegistry();
+  private readonly requests: Counter;
+  private readonly latency: Histogram;
+  private readonly events: Counter;
+  private readonly restarts?: Counter;
+  private readonly targetUp?: Gauge;
+  private readonly clients = new Map<string, number>();
+  /** Tool names the server listed; only these become `tool` label values. */
+  private readonly tools = new Set<string>();
+  private relayStatus: () => RelayStatus[] = () => [];
+
+  constructor(
+    command: 'serve' | 'use',
+    private readonly now: () => number = Date.now
+  ) {
+    this.registry.gauge('cvmi_info', 'cvmi process information', () => [
+      { labels: { command }, value: 1 },
+    ]);
+    this.requests = this.registry.counter(
+      'cvmi_requests_total',
+      'MCP requests handled, by method, tool and status'
+    );
+    this.latency = this.registry.histogram(
+      'cvmi_request_duration_seconds',
+      'MCP request latency in seconds, by method and tool'
+    );
+    this.registry.gauge(
+      'cvmi_relay_connected',
+      'Whether the relay connection is up (1) or down (0)',
+      () =>
+        this.relayStatus().map(({ url, connected }) => ({
+          labels: { relay: url },
+          value: connected ? 1 : 0,
+        }))
+    );
+    this.events = this.registry.counter(
+      'cvmi_nostr_events_total',
+      'Nostr events received and published, by direction and whether they were encrypted'
+    );
+    if (command === 'serve') {
+      this.registry.gauge(
+        'cvmi_active_clients',
+        'Client pubkeys with a request in the last 5 minutes',
+        () => [{ value: this.countActiveClients() }]
+      );
+      this.restarts = this.registry.counter(
+        'cvmi_target_restarts_total',
+        'Restarts of MCP server targets after they exited'
+      );
+      this.targetUp = this.registry.gauge(
+        'cvmi_target_up',
+        'Whether the MCP server target is running (1) or not (0)'
+      );
+    }
+  }
+
+  /** Record a finished request; `tool` is set for tools/call. */
+  recordRequest(
+    request: JSONRPCRequest,
+    durationMs: number,
+    response: JSONRPCResultResponse | JSONRPCErrorResponse
+  ): void {
+    this.learnTools(request, response);
+
+    let tool = '';
+    if (request.method === 'tools/call') {
+      const name = (request.params as { name?: unknown } | undefined)?.name;
+      tool = typeof name === 'string' && this.tools.has(name) ? name : UNKNOWN_LABEL;
+    }
+    const labels = {
+      method: KNOWN_METHODS.has(request.method) ? request.method : UNKNOWN_LABEL,
+      tool,
+    };
+    this.requests.inc({ ...labels, status: isJSONRPCResultResponse(response) ? 'ok' : 'error' });
+    this.latency.observe(labels, durationMs / 1000);
+  }
+
+  /** Remember the tool names in a tools/list result. */
+  learnTools(request: JSONRPCRequest, response: JSONRPCResultResponse | JSONRPCErrorResponse) {
+    if (request.method !== 'tools/list' || !isJSONRPCResultResponse(response)) return;
+
+    const tools = response.result.tools;
+    if (!Array.isArray(tools)) return;
+    for (const tool of tools) {
+      if (typeof tool?.name === 'string') this.tools.add(tool.name);
+    }
+  }
+
+  clientSeen(client: string): void {
+    this.clients.set(client, this.now());
+  }
+
+  recordEvent(direction: 'in' | 'out', event: Pick<NostrEvent, 'kind'>): void {
+    const encrypted = event.kind === GIFT_WRAP_KIND || event.kind === EPHEMERAL_GIFT_WRAP_KIND;
+    this.events.inc({ direction, encrypted: String(encrypted) });
+  }
+
+  targetRestarted(target: string): void {
+    this.restarts?.inc({ target });
+  }
+
+  setTargetUp(target: string, up: boolean): void {
+    this.targetUp?.set({ target }, up ? 1 : 0);
+  }
+
+  /** Where relay connection states come from at scrape time. */
+  watchRelays(status: () => RelayStatus[]): void {
+    this.relayStatus = status;
+  }
+
+  private countActiveClients(): number {
+    const cutoff = this.now() - ACTIVE_CLIENT_WINDOW_MS;
+    for (const [client, lastSeen] of this.clients) {
+      if (lastSeen < cutoff) this.clients.delete(client);
+    }
+    return this.clients.size;
+  }
+}
+
+/**
+ * Relay handler that counts events in and out (encrypted or not).
+ */
+export class MeteredRelayHandler implements RelayHandler {
+  constructor(
+    private readonly inner: RelayHandler,
+    private readonly metrics: CvmiMetrics
+  ) {}
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  disconnect(relayUrls?: string[]): Promise<void> {
+    return this.inner.disconnect(relayUrls);
+  }
+
+  async publish(event: NostrEvent, opts?: { abortSignal?: AbortSignal }): Promise<void> {
+    await this.inner.publish(event, opts);
+    this.metrics.recordEvent('out', event);
+  }
+
+  subscribe(
+    filters: Filter[],
+    onEvent: (event: NostrEvent) => void,
+    onEose?: () => void
+  ): Promise<() => void> {
+    return this.inner.subscribe(
+      filters,
+      (event) => {
+        this.metrics.recordEvent('in', event);
+        onEvent(event);
+      },
+      onEose
+    );
+  }
+
+  unsubscribe(): void {
+    this.inner.unsubscribe();
+  }
+
+  getRelayUrls(): string[] {
+    return this.inner.getRelayUrls();
+  }
+}
+
+/**
+ * Times requests that arrive on an MCP host transport (the proxy's stdio side) until
+ * their response is sent back.
+ */
+export class MeteredHostTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readonly pending = new Map<string, { request: JSONRPCRequest; startedAt: number }>();
+
+  constructor(
+    private readonly inner: Transport,
+    private readonly metrics: CvmiMetrics
+  ) {
+    inner.onmessage = (message) => {
+      if (isJSONRPCRequest(message)) {
+        this.pending.set(String(message.id), { request: message, startedAt: Date.now() });
+      }
+      this.onmessage?.(message);
+    };
+    inner.onerror = (error) => this.onerror?.(error);
+    inner.onclose = () => this.onclose?.();
+  }
+
+  start(): Promise<void> {
+    return this.inner.start();
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      const key = String(message.id);
+      const entry = this.pending.get(key);
+      if (entry) {
+        this.pending.delete(key);
+        this.metrics.recordRequest(entry.request, Date.now() - entry.startedAt, message);
+      }
+    }
+    await this.inner.send(message, options);
+  }
+}
+
+/**
+ * Record the gateway's client requests. Its own requests (announcements) are not
+ * counted, but their tool list is remembered.
+ */
+export function createMetricsGuard(metrics: CvmiMetrics): RequestGuard {
+  return {
+    onResponse({ request, response, client, durationMs }) {
+      if (!client) {
+        metrics.learnTools(request, response);
+        return;
+      }
+      metrics.clientSeen(client);
+      metrics.recordRequest(request, durationMs, response);
+    },
+  };
+}
+
+/**
+ * Serve `/metrics` on the given address. Resolves once the server is listening.
+ */
+export function startMetricsServer(metrics: CvmiMetrics, address: ListenAddress): Promise<Server> {
+  return startHttpEndpoint(address, {
+    '/metrics': () => ({
+      status: 200,
+      contentType: 'text/plain; version=0.0.4; charset=utf-8',
+      body: metrics.registry.render(),
+    }),
+  });
+}
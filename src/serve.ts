@@ -3,70 +3,143 @@
  */
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import type { Server } from 'http';
 import {
   getDefaultEnvironment,
   StdioClientTransport,
 } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { NostrMCPGateway, PrivateKeySigner, EncryptionMode } from '@contextvm/sdk';
-import { loadConfig, getServeConfig, DEFAULT_RELAYS } from './config/index.ts';
+import {
+  ApplesauceRelayPool,
+  NostrMCPGateway,
+  PrivateKeySigner,
+  EncryptionMode,
+} from '@contextvm/sdk';
+import type { NostrMCPGatewayOptions } from '@contextvm/sdk';
+import {
+  loadConfig,
+  loadConfigFromFile,
+  getConfigPaths,
+  getServeConfig,
+  DEFAULT_RELAYS,
+} from './config/index.ts';
 import { generatePrivateKey, normalizePrivateKey } from './utils/crypto.ts';
 import { waitForShutdownSignal } from './utils/process.ts';
 import { BOLD, DIM, RESET } from './constants/ui.ts';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { savePrivateKeyToEnv } from './config/loader.ts';
 import { normalizeCommandAndArgs, splitCommandString } from './utils/command.ts';
-
-function isHttpUrl(value: string): boolean {
-  try {
-    const url = new URL(value);
-    return url.protocol === 'http:' || url.protocol === 'https:';
-  } catch {
-    return false;
-  }
-}
+import { FanOutTransport, validateFanOutTargetNames } from './serve/fan-out.ts';
+import type { FanOutTarget } from './serve/fan-out.ts';
+import { AccessPolicy, createPolicyGuard } from './serve/policy.ts';
+import { RateLimiter, createRateLimitGuard } from './serve/rate-limit.ts';
+import { AuditLog, createAuditGuard } from './serve/audit-log.ts';
+import { GatewayGuard } from './serve/guard.ts';
+import { LineRingBuffer, SupervisedTransport } from './serve/supervisor.ts';
+import {
+  GatewayHealth,
+  HealthReportingTransport,
+  createHealthGuard,
+  startHealthServer,
+} from './serve/health.ts';
+import { connectModuleServer, loadModuleServer } from './serve/module.ts';
+import { createRemoteTransportFactory, isHttpUrl, isRemoteUrl } from './serve/remote.ts';
+import type { RemoteTransport } from './serve/remote.ts';
+import {
+  buildServeArgs,
+  findUncarriedSettings,
+  getDeploymentPorts,
+  renderDeployment,
+} from './serve/emit.ts';
+import type { EmitFormat } from './serve/emit.ts';
+import { deriveInstanceName, serveLabel } from './daemon.ts';
+import {
+  checkConfigFiles,
+  diffServeConfig,
+  restartGateway,
+  ReusableTransport,
+  watchConfigFiles,
+} from './serve/reload.ts';
+import {
+  CvmiMetrics,
+  MeteredRelayHandler,
+  createMetricsGuard,
+  startMetricsServer,
+} from './metrics.ts';
+import { formatListenAddress, parseListenAddress } from './utils/listen.ts';
+import { RelayConnectionTracker } from './utils/relay-status.ts';
+import type { RequestGuard } from './serve/guard.ts';
+import type { ServeConfig, ServeTargetConfig } from './config/index.ts';
 
 function createStdioMcpTransport(
   target: string,
   args: string[],
-  env?: Record<string, string>
+  env?: Record<string, string>,
+  stderrTail?: LineRingBuffer
 ): Transport {
-  return new StdioClientTransport({
+  const transport = new StdioClientTransport({
     command: target,
     args,
     env,
+    stderr: stderrTail ? 'pipe' : 'inherit',
   });
+
+  // Still show the server's stderr, but remember the last lines for crash reports.
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    process.stderr.write(chunk);
+    stderrTail?.push(chunk.toString());
+  });
+  return transport;
 }
 
-function createStreamableHttpMcpTransport(target: string): Transport {
-  const url = new URL(target);
-
-  // Streamable HTTP transport *optionally* supports GET (SSE stream) as a push channel.
-  // Some servers incorrectly hang or time out on GET instead of returning 405.
-  // The MCP SDK treats 405 as "no GET SSE" and proceeds in POST-only mode.
-  // We auto-fallback to POST-only if GET does not respond quickly.
-  return new StreamableHTTPClientTransport(url, {
-    fetch: async (input, init) => {
-      const method = (init?.method ?? 'GET').toUpperCase();
-      if (method !== 'GET') {
-        return fetch(input, init);
-      }
+/**
+ * Turn `serve.targets` entries into fan-out targets. Each factory builds a fresh
+ * transport so a crashed target can be restarted; command targets keep the tail of
+ * their stderr for crash reports.
+ */
+function createFanOutTargets(
+  targets: ServeTargetConfig[],
+  env?: Record<string, string>
+): Array<FanOutTarget & { stderrTail?: LineRingBuffer }> {
+  validateFanOutTargetNames(targets.map((target) => target.name));
 
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 3000);
-      try {
-        const response = await fetch(input, {
-          ...init,
-          signal: controller.signal,
-        });
-        return response;
-      } catch {
-        // Treat GET SSE failures/timeouts as "GET not supported".
-        return new Response(null, { status: 405, statusText: 'Method Not Allowed' });
-      } finally {
-        clearTimeout(timeout);
+  return targets.map((target) => {
+    if (target.url) {
+      if (target.command || target.args?.length) {
+        throw new Error(`Target "${target.name}" sets both url and command; use one of them.`);
       }
-    },
+      if (!isRemoteUrl(target.url)) {
+        throw new Error(
+          `Target "${target.name}" url must be an http(s) or ws(s) URL: ${target.url}`
+        );
+      }
+      const url = target.url;
+      return {
+        name: target.name,
+        createTransport: createRemoteTransportFactory(url, target.transport, target.auth),
+      };
+    }
+
+    if (!target.command) {
+      throw new Error(`Target "${target.name}" needs either a command or a url.`);
+    }
+    if (target.transport || target.auth) {
+      throw new Error(
+        `Target "${target.name}" sets ${target.transport ? 'a transport' : 'auth'}, which only applies to a url.`
+      );
+    }
+
+    const normalized = normalizeCommandAndArgs(target.command, target.args ?? []);
+    const targetEnv =
+      env || target.env ? { ...getDefaultEnvironment(), ...env, ...target.env } : undefined;
+    const stderrTail = new LineRingBuffer(STDERR_TAIL_LINES);
+    return {
+      name: target.name,
+      createTransport: () =>
+        createStdioMcpTransport(normalized.command, normalized.args, targetEnv, stderrTail),
+      stderrTail,
+    };
   });
 }
 
@@ -74,6 +147,7 @@ function createStreamableHttpMcpTransport(target: string): Transport {
 export const __test__ = {
   isHttpUrl,
   createStdioMcpTransport,
+  createFanOutTargets,
   splitCommandString,
   normalizeCommandAndArgs,
   getDefaultEnvironment,
@@ -89,8 +163,30 @@ export interface ServeOptions {
   verbose?: boolean;
   persistPrivateKey?: boolean;
   env?: Record<string, string>;
+  /** Overrides serve.restart.maxRestarts */
+  maxRestarts?: number;
+  /** Transport for a URL target (auto, streamable, sse, ws); overrides serve.transport */
+  transport?: RemoteTransport;
+  /** Module exporting an MCP server (or factory) to serve in-process; overrides serve.module */
+  module?: string;
+  /** Overrides serve.auditLog.path */
+  auditLog?: string;
+  /** Port or host:port for the Prometheus /metrics endpoint */
+  metricsPort?: string;
+  /** Port or host:port for the /healthz and /status endpoints */
+  healthPort?: string;
+  /** Print a deployment artifact for this configuration instead of starting the gateway */
+  emit?: EmitFormat;
+  /** cvmi's own version, reported as the version of a fan-out gateway */
+  version?: string;
 }
 
+/** Lines of MCP server stderr kept for crash reports. */
+const STDERR_TAIL_LINES = 20;
+
+/** Name of the single (non fan-out) MCP server in metrics and `/status`. */
+const DEFAULT_TARGET = 'default';
+
 /**
  * Run the serve command.
  */
@@ -103,6 +199,10 @@ export async function serve(serverArgs: string[], options: ServeOptions): Promis
     encryption: options.encryption,
     persistPrivateKey: options.persistPrivateKey,
     env: options.env,
+    metricsPort: options.metricsPort,
+    healthPort: options.healthPort,
+    module: options.module,
+    transport: options.transport,
   };
 
   // Load configuration from all sources (CLI flags have highest priority)
@@ -119,16 +219,60 @@ export async function serve(serverArgs: string[], options: ServeOptions): Promis
   // Resolve MCP target early (before generating keys)
   // Priority:
   // - CLI args (positional) override config entirely
-  // - otherwise config.url (remote Streamable HTTP) wins over config.command/config.args
+  // - otherwise a module (--module or config.module) is served in-process
+  // - otherwise config.targets (multi-target fan-out) wins over a single config target
+  // - otherwise config.url (remote HTTP or WebSocket) wins over config.command/config.args
+  const modulePath = serverArgs.length === 0 ? serveConfig.module : undefined;
+  const fanOutTargets =
+    serverArgs.length === 0 && !modulePath && serveConfig.targets?.length
+      ? serveConfig.targets
+      : undefined;
   const target =
     serverArgs.length > 0 ? serverArgs[0] : serveConfig.url ? serveConfig.url : serveConfig.command;
   const targetArgs = serverArgs.length > 0 ? serverArgs.slice(1) : (serveConfig.args ?? []);
 
-  if (!target) {
+  if (!target && !fanOutTargets && !modulePath) {
     showServeHelp();
     process.exit(1);
   }
 
+  if (options.emit) {
+    const configPaths = getConfigPaths(options.config);
+    const configFile = options.config
+      ? resolve(options.config)
+      : existsSync(configPaths.projectConfig)
+        ? configPaths.projectConfig
+        : undefined;
+    try {
+      const carried = configFile ? (await loadConfigFromFile(configFile)).serve : undefined;
+      const uncarried = findUncarriedSettings(serveConfig, carried);
+      if (uncarried.length > 0) {
+        throw new Error(
+          `The ${options.emit} artifact would run without ${uncarried.join(', ')}, as it only ` +
+            `reads ${configFile ?? 'flags'} and not other config files such as ${configPaths.globalConfig}. ` +
+            `Copy them into ${configFile ?? configPaths.projectConfig}, or pass --config with a file that has them.`
+        );
+      }
+      process.stdout.write(
+        renderDeployment(options.emit, {
+          name: deriveInstanceName('serve', serveLabel(serveConfig, serverArgs)),
+          serveArgs: buildServeArgs(serveConfig, serverArgs, {
+            maxRestarts: options.maxRestarts,
+            auditLog: options.auditLog,
+          }),
+          workingDirectory: process.cwd(),
+          configFile,
+          envKeys: carried?.env ? [] : Object.keys(serveConfig.env ?? {}),
+          ...getDeploymentPorts(serveConfig),
+        })
+      );
+    } catch (error) {
+      p.log.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    return;
+  }
+
   // Auto-generate private key if not provided
   let privateKey = serveConfig.privateKey;
   if (!privateKey) {
@@ -152,7 +296,9 @@ export async function serve(serverArgs: string[], options: ServeOptions): Promis
   }
 
   // Use default relays if none specified
-  const relays = serveConfig.relays?.length ? serveConfig.relays : DEFAULT_RELAYS;
+  const getRelays = (config: ServeConfig) =>
+    config.relays?.length ? config.relays : DEFAULT_RELAYS;
+  const relays = getRelays(serveConfig);
 
   // Create signer
   const signer = new PrivateKeySigner(privateKey);
@@ -163,71 +309,385 @@ export async function serve(serverArgs: string[], options: ServeOptions): Promis
   if (options.verbose) {
     p.log.message(`Relays: ${relays.join(', ')}`);
     p.log.message(`Public server: ${serveConfig.public ? 'yes' : 'no'}`);
-    p.log.message(`Starting MCP target: ${target} ${targetArgs.join(' ')}`);
+    if (modulePath) {
+      p.log.message(`Loading MCP server module: ${modulePath}`);
+    } else if (fanOutTargets) {
+      for (const entry of fanOutTargets) {
+        p.log.message(
+          `Starting MCP target ${entry.name}: ${entry.url ?? [entry.command, ...(entry.args ?? [])].join(' ')}`
+        );
+      }
+    } else {
+      p.log.message(`Starting MCP target: ${target} ${targetArgs.join(' ')}`);
+    }
   }
 
   const logLevel: 'debug' | 'info' = options.verbose ? 'debug' : 'info';
 
-  const nostrTransportOptions = {
-    signer,
-    relayHandler: relays,
-    encryptionMode: serveConfig.encryption,
-    isPublicServer: serveConfig.public,
-    allowedPublicKeys: serveConfig.allowedPubkeys,
-    serverInfo: serveConfig.serverInfo,
-    logLevel,
+  // Per-client guards (metrics, health, audit log, access policy, rate limits): the inbound middleware
+  // learns who sent each request, and every MCP transport is wrapped so the guards can act for
+  // that client.
+  const guards: RequestGuard[] = [];
+  let metrics: CvmiMetrics | undefined;
+  let metricsServer: Server | undefined;
+  if (serveConfig.metricsPort !== undefined) {
+    try {
+      const address = parseListenAddress(serveConfig.metricsPort);
+      metrics = new CvmiMetrics('serve');
+      metricsServer = await startMetricsServer(metrics, address);
+      p.log.info(`Metrics: ${formatListenAddress(address)}/metrics`);
+    } catch (error) {
+      p.log.error(
+        `Failed to start metrics endpoint: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+    guards.push(createMetricsGuard(metrics));
+  }
+  // Relay sockets are opened through a tracker when an endpoint reports their state.
+  const relayTracker =
+    metrics || serveConfig.healthPort !== undefined ? new RelayConnectionTracker() : undefined;
+  let currentRelays = relays;
+  const relayStatus = () => relayTracker?.getStatus(currentRelays) ?? [];
+  metrics?.watchRelays(relayStatus);
+  let health: GatewayHealth | undefined;
+  let healthServer: Server | undefined;
+  if (serveConfig.healthPort !== undefined) {
+    try {
+      const address = parseListenAddress(serveConfig.healthPort);
+      health = new GatewayHealth(publicKey, relayStatus);
+      healthServer = await startHealthServer(health, address);
+      p.log.info(`Health: ${formatListenAddress(address)}/healthz`);
+    } catch (error) {
+      p.log.error(
+        `Failed to start health endpoint: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+    guards.push(createHealthGuard(health));
+  }
+  const setTargetUp = (name: string, up: boolean) => {
+    metrics?.setTargetUp(name, up);
+    health?.setTargetUp(name, up);
+  };
+  // Remote and module targets have no supervisor, so their transports report whether
+  // the server still answers.
+  let targetUp = true;
+  const withHealth = (transport: Transport): Transport =>
+    new HealthReportingTransport(transport, (up, reason) => {
+      if (up === targetUp) return;
+      targetUp = up;
+      setTargetUp(DEFAULT_TARGET, up);
+      if (up) {
+        p.log.info('MCP server is reachable again');
+      } else {
+        health?.recordError(`MCP server unreachable: ${reason}`);
+        p.log.warn(`MCP server unreachable: ${reason}`);
+      }
+    });
+  const auditLogConfig = options.auditLog
+    ? { ...serveConfig.auditLog, path: options.auditLog }
+    : serveConfig.auditLog;
+  try {
+    if (auditLogConfig) {
+      let warned = false;
+      const auditLog = new AuditLog(auditLogConfig, {
+        onError: (error) => {
+          if (warned) return;
+          warned = true;
+          p.log.warn(`Failed to write audit log ${auditLogConfig.path}: ${error.message}`);
+        },
+      });
+      guards.push(createAuditGuard(auditLog));
+    }
+    // The policy runs before the rate limits so denied requests don't use up tokens or quota.
+    if (serveConfig.policy) {
+      guards.push(createPolicyGuard(new AccessPolicy(serveConfig.policy)));
+    }
+    if (serveConfig.rateLimit) {
+      const limiter = new RateLimiter(serveConfig.rateLimit, {
+        stateFile:
+          serveConfig.rateLimit.stateFile ??
+          join(getConfigPaths().globalDir, 'rate-limits', `${publicKey}.json`),
+      });
+      await limiter.load().catch((error: unknown) => {
+        p.log.warn(
+          `Starting with fresh rate limit counters: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+      guards.push(createRateLimitGuard(limiter));
+    }
+  } catch (error) {
+    p.log.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  const guard = guards.length > 0 ? new GatewayGuard(guards) : undefined;
+  const withGuard = (transport: Transport): Transport =>
+    guard ? guard.wrap(transport) : transport;
+
+  // Kept in a set that config reloads update in place
+  const allowedPubkeys = new Set(serveConfig.allowedPubkeys ?? []);
+  const createNostrTransportOptions = (config: ServeConfig) => {
+    const relayPool = new ApplesauceRelayPool(
+      getRelays(config),
+      relayTracker ? { relayOptions: { WebSocket: relayTracker.webSocket } } : undefined
+    );
+    return {
+      signer,
+      relayHandler: metrics ? new MeteredRelayHandler(relayPool, metrics) : relayPool,
+      encryptionMode: serveConfig.encryption,
+      isPublicServer: serveConfig.public,
+      isPubkeyAllowed: (pubkey: string) => allowedPubkeys.size === 0 || allowedPubkeys.has(pubkey),
+      serverInfo: config.serverInfo,
+      logLevel,
+      inboundMiddleware: guard?.inboundMiddleware,
+    };
+  };
+  // MCP transports the gateway holds on to; a reload restarts the gateway around them.
+  const reusable: ReusableTransport[] = [];
+  const keepOpen = (transport: Transport) => {
+    const wrapped = new ReusableTransport(transport);
+    reusable.push(wrapped);
+    return wrapped;
   };
 
   // Create gateway
-  // - stdio targets: single MCP transport shared for all Nostr clients
-  // - Streamable HTTP targets: per-client MCP transports (HTTP transport caches mcp-session-id)
-  let gateway: NostrMCPGateway;
+  // - stdio targets: single supervised MCP transport shared for all Nostr clients
+  // - remote targets (HTTP, SSE, WebSocket): per-client MCP transports (HTTP transport caches
+  //   mcp-session-id)
+  // - multiple targets: one shared fan-out transport that owns every target connection
+  // - module targets: the imported server, connected in-process through an in-memory pair
+  let mcpOptions: Omit<NostrMCPGatewayOptions, 'nostrTransportOptions'>;
+  let markFailed = () => {};
+  const failed = new Promise<void>((resolve) => (markFailed = resolve));
   try {
-    if (isHttpUrl(target)) {
+    if (modulePath) {
+      const mcpClientTransport = await connectModuleServer(await loadModuleServer(modulePath));
+      setTargetUp(DEFAULT_TARGET, true);
+      mcpOptions = { mcpClientTransport: keepOpen(withGuard(withHealth(mcpClientTransport))) };
+    } else if (fanOutTargets) {
+      for (const entry of fanOutTargets) setTargetUp(entry.name, true);
+      const targets = createFanOutTargets(fanOutTargets, serveConfig.env);
+      const restart = serveConfig.restart ?? {};
+      const failedTargets = new Set<string>();
+      const showStderrTail = (name: string) => {
+        const stderrTail = targets.find((entry) => entry.name === name)?.stderrTail;
+        const lines = stderrTail?.getLines() ?? [];
+        if (lines.length > 0) {
+          p.log.message(`${DIM}Last output of target ${name}:\n${lines.join('\n')}${RESET}`);
+        }
+        stderrTail?.clear();
+      };
+
+      const fanOut = new FanOutTransport({
+        targets,
+        serverInfo: {
+          name: serveConfig.serverInfo?.name ?? 'cvmi',
+          version: options.version ?? '0.0.0',
+        },
+        maxRestarts: options.maxRestarts ?? restart.maxRestarts,
+        initialDelayMs: restart.initialDelayMs,
+        maxDelayMs: restart.maxDelayMs,
+        onTargetStatus: (name, status, detail) => {
+          setTargetUp(name, status === 'ready');
+          if (status === 'restarting') metrics?.targetRestarted(name);
+
+          const suffix = detail ? `: ${detail}` : '';
+          if (status === 'exited' || status === 'failed') {
+            health?.recordError(`Target ${name} ${status}${suffix}`);
+          }
+          if (status === 'ready') {
+            if (options.verbose) p.log.message(`Target ${name} ready`);
+          } else if (status === 'restarting') {
+            p.log.info(`Restarting target ${name}${detail ? ` (${detail})` : ''}`);
+          } else if (status === 'exited') {
+            p.log.warn(`Target ${name} exited${suffix}`);
+            showStderrTail(name);
+          } else {
+            p.log.error(`Target ${name} failed${suffix}`);
+            // Keep serving the remaining targets; stop once none is left.
+            failedTargets.add(name);
+            if (failedTargets.size === targets.length) markFailed();
+          }
+        },
+      });
+      mcpOptions = { mcpClientTransport: keepOpen(withGuard(fanOut)) };
+    } else if (!target) {
+      throw new Error('No MCP target configured.');
+    } else if (isRemoteUrl(target)) {
       if (targetArgs.length > 0) {
         // In HTTP mode, extra args are ambiguous and almost certainly a user error.
         // Keep the error message consistent across the CLI.
         throw new Error(
-          `Streamable HTTP target does not accept extra args. ` +
+          `Remote MCP target does not accept extra args. ` +
             `Use: cvmi serve https://host/mcp (no additional server args).`
         );
       }
+      const createTransport = createRemoteTransportFactory(
+        target,
+        serveConfig.transport,
+        serveConfig.auth
+      );
 
       // NEW: Create a dedicated announcement transport for HTTP targets when public.
       const announcementTransport = serveConfig.public
-        ? createStreamableHttpMcpTransport(target)
+        ? keepOpen(withGuard(withHealth(createTransport())))
         : undefined;
 
-      gateway = new NostrMCPGateway({
-        // Per-client mode is required for HTTP transports because the transport maintains
+      setTargetUp(DEFAULT_TARGET, true);
+      mcpOptions = {
+        // Per-client mode is required for remote transports because the transport maintains
         // per-session state (e.g., mcp-session-id) and must be isolated per Nostr client.
         createMcpClientTransport: ({ clientPubkey: _clientPubkey }) =>
-          createStreamableHttpMcpTransport(target),
+          withGuard(withHealth(createTransport())),
         announcementMcpTransport: announcementTransport,
-        nostrTransportOptions,
-      });
+      };
+    } else if (serveConfig.transport) {
+      throw new Error(`--transport only applies to a URL target, not to ${target}.`);
     } else {
       const normalized = normalizeCommandAndArgs(target, targetArgs);
-      gateway = new NostrMCPGateway({
-        mcpClientTransport: createStdioMcpTransport(normalized.command, normalized.args, mcpEnv),
-        nostrTransportOptions,
+      const restart = serveConfig.restart ?? {};
+      const maxRestarts = options.maxRestarts ?? restart.maxRestarts ?? 5;
+      const stderrTail = new LineRingBuffer(STDERR_TAIL_LINES);
+      const showStderrTail = () => {
+        const lines = stderrTail.getLines();
+        if (lines.length > 0) {
+          p.log.message(`${DIM}Last MCP server output:\n${lines.join('\n')}${RESET}`);
+        }
+        stderrTail.clear();
+      };
+
+      const supervised = new SupervisedTransport({
+        createTransport: () =>
+          createStdioMcpTransport(normalized.command, normalized.args, mcpEnv, stderrTail),
+        maxRestarts,
+        initialDelayMs: restart.initialDelayMs,
+        maxDelayMs: restart.maxDelayMs,
+        announceHealth: serveConfig.public,
+        onHealthChange: (targetHealth, info) => {
+          setTargetUp(DEFAULT_TARGET, targetHealth === 'up');
+          if (targetHealth === 'restarting') metrics?.targetRestarted(DEFAULT_TARGET);
+
+          const reason = info.reason ? ` (${info.reason})` : '';
+          if (targetHealth !== 'up') health?.recordError(`MCP server stopped${reason}`);
+          if (targetHealth === 'restarting') {
+            p.log.warn(
+              `MCP server stopped${reason}; restarting in ${info.delayMs} ms (attempt ${info.restarts}/${maxRestarts})`
+            );
+            showStderrTail();
+          } else if (targetHealth === 'up') {
+            p.log.info('MCP server restarted');
+          } else {
+            p.log.error(
+              maxRestarts > 0
+                ? `MCP server stopped${reason}; giving up after ${info.restarts} restarts`
+                : `MCP server stopped${reason}`
+            );
+            showStderrTail();
+            markFailed();
+          }
+        },
       });
+      setTargetUp(DEFAULT_TARGET, true);
+      mcpOptions = { mcpClientTransport: keepOpen(withGuard(supervised)) };
     }
   } catch (error) {
     p.log.error(error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
 
+  const createGateway = (config: ServeConfig) =>
+    new NostrMCPGateway({
+      ...mcpOptions,
+      nostrTransportOptions: createNostrTransportOptions(config),
+    });
+
   // Start gateway
+  let gateway = createGateway(serveConfig);
   await gateway.start();
   p.outro(pc.green('Gateway started. Press Ctrl+C to stop.'));
 
-  // Keep running until asked to shut down.
-  const signal = await waitForShutdownSignal();
-  p.log.message(`\n${signal} received. Shutting down...`);
+  // Apply relay, allowlist and serverInfo changes from the config files (or on SIGHUP)
+  // without restarting cvmi, so the MCP server and the identity survive.
+  const configPaths = getConfigPaths(options.config);
+  const watchedPaths = [
+    configPaths.globalConfig,
+    configPaths.projectConfig,
+    configPaths.customConfigPath,
+  ].filter((path): path is string => path !== undefined);
+  let appliedConfig = serveConfig;
+  const reloadConfig = async (reason: string) => {
+    try {
+      await checkConfigFiles(watchedPaths);
+      const next = getServeConfig(
+        (await loadConfig({ serve: cliFlags }, options.config)).serve || {}
+      );
+      const changes = diffServeConfig(appliedConfig, next);
+      if (changes.live.length === 0 && changes.restart.length === 0) {
+        if (options.verbose) p.log.message(`Configuration unchanged (${reason})`);
+        return;
+      }
+      p.log.info(`Reloading configuration (${reason})`);
+
+      if (changes.live.includes('relays') || changes.live.includes('serverInfo')) {
+        // The Nostr side restarts with the new relays and server info and publishes them
+        // again; the MCP server keeps running.
+        const previous = appliedConfig;
+        const restarted = await restartGateway(
+          gateway,
+          () => createGateway(next),
+          () => createGateway(previous),
+          reusable
+        );
+        gateway = restarted.gateway;
+        if (restarted.error) throw restarted.error;
+        currentRelays = getRelays(next);
+        if (changes.live.includes('relays')) p.log.info(`Relays: ${currentRelays.join(', ')}`);
+        if (changes.live.includes('serverInfo')) {
+          p.log.info(
+            serveConfig.public ? 'Server info updated and republished' : 'Server info updated'
+          );
+        }
+      }
+      if (changes.live.includes('allowedPubkeys')) {
+        allowedPubkeys.clear();
+        for (const pubkey of next.allowedPubkeys ?? []) allowedPubkeys.add(pubkey);
+        p.log.info(
+          allowedPubkeys.size > 0
+            ? `Allowed public keys: ${allowedPubkeys.size}`
+            : 'Allowed public keys: any'
+        );
+      }
+      if (changes.restart.length > 0) {
+        p.log.warn(`Restart cvmi serve to apply changes to: ${changes.restart.join(', ')}`);
+      }
+      appliedConfig = next;
+    } catch (error) {
+      p.log.error(
+        `Failed to reload configuration: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+  let reloading = Promise.resolve();
+  const reload = (reason: string) => {
+    reloading = reloading.then(() => reloadConfig(reason));
+  };
+  const stopWatching = watchConfigFiles(watchedPaths, (path) => reload(`${path} changed`));
+  const onSighup = () => reload('SIGHUP');
+  process.on('SIGHUP', onSighup);
+
+  // Keep running until asked to shut down, or until the MCP server can't be kept up.
+  const signal = await Promise.race([waitForShutdownSignal(), failed]);
+  if (signal) p.log.message(`\n${signal} received. Shutting down...`);
+  stopWatching();
+  process.off('SIGHUP', onSighup);
+  await reloading;
   await gateway.stop();
+  await guard?.close();
+  metricsServer?.close();
+  healthServer?.close();
 
-  process.exit(0);
+  process.exit(signal ? 0 : 1);
 }
 
 export function showServeHelp(): void {
@@ -244,12 +704,42 @@ ${BOLD}Description:${RESET}
 ${BOLD}Arguments:${RESET}
   <mcp-server-command>    The MCP server command to run (e.g., "npx -y @modelcontextprotocol/server-filesystem /tmp")
                             Can also be specified in config file under serve.command
-  <mcp-server-url>        If the first argument is an http(s) URL, cvmi will treat it as a Streamable HTTP MCP server
-                            and connect via HTTP instead of spawning a local process.
+  <mcp-server-url>        If the first argument is an http(s) or ws(s) URL, cvmi will treat it as a remote MCP server
+                            and connect via HTTP or WebSocket instead of spawning a local process.
 
 ${BOLD}Config keys:${RESET}
-  serve.url                Optional remote MCP server URL (Streamable HTTP). If set, it is used when no CLI target
+  serve.url                Optional remote MCP server URL (http(s) or ws(s)). If set, it is used when no CLI target
                              is provided. (Mutually exclusive with serve.command/serve.args.)
+  serve.transport          Optional transport for a URL target: auto (default), streamable, sse or ws.
+  serve.auth               Optional credentials for an http(s) URL target: { headers, bearerToken, oauth: { tokenUrl,
+                             clientId, clientSecret, scope, audience, clientAuthentication } }. Values may use
+                             \${ENV_VAR}. OAuth client-credentials tokens are cached and refreshed.
+  serve.module             Optional module served in-process (same as --module). Used when no CLI target is
+                             provided; wins over serve.targets, serve.url and serve.command.
+  serve.targets            Optional list of MCP servers ({ name, command, args, env } or { name, url, transport, auth }) exposed
+                             together under one identity. Tools and prompts become <name>.<tool>, resources
+                             <name>+<uri>. Each target is restarted if it exits.
+  serve.policy             Optional per-client access rules: { groups, rules: [{ clients, allow, deny }], default }.
+                             Patterns are globs over tool names, resource URIs, and prompt names. Denied calls
+                             get a JSON-RPC error and list responses only show what the caller may use.
+  serve.rateLimit          Optional limits: { perClient, global: { requestsPerMinute, burst }, dailyQuota,
+                             globalDailyQuota, stateFile }. Quotas count tools/call per UTC day. Limited requests
+                             get error -32029 with retryAfterMs; counters survive restarts.
+  serve.restart            Optional restart policy for a stdio MCP server or target that exits: { maxRestarts
+                             (default 5), initialDelayMs (default 1000), maxDelayMs (default 30000) }. Delays
+                             double per attempt; the count resets after a minute of uptime. Public announcements
+                             carry _meta["cvmi/health"] while the server is down.
+  serve.auditLog           Optional request log: { path, maxBytes, daily (default true), keep (default 14),
+                             includeArguments, redact }. One JSON line per client request with client pubkey,
+                             method, tool, argument size, duration and error code.
+  serve.metricsPort        Optional port or host:port for a Prometheus /metrics endpoint.
+  serve.healthPort         Optional port or host:port for the /healthz and /status endpoints.
+
+${BOLD}Live reload:${RESET}
+  While running, cvmi serve watches the config files (and reloads on SIGHUP). Changes to relays,
+  allowedPubkeys and serverInfo apply without a restart. Relay and serverInfo changes reconnect
+  the gateway to the relays and republish its announcements; the MCP server keeps running.
+  Other changes are reported and need a restart.
 
 ${BOLD}Recommended parsing convention:${RESET}
   Use ${BOLD}--${RESET} to separate cvmi flags from the server command.
@@ -262,9 +752,24 @@ ${BOLD}Options:${RESET}
   --private-key <key>     Nostr private key (hex/nsec format, auto-generated if not provided)
   --persist-private-key   Save private key to .env file for future use
   --env, -e <k=v>         Pass environment variable to the spawned MCP server (repeatable)
+  --transport <kind>      Transport for a URL target: auto (default), streamable, sse (legacy HTTP+SSE) or ws.
+                            auto uses ws for ws(s) URLs and sse for URLs ending in /sse; otherwise it tries
+                            Streamable HTTP and falls back to SSE if the server answers 400, 404 or 405.
+  --module <path>         Serve an MCP server in-process from a module exporting createServer(), a default
+                            export or "server" (an MCP Server/McpServer or a factory) instead of a command
   --relays <urls>         Comma-separated relay URLs (default: wss://relay.contextvm.org,wss://cvm.otherstuff.ai)
   --public                Make server publicly accessible (default: private)
   --encryption-mode       Encryption mode: optional, required, disabled (default: optional)
+  --max-restarts <n>      Restart a crashed stdio MCP server up to n times in a row, then exit (default: 5)
+  --audit-log <path>      Append one JSON line per client request to <path> (rotated daily)
+  --metrics-port <port>   Serve Prometheus metrics at http://<host:port>/metrics (port or host:port;
+                            default host 127.0.0.1, use 0.0.0.0:<port> to expose it)
+  --health-port <port>    Serve /healthz (200 when the target is up and a relay is connected) and /status
+                            (JSON) on http://<host:port> (port or host:port; default host 127.0.0.1)
+  --detach                Run in the background; manage it with cvmi ps, cvmi logs, cvmi stop
+  --emit <format>         Print a systemd unit, Dockerfile or compose service (systemd, docker, compose)
+                            for this configuration and exit. The private key is read from an env file.
+  --name <name>           Instance name for --detach (default: derived from serverInfo.name or the command)
   --verbose               Enable verbose logging
   --help, -h              Show this help message
 
@@ -301,7 +806,10 @@ ${BOLD}SDK Logging (set via environment, not config files):${RESET}
 ${BOLD}Examples:${RESET}
   ${DIM}$${RESET} cvmi serve -- npx -y @modelcontextprotocol/server-filesystem /tmp ${DIM}# start gateway${RESET}
   ${DIM}$${RESET} cvmi serve --verbose -- npx -y @modelcontextprotocol/server-filesystem /tmp --help ${DIM}# pass server flags safely${RESET}
+  ${DIM}$${RESET} cvmi serve --module ./server.ts ${DIM}# serve an MCP server module in-process (no child process)${RESET}
   ${DIM}$${RESET} cvmi serve https://mcp.server.com ${DIM}# expose a remote Streamable HTTP MCP server over Nostr${RESET}
+  ${DIM}$${RESET} cvmi serve --transport sse https://mcp.server.com/events ${DIM}# legacy HTTP+SSE server${RESET}
+  ${DIM}$${RESET} cvmi serve wss://mcp.server.com/ws ${DIM}# WebSocket MCP server${RESET}
   ${DIM}$${RESET} cvmi serve npx -y @modelcontextprotocol/server-prompt-generator --public ${DIM}# public server${RESET}
   ${DIM}$${RESET} cvmi serve python /path/to/server.py --relays wss://my-relay.com ${DIM}# custom relay${RESET}
   ${DIM}$${RESET} cvmi serve --help ${DIM}# show this help${RESET}
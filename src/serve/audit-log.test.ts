@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog, REDACTED, createAuditGuard, redactArguments } from './audit-log.ts';
+import { GatewayGuard } from './guard.ts';
+import type { RequestGuard } from './guard.ts';
+
+const ALICE = 'a'.repeat(64);
+const NOON = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+async function readLines(path: string) {
+  return (await readFile(path, 'utf-8'))
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+}
+
+describe('redactArguments', () => {
+  it('replaces matching keys at any depth, case-insensitively', () => {
+    const patterns = [/^.*token.*$/is, /^password$/is];
+
+    expect(
+      redactArguments(
+        { query: 'x', AuthToken: 'abc', nested: [{ Password: 'p', keep: 1 }] },
+        patterns
+      )
+    ).toEqual({ query: 'x', AuthToken: REDACTED, nested: [{ Password: REDACTED, keep: 1 }] });
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cvmi-audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('logs tool calls, results and rejections from other guards', async () => {
+    const path = join(dir, 'audit.log');
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    server.registerTool(
+      'search',
+      { inputSchema: { query: z.string(), apiKey: z.string() } },
+      async () => ({
+        content: [{ type: 'text', text: 'found' }],
+      })
+    );
+    await server.connect(serverSide);
+
+    const deny: RequestGuard = {
+      checkRequest: (request) =>
+        request.method === 'prompts/get' ? { code: -32600, message: 'Access denied' } : undefined,
+    };
+    const auditLog = new AuditLog({ path, includeArguments: true }, { now: () => NOON });
+    const guard = new GatewayGuard([createAuditGuard(auditLog), deny]);
+    const transport = guard.wrap(clientSide);
+    const responses: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => responses.push(message);
+    await transport.start();
+
+    const send = (id: string, method: string, params?: Record<string, unknown>) =>
+      guard.inboundMiddleware(
+        { jsonrpc: '2.0', id, method, params },
+        { clientPubkey: ALICE },
+        (message) => transport.send(message)
+      );
+
+    await send('event-1', 'tools/call', {
+      name: 'search',
+      arguments: { query: 'cats', apiKey: 'secret' },
+    });
+    await send('event-2', 'prompts/get', { name: 'internal' });
+    // The gateway's own requests are not logged.
+    await transport.send({ jsonrpc: '2.0', id: 'announcement', method: 'tools/list' });
+    await vi.waitFor(() => expect(responses).toHaveLength(3));
+    await auditLog.close();
+
+    // Lines are written in response order; the denied request is answered first.
+    const lines = await readLines(path);
+    expect(lines.map((line) => line.id)).toEqual(['event-2', 'event-1']);
+    const [denied, call] = lines;
+    expect(call).toMatchObject({
+      ts: '2026-10-19T12:00:00.000Z',
+      client: ALICE,
+      id: 'event-1',
+      method: 'tools/call',
+      tool: 'search',
+      argsBytes: JSON.stringify({ query: 'cats', apiKey: 'secret' }).length,
+      arguments: { query: 'cats', apiKey: REDACTED },
+      ok: true,
+    });
+    expect(call.durationMs).toBeGreaterThanOrEqual(0);
+    expect(denied).toMatchObject({
+      method: 'prompts/get',
+      prompt: 'internal',
+      ok: false,
+      errorCode: -32600,
+      error: 'Access denied',
+    });
+  });
+
+  it('rotates by size and by UTC day, keeping the newest files', async () => {
+    const path = join(dir, 'audit.log');
+    const clock = { now: NOON };
+    const auditLog = new AuditLog({ path, maxBytes: 200, keep: 2 }, { now: () => clock.now });
+    const entry = {
+      ts: '',
+      client: ALICE,
+      id: 1,
+      method: 'tools/list',
+      durationMs: 1,
+      ok: true,
+    };
+
+    auditLog.write(entry);
+    auditLog.write(entry);
+    clock.now += 1000;
+    auditLog.write(entry);
+    clock.now += 24 * 60 * 60 * 1000;
+    auditLog.write(entry);
+    clock.now += 1000;
+    auditLog.write(entry);
+    auditLog.write(entry);
+    await auditLog.close();
+
+    const files = (await readdir(dir)).sort();
+    expect(files).toEqual(['audit.log', 'audit.log.2026-10-20.1', 'audit.log.2026-10-20.2']);
+    expect(await readLines(path)).toHaveLength(1);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => new AuditLog({ path: 'a.log', maxBytes: 0 })).toThrow(
+      'serve.auditLog.maxBytes must be a positive number'
+    );
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Audit log for `cvmi serve`: one JSON line per client request, recording who called
+ * what, how long it took and how it ended. Files rotate by size and by UTC day.
+ */
+import { appendFile, mkdir, readdir, rename, stat, unlink } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { isJSONRPCErrorResponse } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ServeAuditLogConfig } from '../config/index.ts';
+import type { GuardedExchange, RequestGuard } from './guard.ts';
+import { globToRegExp } from './policy.ts';
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACT = [
+  '*password*',
+  '*secret*',
+  '*token*',
+  '*apikey*',
+  '*api_key*',
+  'authorization',
+];
+const DEFAULT_KEEP = 14;
+
+export interface AuditEntry {
+  ts: string;
+  client: string;
+  id: string | number;
+  method: string;
+  tool?: string;
+  resource?: string;
+  prompt?: string;
+  /** Size of the JSON-encoded tool arguments in bytes */
+  argsBytes?: number;
+  arguments?: unknown;
+  durationMs: number;
+  ok: boolean;
+  /** JSON-RPC error code, when the request failed */
+  errorCode?: number;
+  error?: string;
+  /** The tool ran but reported an error result */
+  toolError?: boolean;
+}
+
+export interface AuditLogOptions {
+  /** Clock, for tests. */
+  now?: () => number;
+  /** Called when a line can't be written; the entry is dropped. */
+  onError?: (error: Error) => void;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Replace the values of matching keys, at any depth, with {@link REDACTED}.
+ */
+export function redactArguments(value: unknown, patterns: RegExp[]): unknown {
+  if (Array.isArray(value)) return value.map((item) => redactArguments(item, patterns));
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [
+      key,
+      patterns.some((pattern) => pattern.test(key)) ? REDACTED : redactArguments(nested, patterns),
+    ])
+  );
+}
+
+export class AuditLog {
+  private readonly now: () => number;
+  private readonly redact: RegExp[];
+  private writing: Promise<void> = Promise.resolve();
+  /** Size and UTC day of the current file, once known */
+  private current?: { size: number; day: string };
+
+  constructor(
+    private readonly config: ServeAuditLogConfig,
+    private readonly options: AuditLogOptions = {}
+  ) {
+    if (!config.path) {
+      throw new Error('serve.auditLog.path is required');
+    }
+    if (config.maxBytes !== undefined && !(config.maxBytes > 0)) {
+      throw new Error('serve.auditLog.maxBytes must be a positive number');
+    }
+    if (config.keep !== undefined && !(Number.isInteger(config.keep) && config.keep >= 0)) {
+      throw new Error('serve.auditLog.keep must be a non-negative integer');
+    }
+
+    this.now = options.now ?? Date.now;
+    this.redact = (config.redact ?? DEFAULT_REDACT).map(
+      (pattern) => new RegExp(globToRegExp(pattern).source, 'is')
+    );
+  }
+
+  /** Build the log entry for a finished request. */
+  createEntry(exchange: GuardedExchange & { client: string }): AuditEntry {
+    const { request, response, client, durationMs } = exchange;
+    const entry: AuditEntry = {
+      ts: new Date(this.now()).toISOString(),
+      client,
+      id: request.id,
+      method: request.method,
+      ...this.describeTarget(request),
+      durationMs,
+      ok: !isJSONRPCErrorResponse(response),
+    };
+
+    if (isJSONRPCErrorResponse(response)) {
+      entry.errorCode = response.error.code;
+      entry.error = response.error.message;
+    } else if (response.result.isError === true) {
+      entry.toolError = true;
+    }
+    return entry;
+  }
+
+  /** The tool, resource or prompt a request is about. */
+  private describeTarget(request: JSONRPCRequest): Partial<AuditEntry> {
+    const params = (request.params ?? {}) as Record<string, unknown>;
+
+    if (request.method === 'tools/call') {
+      const args = params.arguments ?? {};
+      return {
+        tool: String(params.name),
+        argsBytes: Buffer.byteLength(JSON.stringify(args)),
+        ...(this.config.includeArguments ? { arguments: redactArguments(args, this.redact) } : {}),
+      };
+    }
+    if (request.method.startsWith('resources/') && typeof params.uri === 'string') {
+      return { resource: params.uri };
+    }
+    if (request.method === 'prompts/get') {
+      return { prompt: String(params.name) };
+    }
+    return {};
+  }
+
+  /** Queue an entry; lines are written in order. */
+  write(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const now = this.now();
+    this.writing = this.writing
+      .then(() => this.append(line, now))
+      .catch((error: unknown) => {
+        this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  /** Wait for queued lines to be written. */
+  async close(): Promise<void> {
+    await this.writing;
+  }
+
+  private async append(line: string, now: number): Promise<void> {
+    const path = this.config.path;
+    const today = utcDay(now);
+
+    if (!this.current) {
+      await mkdir(dirname(path), { recursive: true });
+      try {
+        const info = await stat(path);
+        this.current = { size: info.size, day: utcDay(info.mtimeMs) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.current = { size: 0, day: today };
+      }
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.current.size > 0) {
+      const dayChanged = (this.config.daily ?? true) && this.current.day !== today;
+      const full =
+        this.config.maxBytes !== undefined && this.current.size + bytes > this.config.maxBytes;
+      if (dayChanged || full) await this.rotate(this.current.day);
+    }
+
+    await appendFile(path, line, 'utf-8');
+    this.current = { size: this.current.size + bytes, day: today };
+  }
+
+  /** Move the current file to `<path>.<day>.<n>`, `day` being the UTC day of its lines. */
+  private async rotate(day: string): Promise<void> {
+    const path = this.config.path;
+    let n = 1;
+    while (await exists(`${path}.${day}.${n}`)) n++;
+    await rename(path, `${path}.${day}.${n}`);
+    this.current = { size: 0, day };
+    await this.prune();
+  }
+
+  /** Delete the oldest rotated files beyond `keep`. */
+  private async prune(): Promise<void> {
+    const keep = this.config.keep ?? DEFAULT_KEEP;
+    const dir = dirname(this.config.path);
+    const prefix = `${basename(this.config.path)}.`;
+
+    const rotated = (await readdir(dir))
+      .filter((name) => name.startsWith(prefix))
+      .sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+    for (const name of rotated.slice(0, Math.max(rotated.length - keep, 0))) {
+      await unlink(join(dir, name)).catch(() => {});
+    }
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record every client request in the audit log. The gateway's own requests
+ * (announcements) are not logged.
+ */
+export function createAuditGuard(auditLog: AuditLog): RequestGuard {
+  return {
+    onResponse(exchange) {
+      const { client } = exchange;
+      if (!client) return;
+      auditLog.write(auditLog.createEntry({ ...exchange, client }));
+    },
+    close: () => auditLog.close(),
+  };
+}
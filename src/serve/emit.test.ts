@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionMode } from '@contextvm/sdk';
+import type { ServeConfig } from '../config/index.ts';
+import {
+  buildServeArgs,
+  findUncarriedSettings,
+  getDeploymentPorts,
+  renderComposeService,
+  renderDockerfile,
+  renderSystemdUnit,
+} from './emit.ts';
+
+const config: ServeConfig = {
+  privateKey: 'a'.repeat(64),
+  relays: ['wss://relay.example'],
+  public: true,
+  encryption: EncryptionMode.REQUIRED,
+  env: { ROOT: '/srv/100% $HOME' },
+  command: 'npx',
+  args: ['-y', '@modelcontextprotocol/server-filesystem', '/srv/my files'],
+  healthPort: '127.0.0.1:8080',
+};
+
+describe('buildServeArgs', () => {
+  it('renders the resolved config as flags without the private key or env', () => {
+    const args = buildServeArgs(config, [], { maxRestarts: 3 });
+
+    expect(args).toEqual([
+      '--relays',
+      'wss://relay.example',
+      '--public',
+      '--encryption-mode',
+      'required',
+      '--health-port',
+      '127.0.0.1:8080',
+      '--max-restarts',
+      '3',
+      '--',
+      'npx',
+      '-y',
+      '@modelcontextprotocol/server-filesystem',
+      '/srv/my files',
+    ]);
+    expect(buildServeArgs(config, ['node', 'server.js']).slice(-3)).toEqual([
+      '--',
+      'node',
+      'server.js',
+    ]);
+  });
+});
+
+describe('findUncarriedSettings', () => {
+  it('lists settings that the artifact config file does not hold', () => {
+    const resolved: ServeConfig = {
+      ...config,
+      serverInfo: { name: 'Files' },
+      allowedPubkeys: ['b'.repeat(64)],
+      rateLimit: { perClient: { requestsPerMinute: 60 } },
+    };
+
+    expect(findUncarriedSettings(config, undefined)).toEqual([]);
+    expect(findUncarriedSettings(resolved, undefined)).toEqual([
+      'serve.serverInfo',
+      'serve.allowedPubkeys',
+      'serve.rateLimit',
+    ]);
+    expect(
+      findUncarriedSettings(resolved, {
+        serverInfo: { name: 'Files' },
+        allowedPubkeys: ['c'.repeat(64)],
+        rateLimit: { perClient: { requestsPerMinute: 60 } },
+      })
+    ).toEqual(['serve.allowedPubkeys']);
+    expect(findUncarriedSettings(config, { env: { ROOT: '/srv/100% $HOME' } })).toEqual([]);
+    expect(findUncarriedSettings(config, { env: { ROOT: '/srv' } })).toEqual(['serve.env']);
+  });
+});
+
+describe('deployment artifacts', () => {
+  const spec = {
+    name: 'serve-files',
+    serveArgs: buildServeArgs(config, []),
+    workingDirectory: '/srv/app',
+    envKeys: ['ROOT'],
+    ...getDeploymentPorts(config),
+  };
+
+  it('renders a systemd unit with escaped arguments and an env file', () => {
+    const unit = renderSystemdUnit(spec);
+
+    expect(unit).toContain('EnvironmentFile=/etc/cvmi/serve-files.env');
+    expect(unit).toContain('WorkingDirectory=/srv/app');
+    expect(unit).toContain(
+      "printf '%s\\n' 'CVMI_SERVE_PRIVATE_KEY=<hex or nsec>' 'CVMI_SERVE_ENV_KEYS=ROOT' 'ROOT=<value>' | sudo tee"
+    );
+    expect(unit).not.toContain('--env');
+    expect(unit).toContain('"/srv/my files"');
+    expect(unit).not.toContain('/srv/100%');
+    expect(unit).toContain('ExecReload=/bin/kill -HUP $MAINPID');
+    expect(unit).not.toContain('a'.repeat(64));
+  });
+
+  it('renders a Dockerfile and compose service with a health check', () => {
+    const dockerfile = renderDockerfile(spec);
+    expect(dockerfile).toContain('EXPOSE 8080');
+    expect(dockerfile).toContain('wget -qO- http://127.0.0.1:8080/healthz || exit 1');
+    expect(dockerfile).toContain('"--health-port","0.0.0.0:8080"');
+    expect(dockerfile).not.toContain('127.0.0.1:8080"');
+
+    const compose = renderComposeService({ ...spec, configFile: '/srv/app/.cvmi.json' });
+    expect(compose).toContain('  serve-files:\n');
+    expect(compose).toContain('      - cvmi.env\n');
+    expect(compose).toContain(
+      'CVMI_SERVE_PRIVATE_KEY=<hex or nsec>, CVMI_SERVE_ENV_KEYS=ROOT, ROOT=<value>'
+    );
+    expect(compose).not.toContain('/srv/100%');
+    expect(compose).toContain('"/srv/app/.cvmi.json:/app/.cvmi.json:ro"');
+    expect(compose).toContain(`"http://127.0.0.1:8080/healthz"`);
+    expect(compose).toContain('"--health-port","0.0.0.0:8080"');
+    expect(compose).not.toContain('a'.repeat(64));
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Deployment artifacts for a gateway: `cvmi serve --emit systemd|docker|compose` renders
+ * a unit file, Dockerfile or compose service from the resolved serve configuration.
+ * The private key and MCP server env values are never written out; they are read from an env
+ * file at runtime.
+ */
+import { DEFAULT_ENCRYPTION } from '../config/index.ts';
+import type { ServeConfig } from '../config/index.ts';
+import { parseListenAddress } from '../utils/listen.ts';
+
+export const EMIT_FORMATS = ['systemd', 'docker', 'compose'] as const;
+
+export type EmitFormat = (typeof EMIT_FORMATS)[number];
+
+export interface DeploymentSpec {
+  /** Unit, image and service name, e.g. `serve-server-filesystem` */
+  name: string;
+  /** Arguments after `cvmi serve` */
+  serveArgs: string[];
+  /** Directory the gateway runs in (systemd) */
+  workingDirectory: string;
+  /**
+   * Config file with the settings that are not rendered as flags (serverInfo, allowedPubkeys,
+   * policy, ...): the `--config` file or the project `.cvmi.json`, when one exists
+   */
+  configFile?: string;
+  /** MCP server env variables, set in the env file next to the private key */
+  envKeys?: string[];
+  healthPort?: number;
+  metricsPort?: number;
+}
+
+const ENV_KEY = 'CVMI_SERVE_PRIVATE_KEY';
+const CONTAINER_CONFIG = '/app/.cvmi.json';
+
+/** Settings that have no flag, so an artifact only gets them through its config file. */
+const CONFIG_FILE_SETTINGS = [
+  'serverInfo',
+  'allowedPubkeys',
+  'auth',
+  'targets',
+  'policy',
+  'rateLimit',
+  'restart',
+  'auditLog',
+] as const;
+
+/**
+ * Settings of the resolved config that the artifact's config file (`carried`, its `serve`
+ * section) does not hold, such as ones from `~/.cvmi/config.json`. The deployed gateway
+ * would run without them.
+ */
+export function findUncarriedSettings(
+  config: ServeConfig,
+  carried: Partial<ServeConfig> | undefined
+): string[] {
+  const uncarried: string[] = CONFIG_FILE_SETTINGS.filter(
+    (key) =>
+      config[key] !== undefined && JSON.stringify(config[key]) !== JSON.stringify(carried?.[key])
+  );
+  // Env values go in the env file, but a `serve.env` in the config file would win over them.
+  if (carried?.env !== undefined && JSON.stringify(config.env) !== JSON.stringify(carried.env)) {
+    uncarried.push('env');
+  }
+  return uncarried.map((key) => `serve.${key}`);
+}
+
+/**
+ * Command-line equivalent of the resolved config: relays, public flag, encryption,
+ * endpoints and the MCP server module, command or URL, plus CLI-only overrides.
+ * MCP server env goes in the env file instead.
+ */
+export function buildServeArgs(
+  config: ServeConfig,
+  target: string[],
+  overrides: { maxRestarts?: number; auditLog?: string } = {}
+): string[] {
+  const args: string[] = [];
+  if (config.relays?.length) args.push('--relays', config.relays.join(','));
+  if (config.public) args.push('--public');
+  if (config.encryption && config.encryption !== DEFAULT_ENCRYPTION) {
+    args.push('--encryption-mode', config.encryption);
+  }
+  if (config.transport && config.transport !== 'auto') args.push('--transport', config.transport);
+  if (config.healthPort !== undefined) args.push('--health-port', String(config.healthPort));
+  if (config.metricsPort !== undefined) args.push('--metrics-port', String(config.metricsPort));
+  if (overrides.maxRestarts !== undefined) {
+    args.push('--max-restarts', String(overrides.maxRestarts));
+  }
+  if (overrides.auditLog) args.push('--audit-log', overrides.auditLog);
+
+  if (target.length === 0 && config.module) {
+    args.push('--module', config.module);
+    return args;
+  }
+  const server =
+    target.length > 0
+      ? target
+      : config.url
+        ? [config.url]
+        : config.command
+          ? [config.command, ...(config.args ?? [])]
+          : [];
+  if (server.length > 0) args.push('--', ...server);
+  return args;
+}
+
+/** Resolve the ports an artifact has to expose or probe. */
+export function getDeploymentPorts(
+  config: ServeConfig
+): Pick<DeploymentSpec, 'healthPort' | 'metricsPort'> {
+  return {
+    healthPort:
+      config.healthPort !== undefined ? parseListenAddress(config.healthPort).port : undefined,
+    metricsPort:
+      config.metricsPort !== undefined ? parseListenAddress(config.metricsPort).port : undefined,
+  };
+}
+
+/** Lines of the env file, with placeholders for the values. */
+function envFileLines(spec: DeploymentSpec): string[] {
+  const lines = [`${ENV_KEY}=<hex or nsec>`];
+  if (spec.envKeys?.length) {
+    lines.push(
+      `CVMI_SERVE_ENV_KEYS=${spec.envKeys.join(',')}`,
+      ...spec.envKeys.map((key) => `${key}=<value>`)
+    );
+  }
+  return lines;
+}
+
+/** Quote one ExecStart argument (systemd expands `%` specifiers and `$` variables). */
+function quoteSystemd(arg: string): string {
+  const escaped = arg.replace(/%/g, '%%').replace(/\$/g, '$$$$');
+  return /^[\w@%+=:,./-]+$/.test(escaped)
+    ? escaped
+    : `"${escaped.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export function renderSystemdUnit(spec: DeploymentSpec): string {
+  const envFile = `/etc/cvmi/${spec.name}.env`;
+  const args = spec.configFile ? ['--config', spec.configFile, ...spec.serveArgs] : spec.serveArgs;
+  const execStart = ['/usr/bin/env', 'npx', '-y', 'cvmi', 'serve', ...args]
+    .map(quoteSystemd)
+    .join(' ');
+  const envLines = envFileLines(spec)
+    .map((line) => `'${line}'`)
+    .join(' ');
+
+  return `# Generated by cvmi serve --emit systemd
+# Install: copy to /etc/systemd/system/${spec.name}.service, then
+#   sudo install -m 600 /dev/null ${envFile}
+#   printf '%s\\n' ${envLines} | sudo tee ${envFile}
+#   sudo systemctl daemon-reload && sudo systemctl enable --now ${spec.name}
+[Unit]
+Description=ContextVM gateway ${spec.name}
+After=network-online.target
+Wants=network-online.target
+
+[Service]
+Type=simple
+WorkingDirectory=${spec.workingDirectory}
+EnvironmentFile=${envFile}
+ExecStart=${execStart}
+ExecReload=/bin/kill -HUP $MAINPID
+Restart=on-failure
+RestartSec=5
+NoNewPrivileges=true
+
+[Install]
+WantedBy=multi-user.target
+`;
+}
+
+/**
+ * Serve arguments for a container: the endpoints listen on every interface of the
+ * container, since they default to loopback and the ports are published.
+ */
+function containerServeArgs(spec: DeploymentSpec): string[] {
+  return spec.serveArgs.map((arg, index) => {
+    const flag = spec.serveArgs[index - 1];
+    if (flag === '--health-port') return `0.0.0.0:${spec.healthPort}`;
+    if (flag === '--metrics-port') return `0.0.0.0:${spec.metricsPort}`;
+    return arg;
+  });
+}
+
+function healthcheckCommand(port: number): string[] {
+  return ['CMD', 'wget', '-qO-', `http://127.0.0.1:${port}/healthz`];
+}
+
+export function renderDockerfile(spec: DeploymentSpec): string {
+  const lines = [
+    '# Generated by cvmi serve --emit docker',
+    `# Build: docker build -t ${spec.name} .`,
+    `# Run:   docker run -d --env-file cvmi.env ${spec.name}`,
+    `#        (cvmi.env holds ${envFileLines(spec).join(', ')}; keep it out of the image)`,
+    `# Settings not passed as flags below are read from ${CONTAINER_CONFIG}${
+      spec.configFile ? `; add -v "${spec.configFile}:${CONTAINER_CONFIG}:ro"` : ''
+    }.`,
+    'FROM node:20-alpine',
+    'RUN npm install -g cvmi',
+    'WORKDIR /app',
+  ];
+  for (const port of [spec.healthPort, spec.metricsPort]) {
+    if (port !== undefined) lines.push(`EXPOSE ${port}`);
+  }
+  if (spec.healthPort !== undefined) {
+    lines.push(
+      'HEALTHCHECK --interval=30s --timeout=10s --start-period=60s --retries=3 \\',
+      `  ${healthcheckCommand(spec.healthPort).slice(1).join(' ')} || exit 1`
+    );
+  }
+  lines.push(
+    'USER node',
+    `ENTRYPOINT ${JSON.stringify(['cvmi', 'serve'])}`,
+    `CMD ${JSON.stringify(containerServeArgs(spec))}`
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderComposeService(spec: DeploymentSpec): string {
+  const lines = [
+    '# Generated by cvmi serve --emit compose',
+    `# cvmi.env holds ${envFileLines(spec).join(', ')}; keep it out of version control.`,
+    'services:',
+    `  ${spec.name}:`,
+    '    image: node:20-alpine',
+    `    command: ${JSON.stringify(['npx', '-y', 'cvmi', 'serve', ...containerServeArgs(spec)])}`,
+    '    working_dir: /app',
+    '    env_file:',
+    '      - cvmi.env',
+  ];
+  if (spec.configFile) {
+    lines.push(
+      '    volumes:',
+      `      - ${JSON.stringify(`${spec.configFile}:${CONTAINER_CONFIG}:ro`)}`
+    );
+  }
+  const ports = [spec.healthPort, spec.metricsPort].filter((port) => port !== undefined);
+  if (ports.length > 0) {
+    lines.push('    ports:', ...ports.map((port) => `      - '${port}:${port}'`));
+  }
+  if (spec.healthPort !== undefined) {
+    lines.push(
+      '    healthcheck:',
+      `      test: ${JSON.stringify(healthcheckCommand(spec.healthPort))}`,
+      '      interval: 30s',
+      '      timeout: 10s',
+      '      start_period: 60s',
+      '      retries: 3'
+    );
+  }
+  lines.push('    restart: unless-stopped');
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderDeployment(format: EmitFormat, spec: DeploymentSpec): string {
+  switch (format) {
+    case 'systemd':
+      return renderSystemdUnit(spec);
+    case 'docker':
+      return renderDockerfile(spec);
+    case 'compose':
+      return renderComposeService(spec);
+  }
+}
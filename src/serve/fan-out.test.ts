@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ToolListChangedNotificationSchema,
+  type CallToolResult,
+  type JSONRPCMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { FanOutTransport, validateFanOutTargetNames } from './fan-out.ts';
+import type { FanOutTarget } from './fan-out.ts';
+
+interface TestTarget extends FanOutTarget {
+  servers: McpServer[];
+  transports: InMemoryTransport[];
+}
+
+function createTarget(name: string, setup: (server: McpServer) => void): TestTarget {
+  const servers: McpServer[] = [];
+  const transports: InMemoryTransport[] = [];
+
+  return {
+    name,
+    servers,
+    transports,
+    createTransport: () => {
+      const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+      const server = new McpServer({ name, version: '1.0.0' });
+      setup(server);
+      void server.connect(serverSide);
+      servers.push(server);
+      transports.push(serverSide);
+      return clientSide;
+    },
+  };
+}
+
+function textResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }] };
+}
+
+const fsTarget = () =>
+  createTarget('fs', (server) => {
+    server.registerTool('read_file', { inputSchema: { path: z.string() } }, async ({ path }) =>
+      textResult(`fs:${path}`)
+    );
+    server.registerResource('readme', 'file:///README.md', {}, async (uri) => ({
+      contents: [{ uri: uri.href, text: '# readme' }],
+    }));
+    server.registerPrompt('review', {}, () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'review it' } }],
+    }));
+  });
+
+const gitTarget = () =>
+  createTarget('git', (server) => {
+    server.registerTool('log', {}, async () => textResult('git:log'));
+    server.registerTool('read_file', {}, async () => textResult('git:read_file'));
+  });
+
+async function connectClient(fanOut: FanOutTransport): Promise<Client> {
+  const [clientSide, gatewaySide] = InMemoryTransport.createLinkedPair();
+  gatewaySide.onmessage = (message) => void fanOut.send(message);
+  fanOut.onmessage = (message) => void gatewaySide.send(message);
+  await gatewaySide.start();
+  await fanOut.start();
+
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientSide);
+  return client;
+}
+
+describe('validateFanOutTargetNames', () => {
+  it('rejects names that cannot be used as a namespace', () => {
+    expect(() => validateFanOutTargetNames(['fs', 'git-2', 'my_db'])).not.toThrow();
+    expect(() => validateFanOutTargetNames(['fs.v2'])).toThrow('Invalid target name "fs.v2"');
+    expect(() => validateFanOutTargetNames(['fs', 'fs'])).toThrow('Duplicate target name "fs"');
+  });
+});
+
+describe('FanOutTransport', () => {
+  let fanOut: FanOutTransport | undefined;
+
+  afterEach(async () => {
+    await fanOut?.close();
+    fanOut = undefined;
+  });
+
+  it('namespaces tools, prompts, and resources from every target', async () => {
+    fanOut = new FanOutTransport({ targets: [fsTarget(), gitTarget()] });
+    const client = await connectClient(fanOut);
+
+    expect(client.getServerCapabilities()).toMatchObject({
+      tools: { listChanged: true },
+      prompts: { listChanged: true },
+      resources: { listChanged: true },
+    });
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['fs.read_file', 'git.log', 'git.read_file']);
+    expect(tools[0]?.inputSchema.properties).toHaveProperty('path');
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['fs.review']);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual(['fs+file:///README.md']);
+  });
+
+  it('routes each request to the target that owns it', async () => {
+    fanOut = new FanOutTransport({ targets: [fsTarget(), gitTarget()] });
+    const client = await connectClient(fanOut);
+
+    await expect(
+      client.callTool({ name: 'fs.read_file', arguments: { path: '/tmp/a' } })
+    ).resolves.toMatchObject(textResult('fs:/tmp/a'));
+    await expect(client.callTool({ name: 'git.read_file' })).resolves.toMatchObject(
+      textResult('git:read_file')
+    );
+
+    const resource = await client.readResource({ uri: 'fs+file:///README.md' });
+    expect(resource.contents).toEqual([{ uri: 'fs+file:///README.md', text: '# readme' }]);
+
+    const prompt = await client.getPrompt({ name: 'fs.review' });
+    expect(prompt.messages[0]?.content).toEqual({ type: 'text', text: 'review it' });
+
+    await expect(client.callTool({ name: 'db.query' })).rejects.toThrow('Unknown tool: db.query');
+  });
+
+  it('initializes the targets for a client that never sends initialize', async () => {
+    fanOut = new FanOutTransport({ targets: [fsTarget(), gitTarget()] });
+    const responses: JSONRPCMessage[] = [];
+    fanOut.onmessage = (message) => responses.push(message);
+    await fanOut.start();
+
+    await fanOut.send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'git.log', arguments: {} },
+    });
+    await fanOut.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(responses[0]).toEqual({ jsonrpc: '2.0', id: 1, result: textResult('git:log') });
+    expect(responses[1]).toMatchObject({
+      id: 2,
+      result: {
+        tools: expect.arrayContaining([expect.objectContaining({ name: 'fs.read_file' })]),
+      },
+    });
+  });
+
+  it('restarts a target that exits and fails its in-flight requests', async () => {
+    const statuses: string[] = [];
+    let release: (() => void) | undefined;
+    const slow = createTarget('slow', (server) => {
+      server.registerTool('wait', {}, async () => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return textResult('done');
+      });
+    });
+    fanOut = new FanOutTransport({
+      targets: [slow, gitTarget()],
+      initialDelayMs: 5,
+      onTargetStatus: (name, status) => statuses.push(`${name}:${status}`),
+    });
+    const client = await connectClient(fanOut);
+    const listChanged = new Promise<void>((resolve) =>
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve())
+    );
+
+    const pending = client.callTool({ name: 'slow.wait' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await slow.transports[0]!.close();
+
+    await expect(pending).rejects.toThrow('Target slow exited');
+    await listChanged;
+    expect(slow.servers).toHaveLength(2);
+    expect(statuses).toEqual([
+      'slow:ready',
+      'git:ready',
+      'slow:exited',
+      'slow:restarting',
+      'slow:ready',
+    ]);
+
+    const retry = client.callTool({ name: 'slow.wait' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release?.();
+    await expect(retry).resolves.toMatchObject(textResult('done'));
+    await expect(client.callTool({ name: 'git.log' })).resolves.toMatchObject(
+      textResult('git:log')
+    );
+  });
+
+  it('backs off and gives up on a target that keeps failing', async () => {
+    const statuses: string[] = [];
+    let attempts = 0;
+    const broken: FanOutTarget = {
+      name: 'broken',
+      createTransport: () => {
+        attempts += 1;
+        const [clientSide] = InMemoryTransport.createLinkedPair();
+        clientSide.start = () => Promise.reject(new Error('spawn broken ENOENT'));
+        return clientSide;
+      },
+    };
+    fanOut = new FanOutTransport({
+      targets: [broken, gitTarget()],
+      maxRestarts: 2,
+      initialDelayMs: 1,
+      onTargetStatus: (name, status, detail) =>
+        statuses.push(detail ? `${name}:${status}:${detail}` : `${name}:${status}`),
+    });
+    const client = await connectClient(fanOut);
+
+    await vi.waitFor(() => expect(statuses).toContain('broken:failed:gave up after 2 restarts'));
+    expect(attempts).toBe(3);
+    expect(statuses.filter((status) => status.startsWith('broken:'))).toEqual([
+      'broken:exited:spawn broken ENOENT',
+      'broken:restarting:attempt 1/2',
+      'broken:exited:spawn broken ENOENT',
+      'broken:restarting:attempt 2/2',
+      'broken:exited:spawn broken ENOENT',
+      'broken:failed:gave up after 2 restarts',
+    ]);
+    await expect(client.callTool({ name: 'git.log' })).resolves.toMatchObject(
+      textResult('git:log')
+    );
+  });
+});
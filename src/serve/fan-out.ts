@@ -0,0 +1,723 @@
+/**
+ * Fan-out MCP transport - aggregates several MCP targets behind one transport so
+ * a single gateway (and Nostr identity) can expose all of them.
+ *
+ * Tools and prompts are namespaced as `<target>.<name>`, resources and resource
+ * templates as `<target>+<uri>`. Each request is routed to the owning target;
+ * list requests are answered by merging every running target's results.
+ */
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  isJSONRPCErrorResponse,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Implementation,
+  JSONRPCMessage,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  RequestId,
+  ServerCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { getRestartDelay } from './supervisor.ts';
+
+export interface FanOutTarget {
+  /** Namespace for this target's tools, prompts, and resources. */
+  name: string;
+  /** Create a fresh transport; called again each time the target restarts. */
+  createTransport: () => Transport;
+}
+
+export type FanOutTargetStatus = 'ready' | 'exited' | 'restarting' | 'failed';
+
+export interface FanOutTransportOptions {
+  targets: FanOutTarget[];
+  /** serverInfo reported to clients (defaults to cvmi). */
+  serverInfo?: Implementation;
+  /** Consecutive restarts of one target before giving up on it. @default 5 */
+  maxRestarts?: number;
+  /** Delay before the first restart of a target; doubled for each further one. @default 1000 */
+  initialDelayMs?: number;
+  /** Upper bound for the restart delay. @default 30000 */
+  maxDelayMs?: number;
+  /** Uptime after which a target's restart count starts over. @default 60000 */
+  stableAfterMs?: number;
+  /** Timeout for the initialize handshake with each target. @default 30000 */
+  initializeTimeoutMs?: number;
+  onTargetStatus?: (name: string, status: FanOutTargetStatus, detail?: string) => void;
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface PendingTargetRequest {
+  resolve: (result: JsonObject) => void;
+  reject: (error: TargetRequestError) => void;
+}
+
+interface TargetState {
+  target: FanOutTarget;
+  transport?: Transport;
+  /** Incremented per transport so late events from a replaced one are ignored. */
+  generation: number;
+  ready: boolean;
+  capabilities: ServerCapabilities;
+  serverInfo?: Implementation;
+  instructions?: string;
+  nextRequestId: number;
+  pending: Map<RequestId, PendingTargetRequest>;
+  /** Consecutive restarts; reset once the target stays up for `stableAfterMs`. */
+  restarts: number;
+  /** Why the current transport is being closed, reported when it exits. */
+  closeReason?: string;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  stableTimer?: ReturnType<typeof setTimeout>;
+}
+
+const TARGET_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const RESOURCE_URI_PATTERN = /^([A-Za-z0-9_-]+)\+(.+)$/s;
+const LIST_CHANGED_NOTIFICATIONS: Array<[keyof ServerCapabilities, string]> = [
+  ['tools', 'notifications/tools/list_changed'],
+  ['prompts', 'notifications/prompts/list_changed'],
+  ['resources', 'notifications/resources/list_changed'],
+];
+
+class TargetRequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requestKey(id: RequestId): string {
+  return `${typeof id}:${id}`;
+}
+
+/**
+ * Check target names before any process is spawned: they become namespaces,
+ * so they must be unique and free of the `.`/`+` separators.
+ */
+export function validateFanOutTargetNames(names: string[]): void {
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (!TARGET_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid target name "${name}": use letters, digits, "-", or "_" (it prefixes tool names)`
+      );
+    }
+    if (seen.has(name)) {
+      throw new Error(`Duplicate target name "${name}"`);
+    }
+    seen.add(name);
+  }
+}
+
+export class FanOutTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readonly targets = new Map<string, TargetState>();
+  private readonly initializeTimeoutMs: number;
+  private initializeParams?: JsonObject;
+  private initializing?: Promise<void>;
+  private stopped = false;
+  /** Client request id -> the target and id it was forwarded as. */
+  private readonly forwardedRequests = new Map<string, { state: TargetState; id: RequestId }>();
+  /** Our id for a target-initiated request -> the target and its original id. */
+  private readonly targetRequests = new Map<string, { state: TargetState; id: RequestId }>();
+  private nextClientRequestId = 0;
+
+  constructor(private readonly options: FanOutTransportOptions) {
+    validateFanOutTargetNames(options.targets.map((target) => target.name));
+    this.initializeTimeoutMs = options.initializeTimeoutMs ?? 30_000;
+
+    for (const target of options.targets) {
+      this.targets.set(target.name, {
+        target,
+        generation: 0,
+        ready: false,
+        capabilities: {},
+        nextRequestId: 0,
+        pending: new Map(),
+        restarts: 0,
+      });
+    }
+  }
+
+  async start(): Promise<void> {
+    await Promise.all([...this.targets.values()].map((state) => this.startTarget(state)));
+  }
+
+  async close(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    await Promise.allSettled(
+      [...this.targets.values()].map(async (state) => {
+        clearTimeout(state.restartTimer);
+        clearTimeout(state.stableTimer);
+        this.failPending(state, 'Gateway is shutting down');
+        await state.transport?.close();
+      })
+    );
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (isJSONRPCRequest(message)) {
+      await this.handleClientRequest(message);
+    } else if (isJSONRPCNotification(message)) {
+      await this.handleClientNotification(message);
+    } else if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      // A client answering a request (sampling, roots, ...) that a target sent.
+      const key = message.id === undefined ? undefined : requestKey(message.id);
+      const route = key ? this.targetRequests.get(key) : undefined;
+      if (route && key) {
+        this.targetRequests.delete(key);
+        await this.sendToTarget(route.state, { ...message, id: route.id });
+      }
+    }
+  }
+
+  /** Names and readiness of every target, in configuration order. */
+  getTargetStatus(): Array<{ name: string; ready: boolean }> {
+    return [...this.targets.values()].map((state) => ({
+      name: state.target.name,
+      ready: state.ready,
+    }));
+  }
+
+  private async startTarget(state: TargetState): Promise<void> {
+    const generation = ++state.generation;
+    const transport = state.target.createTransport();
+    state.transport = transport;
+
+    transport.onmessage = (message) => {
+      if (state.generation === generation) this.handleTargetMessage(state, message);
+    };
+    transport.onerror = (error) => {
+      if (state.generation === generation) {
+        this.onerror?.(new Error(`Target ${state.target.name}: ${error.message}`));
+      }
+    };
+    transport.onclose = () => {
+      if (state.generation === generation) this.handleTargetClose(state);
+    };
+
+    try {
+      await transport.start();
+    } catch (error) {
+      if (state.generation === generation) {
+        this.handleTargetClose(state, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    if (this.initializeParams) {
+      await this.initializeTarget(state);
+    }
+  }
+
+  private async initializeTarget(state: TargetState): Promise<void> {
+    try {
+      const result = await this.requestTarget(
+        state,
+        'initialize',
+        this.initializeParams ?? {},
+        this.initializeTimeoutMs
+      );
+      state.capabilities = isObject(result.capabilities)
+        ? (result.capabilities as ServerCapabilities)
+        : {};
+      state.serverInfo = result.serverInfo as Implementation | undefined;
+      state.instructions =
+        typeof result.instructions === 'string' ? result.instructions : undefined;
+      await this.sendToTarget(state, {
+        jsonrpc: '2.0',
+        method: 'notifications/initialized',
+      });
+      state.ready = true;
+      this.scheduleStableReset(state);
+      this.options.onTargetStatus?.(state.target.name, 'ready');
+    } catch (error) {
+      // Closing the target reports it as exited and schedules a restart.
+      state.closeReason = `initialize failed: ${error instanceof Error ? error.message : String(error)}`;
+      await state.transport?.close();
+    }
+  }
+
+  private handleTargetClose(state: TargetState, reason = state.closeReason): void {
+    const wasReady = state.ready;
+    // A transport that fails to start may still report its close; count it once.
+    state.generation += 1;
+    state.ready = false;
+    state.transport = undefined;
+    state.closeReason = undefined;
+    clearTimeout(state.stableTimer);
+    this.failPending(state, `Target ${state.target.name} exited`);
+
+    if (this.stopped) return;
+
+    this.options.onTargetStatus?.(state.target.name, 'exited', reason);
+
+    const maxRestarts = this.options.maxRestarts ?? 5;
+    state.restarts += 1;
+    if (state.restarts > maxRestarts) {
+      this.options.onTargetStatus?.(
+        state.target.name,
+        'failed',
+        maxRestarts > 0 ? `gave up after ${maxRestarts} restarts` : undefined
+      );
+      return;
+    }
+
+    const delayMs = getRestartDelay(
+      state.restarts,
+      this.options.initialDelayMs ?? 1000,
+      this.options.maxDelayMs ?? 30_000
+    );
+    clearTimeout(state.restartTimer);
+    state.restartTimer = setTimeout(() => {
+      state.restartTimer = undefined;
+      if (this.stopped) return;
+      this.options.onTargetStatus?.(
+        state.target.name,
+        'restarting',
+        `attempt ${state.restarts}/${maxRestarts}`
+      );
+      void this.startTarget(state).then(() => {
+        if (wasReady && state.ready) this.notifyListsChanged(state);
+      });
+    }, delayMs);
+    state.restartTimer.unref?.();
+  }
+
+  private scheduleStableReset(state: TargetState): void {
+    clearTimeout(state.stableTimer);
+    state.stableTimer = setTimeout(() => {
+      state.restarts = 0;
+    }, this.options.stableAfterMs ?? 60_000);
+    state.stableTimer.unref?.();
+  }
+
+  private failPending(state: TargetState, message: string): void {
+    for (const pending of state.pending.values()) {
+      pending.reject(new TargetRequestError(ErrorCode.InternalError, message));
+    }
+    state.pending.clear();
+  }
+
+  /** Tell clients to refresh lists that a restarted target contributes to. */
+  private notifyListsChanged(state: TargetState): void {
+    for (const [capability, method] of LIST_CHANGED_NOTIFICATIONS) {
+      if (state.capabilities[capability]) {
+        this.emit({ jsonrpc: '2.0', method });
+      }
+    }
+  }
+
+  private emit(message: JSONRPCMessage): void {
+    this.onmessage?.(message);
+  }
+
+  private async sendToTarget(state: TargetState, message: JSONRPCMessage): Promise<void> {
+    if (!state.transport) {
+      throw new TargetRequestError(
+        ErrorCode.InternalError,
+        `Target ${state.target.name} is not running`
+      );
+    }
+    await state.transport.send(message);
+  }
+
+  private requestTarget(
+    state: TargetState,
+    method: string,
+    params: JsonObject | undefined,
+    timeoutMs?: number,
+    onForwarded?: (id: RequestId) => void
+  ): Promise<JsonObject> {
+    const id = `fanout-${++state.nextRequestId}`;
+    onForwarded?.(id);
+
+    return new Promise<JsonObject>((resolve, reject) => {
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              state.pending.delete(id);
+              reject(
+                new TargetRequestError(
+                  ErrorCode.RequestTimeout,
+                  `Target ${state.target.name} did not answer ${method} within ${timeoutMs} ms`
+                )
+              );
+            }, timeoutMs);
+
+      state.pending.set(id, {
+        resolve: (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      this.sendToTarget(state, { jsonrpc: '2.0', id, method, params }).catch((error: unknown) => {
+        state.pending.delete(id);
+        clearTimeout(timer);
+        reject(
+          error instanceof TargetRequestError
+            ? error
+            : new TargetRequestError(ErrorCode.InternalError, String(error))
+        );
+      });
+    });
+  }
+
+  private handleTargetMessage(state: TargetState, message: JSONRPCMessage): void {
+    if (isJSONRPCResultResponse(message)) {
+      const pending = state.pending.get(message.id);
+      state.pending.delete(message.id);
+      pending?.resolve(message.result as JsonObject);
+      return;
+    }
+
+    if (isJSONRPCErrorResponse(message)) {
+      if (message.id === undefined) return;
+      const pending = state.pending.get(message.id);
+      state.pending.delete(message.id);
+      pending?.reject(
+        new TargetRequestError(message.error.code, message.error.message, message.error.data)
+      );
+      return;
+    }
+
+    if (isJSONRPCRequest(message)) {
+      const id = `fanout-client-${++this.nextClientRequestId}`;
+      this.targetRequests.set(requestKey(id), { state, id: message.id });
+      this.emit({ ...message, id });
+      return;
+    }
+
+    if (isJSONRPCNotification(message)) {
+      this.emit(this.namespaceNotification(state, message));
+    }
+  }
+
+  private namespaceNotification(
+    state: TargetState,
+    message: JSONRPCNotification
+  ): JSONRPCNotification {
+    const params = message.params;
+    const name = state.target.name;
+
+    if (message.method === 'notifications/resources/updated' && typeof params?.uri === 'string') {
+      return { ...message, params: { ...params, uri: `${name}+${params.uri}` } };
+    }
+
+    if (message.method === 'notifications/message' && params) {
+      const logger = typeof params.logger === 'string' ? `${name}.${params.logger}` : name;
+      return { ...message, params: { ...params, logger } };
+    }
+
+    return message;
+  }
+
+  private async handleClientNotification(message: JSONRPCNotification): Promise<void> {
+    if (message.method === 'notifications/initialized') {
+      // Targets were already initialized by the gateway itself.
+      return;
+    }
+
+    if (message.method === 'notifications/cancelled') {
+      const requestId = message.params?.requestId;
+      const route =
+        typeof requestId === 'string' || typeof requestId === 'number'
+          ? this.forwardedRequests.get(requestKey(requestId))
+          : undefined;
+      if (route) {
+        await this.sendToTarget(route.state, {
+          ...message,
+          params: { ...message.params, requestId: route.id },
+        }).catch(() => {});
+      }
+      return;
+    }
+
+    await Promise.allSettled(this.readyTargets().map((state) => this.sendToTarget(state, message)));
+  }
+
+  private async handleClientRequest(request: JSONRPCRequest): Promise<void> {
+    try {
+      const result = await this.dispatch(request);
+      this.emit({ jsonrpc: '2.0', id: request.id, result });
+    } catch (error) {
+      const { code, message, data } =
+        error instanceof TargetRequestError
+          ? error
+          : new TargetRequestError(
+              ErrorCode.InternalError,
+              error instanceof Error ? error.message : String(error)
+            );
+      this.emit({
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code, message, ...(data === undefined ? {} : { data }) },
+      });
+    } finally {
+      this.forwardedRequests.delete(requestKey(request.id));
+    }
+  }
+
+  private async dispatch(request: JSONRPCRequest): Promise<JsonObject> {
+    const params = request.params ?? {};
+    if (request.method !== 'initialize') {
+      // Stateless clients never send initialize, so their first request starts the targets.
+      await this.initializeTargets({
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'cvmi', version: this.options.serverInfo?.version ?? '0.1.0' },
+      });
+    }
+
+    switch (request.method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: await this.listAll('tools', 'tools/list', 'tools', this.namespaceName) };
+      case 'prompts/list':
+        return {
+          prompts: await this.listAll('prompts', 'prompts/list', 'prompts', this.namespaceName),
+        };
+      case 'resources/list':
+        return {
+          resources: await this.listAll(
+            'resources',
+            'resources/list',
+            'resources',
+            this.namespaceResource
+          ),
+        };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: await this.listAll(
+            'resources',
+            'resources/templates/list',
+            'resourceTemplates',
+            this.namespaceResource
+          ),
+        };
+      case 'tools/call':
+      case 'prompts/get': {
+        const kind = request.method === 'tools/call' ? 'tool' : 'prompt';
+        const { state, name } = this.routeByName(params.name, kind);
+        return this.forward(request, state, { ...params, name });
+      }
+      case 'resources/read':
+      case 'resources/subscribe':
+      case 'resources/unsubscribe': {
+        const { state, uri } = this.routeByUri(params.uri);
+        const result = await this.forward(request, state, { ...params, uri });
+        if (Array.isArray(result.contents)) {
+          const name = state.target.name;
+          result.contents = result.contents.map((entry: unknown) =>
+            isObject(entry) && typeof entry.uri === 'string'
+              ? { ...entry, uri: `${name}+${entry.uri}` }
+              : entry
+          );
+        }
+        return result;
+      }
+      case 'completion/complete': {
+        const ref = isObject(params.ref) ? params.ref : {};
+        if (ref.type === 'ref/prompt') {
+          const { state, name } = this.routeByName(ref.name, 'prompt');
+          return this.forward(request, state, { ...params, ref: { ...ref, name } });
+        }
+        const { state, uri } = this.routeByUri(ref.uri);
+        return this.forward(request, state, { ...params, ref: { ...ref, uri } });
+      }
+      case 'logging/setLevel':
+        await Promise.allSettled(
+          this.readyTargets()
+            .filter((state) => state.capabilities.logging)
+            .map((state) => this.requestTarget(state, request.method, params))
+        );
+        return {};
+      default:
+        throw new TargetRequestError(
+          ErrorCode.MethodNotFound,
+          `Method not found: ${request.method}`
+        );
+    }
+  }
+
+  private async initialize(params: JsonObject): Promise<JsonObject> {
+    await this.initializeTargets(params);
+
+    const requested = String(params.protocolVersion);
+    const instructions = this.readyTargets()
+      .filter((state) => state.instructions)
+      .map((state) => `${state.target.name}: ${state.instructions}`)
+      .join('\n\n');
+
+    return {
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : LATEST_PROTOCOL_VERSION,
+      capabilities: this.mergeCapabilities(),
+      serverInfo: this.options.serverInfo ?? { name: 'cvmi', version: '0.1.0' },
+      ...(instructions ? { instructions } : {}),
+    };
+  }
+
+  private async initializeTargets(params: JsonObject): Promise<void> {
+    if (!this.initializeParams) {
+      // The first client's handshake parameters are reused for every target,
+      // including targets that restart later.
+      this.initializeParams = {
+        ...params,
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(String(params.protocolVersion))
+          ? params.protocolVersion
+          : LATEST_PROTOCOL_VERSION,
+      };
+      this.initializing = Promise.all(
+        [...this.targets.values()]
+          .filter((state) => state.transport)
+          .map((state) => this.initializeTarget(state))
+      ).then(() => {});
+    }
+    await this.initializing;
+  }
+
+  private mergeCapabilities(): ServerCapabilities {
+    const capabilities: ServerCapabilities = {};
+
+    for (const state of this.readyTargets()) {
+      const target = state.capabilities;
+      if (target.tools) capabilities.tools = { listChanged: true };
+      if (target.prompts) capabilities.prompts = { listChanged: true };
+      if (target.resources) {
+        capabilities.resources = {
+          listChanged: true,
+          subscribe: capabilities.resources?.subscribe || target.resources.subscribe || undefined,
+        };
+      }
+      if (target.logging) capabilities.logging = {};
+      if (target.completions) capabilities.completions = {};
+    }
+
+    return capabilities;
+  }
+
+  private readyTargets(): TargetState[] {
+    return [...this.targets.values()].filter((state) => state.ready);
+  }
+
+  private readonly namespaceName = (state: TargetState, entry: JsonObject): JsonObject => ({
+    ...entry,
+    name: `${state.target.name}.${String(entry.name)}`,
+  });
+
+  private readonly namespaceResource = (state: TargetState, entry: JsonObject): JsonObject => ({
+    ...entry,
+    ...(typeof entry.uri === 'string' ? { uri: `${state.target.name}+${entry.uri}` } : {}),
+    ...(typeof entry.uriTemplate === 'string'
+      ? { uriTemplate: `${state.target.name}+${entry.uriTemplate}` }
+      : {}),
+  });
+
+  /**
+   * Collect every page of a list method from each target that supports it.
+   * A target that fails is left out rather than failing the whole list.
+   */
+  private async listAll(
+    capability: 'tools' | 'prompts' | 'resources',
+    method: string,
+    key: string,
+    namespace: (state: TargetState, entry: JsonObject) => JsonObject
+  ): Promise<JsonObject[]> {
+    const lists = await Promise.all(
+      this.readyTargets()
+        .filter((state) => state.capabilities[capability])
+        .map(async (state) => {
+          const entries: JsonObject[] = [];
+          let cursor: unknown;
+          try {
+            do {
+              const page = await this.requestTarget(
+                state,
+                method,
+                cursor === undefined ? undefined : { cursor }
+              );
+              const items = Array.isArray(page[key]) ? (page[key] as unknown[]) : [];
+              entries.push(...items.filter(isObject).map((entry) => namespace(state, entry)));
+              cursor = page.nextCursor;
+            } while (typeof cursor === 'string' && cursor);
+          } catch (error) {
+            this.onerror?.(
+              new Error(
+                `Target ${state.target.name}: ${method} failed: ${error instanceof Error ? error.message : String(error)}`
+              )
+            );
+          }
+          return entries;
+        })
+    );
+
+    return lists.flat();
+  }
+
+  private routeByName(value: unknown, kind: 'tool' | 'prompt') {
+    const name = typeof value === 'string' ? value : '';
+    const separator = name.indexOf('.');
+    const state = separator > 0 ? this.targets.get(name.slice(0, separator)) : undefined;
+    if (!state) {
+      throw new TargetRequestError(ErrorCode.InvalidParams, `Unknown ${kind}: ${name}`);
+    }
+    return { state, name: name.slice(separator + 1) };
+  }
+
+  private routeByUri(value: unknown) {
+    const match = typeof value === 'string' ? RESOURCE_URI_PATTERN.exec(value) : null;
+    const state = match ? this.targets.get(match[1]!) : undefined;
+    if (!match || !state) {
+      throw new TargetRequestError(ErrorCode.InvalidParams, `Unknown resource: ${String(value)}`);
+    }
+    return { state, uri: match[2]! };
+  }
+
+  private async forward(
+    request: JSONRPCRequest,
+    state: TargetState,
+    params: JsonObject
+  ): Promise<JsonObject> {
+    if (!state.ready) {
+      throw new TargetRequestError(
+        ErrorCode.InternalError,
+        `Target ${state.target.name} is not running`
+      );
+    }
+
+    return this.requestTarget(state, request.method, params, undefined, (id) => {
+      this.forwardedRequests.set(requestKey(request.id), { state, id });
+    });
+  }
+}
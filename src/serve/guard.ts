@@ -0,0 +1,190 @@
+/**
+ * Per-client request guards for `cvmi serve`.
+ *
+ * The gateway's inbound middleware records which client pubkey sent each request;
+ * a wrapping transport then lets each guard reject a request (answering it with a
+ * JSON-RPC error instead of forwarding it), rewrite the result sent back, or observe
+ * the final response.
+ */
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  JSONRPCErrorResponse,
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResultResponse,
+  Result,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export type GuardRejection = JSONRPCErrorResponse['error'];
+
+/** A request and the response the client got for it. */
+export interface GuardedExchange {
+  request: JSONRPCRequest;
+  response: JSONRPCResultResponse | JSONRPCErrorResponse;
+  client: string | undefined;
+  /** Time from forwarding (or rejecting) the request to its response */
+  durationMs: number;
+}
+
+export interface RequestGuard {
+  /**
+   * Inspect a request before it is forwarded. Return an error to answer the request
+   * with it instead. `client` is undefined for the gateway's own requests (announcements).
+   */
+  checkRequest?(request: JSONRPCRequest, client: string | undefined): GuardRejection | undefined;
+  /** Rewrite a successful result on its way back to `client`. */
+  filterResult?(request: JSONRPCRequest, result: Result, client: string | undefined): Result;
+  /** See every response as sent to the client, including rejections by any guard. */
+  onResponse?(exchange: GuardedExchange): void;
+  /** Release resources (flush state files, timers) when the gateway stops. */
+  close?(): Promise<void>;
+}
+
+/**
+ * Wraps an MCP client transport so every request passes through the guards for
+ * the client that sent it.
+ */
+class GuardedTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /**
+   * Forwarded requests, by the id they were forwarded with, and the client their
+   * result goes back to.
+   */
+  private readonly pending = new Map<
+    string,
+    { request: JSONRPCRequest; client?: string; startedAt: number }
+  >();
+  private nextGatewayRequestId = 0;
+
+  constructor(
+    private readonly inner: Transport,
+    private readonly guards: RequestGuard[],
+    private readonly takeCaller: (id: string) => string | undefined
+  ) {
+    inner.onmessage = (message) => this.onmessage?.(this.filterResponse(message));
+    inner.onerror = (error) => this.onerror?.(error);
+    inner.onclose = () => this.onclose?.();
+  }
+
+  start(): Promise<void> {
+    return this.inner.start();
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+
+  async terminateSession(): Promise<void> {
+    await (this.inner as { terminateSession?: () => Promise<void> }).terminateSession?.();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCRequest(message)) {
+      const client = this.takeCaller(String(message.id));
+      const startedAt = Date.now();
+
+      for (const guard of this.guards) {
+        const rejection = guard.checkRequest?.(message, client);
+        if (rejection) {
+          const response = { jsonrpc: '2.0' as const, id: message.id, error: rejection };
+          this.notify({ request: message, response, client, durationMs: Date.now() - startedAt });
+          this.onmessage?.(response);
+          return;
+        }
+      }
+
+      // The gateway's own (announcement) requests all share one id and their responses
+      // may arrive in any order, so forward them under an id of their own.
+      const forwarded =
+        client === undefined
+          ? { ...message, id: `cvmi-guard-${++this.nextGatewayRequestId}` }
+          : message;
+      this.pending.set(String(forwarded.id), { request: message, client, startedAt });
+      await this.inner.send(forwarded, options);
+      return;
+    }
+
+    await this.inner.send(message, options);
+  }
+
+  private filterResponse(message: JSONRPCMessage): JSONRPCMessage {
+    if (!isJSONRPCResultResponse(message) && !isJSONRPCErrorResponse(message)) {
+      return message;
+    }
+
+    const key = String(message.id);
+    const pending = this.pending.get(key);
+    if (!pending) return message;
+    this.pending.delete(key);
+
+    let response: JSONRPCResultResponse | JSONRPCErrorResponse = {
+      ...message,
+      id: pending.request.id,
+    };
+    if (isJSONRPCResultResponse(message)) {
+      let result = message.result;
+      for (const guard of this.guards) {
+        if (guard.filterResult)
+          result = guard.filterResult(pending.request, result, pending.client);
+      }
+      response = { ...message, id: pending.request.id, result };
+    }
+
+    this.notify({
+      request: pending.request,
+      response,
+      client: pending.client,
+      durationMs: Date.now() - pending.startedAt,
+    });
+    return response;
+  }
+
+  private notify(exchange: GuardedExchange): void {
+    for (const guard of this.guards) guard.onResponse?.(exchange);
+  }
+}
+
+/**
+ * Connects the gateway's inbound middleware (which knows the caller) with the
+ * transports it forwards to (which only see request ids).
+ */
+export class GatewayGuard {
+  private readonly callers = new Map<string, string>();
+
+  constructor(private readonly guards: RequestGuard[]) {}
+
+  /** Pass as `nostrTransportOptions.inboundMiddleware`. */
+  readonly inboundMiddleware = async (
+    message: JSONRPCMessage,
+    ctx: { clientPubkey: string },
+    forward: (message: JSONRPCMessage) => Promise<void>
+  ): Promise<void> => {
+    if (isJSONRPCRequest(message)) {
+      this.callers.set(String(message.id), ctx.clientPubkey.toLowerCase());
+    }
+    await forward(message);
+  };
+
+  wrap(transport: Transport): Transport {
+    return new GuardedTransport(transport, this.guards, (id) => {
+      const client = this.callers.get(id);
+      this.callers.delete(id);
+      return client;
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.guards.map((guard) => guard.close?.()));
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { AddressInfo } from 'net';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  GatewayHealth,
+  HealthReportingTransport,
+  createHealthGuard,
+  startHealthServer,
+} from './health.ts';
+
+describe('GatewayHealth', () => {
+  it('is unhealthy while a target is down or no relay is connected', () => {
+    const relays = [{ url: 'wss://a.example', connected: false }];
+    const health = new GatewayHealth('abc', () => relays);
+    health.setTargetUp('default', false);
+
+    expect(health.getStatus().problems).toEqual(['target default is down', 'no relay connected']);
+
+    health.setTargetUp('default', true);
+    relays[0]!.connected = true;
+    expect(health.getStatus()).toMatchObject({ healthy: true, problems: [] });
+  });
+
+  it('reports uptime, announced capabilities and the last internal error', () => {
+    const clock = { now: Date.UTC(2026, 0, 1) };
+    const health = new GatewayHealth(
+      'abc',
+      () => [{ url: 'wss://a.example', connected: true }],
+      () => clock.now
+    );
+    const guard = createHealthGuard(health);
+    const exchange = { client: undefined, durationMs: 1 };
+
+    guard.onResponse!({
+      ...exchange,
+      request: { jsonrpc: '2.0', id: 'announcement', method: 'initialize' },
+      response: {
+        jsonrpc: '2.0',
+        id: 'announcement',
+        result: {
+          protocolVersion: '2025-06-18',
+          serverInfo: { name: 'fs', version: '1.0.0' },
+          capabilities: { tools: {} },
+        },
+      },
+    });
+    clock.now += 90_000;
+    guard.onResponse!({
+      ...exchange,
+      request: { jsonrpc: '2.0', id: 2, method: 'tools/call' },
+      response: {
+        jsonrpc: '2.0',
+        id: 2,
+        error: { code: ErrorCode.InternalError, message: 'MCP server exited before responding' },
+      },
+    });
+
+    expect(health.getStatus()).toMatchObject({
+      publicKey: 'abc',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      uptimeSeconds: 90,
+      relays: [{ url: 'wss://a.example', connected: true }],
+      announced: {
+        protocolVersion: '2025-06-18',
+        serverInfo: { name: 'fs', version: '1.0.0' },
+        capabilities: { tools: {} },
+      },
+      lastError: {
+        message: 'MCP server exited before responding',
+        at: '2026-01-01T00:01:30.000Z',
+      },
+    });
+  });
+});
+
+describe('HealthReportingTransport', () => {
+  it('reports the target down on errors and unexpected closes, and up on responses', async () => {
+    const reports: string[] = [];
+    const [gatewaySide, serverSide] = InMemoryTransport.createLinkedPair();
+    const transport = new HealthReportingTransport(gatewaySide, (up, reason) =>
+      reports.push(up ? 'up' : `down: ${reason}`)
+    );
+    const errors: Error[] = [];
+    transport.onerror = (error) => errors.push(error);
+    await transport.start();
+    await serverSide.start();
+
+    gatewaySide.onerror?.(new Error('fetch failed'));
+    await serverSide.send({ jsonrpc: '2.0', id: 1, result: {} });
+    await serverSide.close();
+
+    expect(reports).toEqual(['down: fetch failed', 'up', 'down: connection closed']);
+    expect(errors.map((error) => error.message)).toEqual(['fetch failed']);
+  });
+
+  it('does not report a close it asked for', async () => {
+    const reports: boolean[] = [];
+    const [gatewaySide] = InMemoryTransport.createLinkedPair();
+    const transport = new HealthReportingTransport(gatewaySide, (up) => reports.push(up));
+    await transport.start();
+
+    await transport.close();
+
+    expect(reports).toEqual([]);
+  });
+});
+
+describe('startHealthServer', () => {
+  it('serves /healthz and /status', async () => {
+    const relays = [{ url: 'wss://a.example', connected: false }];
+    const health = new GatewayHealth('abc', () => relays);
+    health.setTargetUp('default', true);
+    const server = await startHealthServer(health, { host: '127.0.0.1', port: 0 });
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const down = await fetch(`http://127.0.0.1:${port}/healthz`);
+      expect(down.status).toBe(503);
+      expect(await down.text()).toBe('no relay connected\n');
+
+      relays[0]!.connected = true;
+      const up = await fetch(`http://127.0.0.1:${port}/healthz`);
+      expect(up.status).toBe(200);
+      expect(await up.text()).toBe('ok\n');
+
+      const status = await fetch(`http://127.0.0.1:${port}/status`);
+      expect(await status.json()).toMatchObject({
+        publicKey: 'abc',
+        healthy: true,
+        targets: [{ name: 'default', up: true }],
+      });
+      expect((await fetch(`http://127.0.0.1:${port}/metrics`)).status).toBe(404);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Local health and status endpoint for `cvmi serve`: `/healthz` for container and
+ * orchestrator probes, `/status` for humans and scripts.
+ */
+import type { Server } from 'http';
+import {
+  ErrorCode,
+  isJSONRPCErrorResponse,
+  isJSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import { startHttpEndpoint } from '../utils/listen.ts';
+import type { ListenAddress } from '../utils/listen.ts';
+import type { RelayStatus } from '../utils/relay-status.ts';
+import type { RequestGuard } from './guard.ts';
+
+export interface GatewayStatus {
+  publicKey: string;
+  healthy: boolean;
+  /** Why the gateway is unhealthy; empty when healthy */
+  problems: string[];
+  startedAt: string;
+  uptimeSeconds: number;
+  relays: RelayStatus[];
+  targets: Array<{ name: string; up: boolean }>;
+  /** What the MCP server answered to `initialize`, once anyone has asked */
+  announced: {
+    protocolVersion?: string;
+    serverInfo?: unknown;
+    capabilities?: unknown;
+  } | null;
+  lastError: { message: string; at: string } | null;
+}
+
+/**
+ * Tracks what `/healthz` and `/status` report. Target state is pushed in by the
+ * supervisor callbacks or a `HealthReportingTransport`; relay state is read from
+ * `relayStatus` on every request.
+ */
+export class GatewayHealth {
+  private readonly startedAt: number;
+  private readonly targets = new Map<string, boolean>();
+  private announced: GatewayStatus['announced'] = null;
+  private lastError: GatewayStatus['lastError'] = null;
+
+  constructor(
+    private readonly publicKey: string,
+    private readonly relayStatus: () => RelayStatus[],
+    private readonly now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+  }
+
+  setTargetUp(name: string, up: boolean): void {
+    this.targets.set(name, up);
+  }
+
+  recordError(message: string): void {
+    this.lastError = { message, at: new Date(this.now()).toISOString() };
+  }
+
+  recordInitialize(result: Record<string, unknown>): void {
+    this.announced = {
+      protocolVersion:
+        typeof result.protocolVersion === 'string' ? result.protocolVersion : undefined,
+      serverInfo: result.serverInfo,
+      capabilities: result.capabilities,
+    };
+  }
+
+  getStatus(): GatewayStatus {
+    const relays = this.relayStatus();
+    const targets = [...this.targets].map(([name, up]) => ({ name, up }));
+    const problems = [
+      ...targets.filter((target) => !target.up).map((target) => `target ${target.name} is down`),
+      ...(relays.some((relay) => relay.connected) ? [] : ['no relay connected']),
+    ];
+    const now = this.now();
+
+    return {
+      publicKey: this.publicKey,
+      healthy: problems.length === 0,
+      problems,
+      startedAt: new Date(this.startedAt).toISOString(),
+      uptimeSeconds: Math.floor((now - this.startedAt) / 1000),
+      relays,
+      targets,
+      announced: this.announced,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/**
+ * Guard that remembers the MCP server's `initialize` result (the announced
+ * capabilities) and the last internal error sent to a client.
+ */
+export function createHealthGuard(health: GatewayHealth): RequestGuard {
+  return {
+    onResponse({ request, response }) {
+      if (isJSONRPCErrorResponse(response)) {
+        if (response.error.code === ErrorCode.InternalError) {
+          health.recordError(response.error.message);
+        }
+      } else if (request.method === 'initialize') {
+        health.recordInitialize(response.result);
+      }
+    },
+  };
+}
+
+/**
+ * Wraps the transport to an MCP server that is not supervised (a remote URL or an
+ * in-process module) and reports it down when the transport fails or closes on its
+ * own, and up again once the server answers a request.
+ */
+export class HealthReportingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private closing = false;
+
+  constructor(
+    private readonly inner: Transport,
+    private readonly report: (up: boolean, reason?: string) => void
+  ) {
+    inner.onmessage = (message) => {
+      if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) report(true);
+      this.onmessage?.(message);
+    };
+    inner.onerror = (error) => {
+      report(false, error.message);
+      this.onerror?.(error);
+    };
+    inner.onclose = () => {
+      if (!this.closing) report(false, 'connection closed');
+      this.onclose?.();
+    };
+  }
+
+  start(): Promise<void> {
+    return this.inner.start();
+  }
+
+  close(): Promise<void> {
+    this.closing = true;
+    return this.inner.close();
+  }
+
+  async terminateSession(): Promise<void> {
+    await (this.inner as { terminateSession?: () => Promise<void> }).terminateSession?.();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    try {
+      await this.inner.send(message, options);
+    } catch (error) {
+      this.report(false, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+}
+
+/**
+ * Serve `/healthz` (200 `ok`, or 503 with the problems) and `/status` (JSON) on the
+ * given address. Resolves once the server is listening.
+ */
+export function startHealthServer(health: GatewayHealth, address: ListenAddress): Promise<Server> {
+  return startHttpEndpoint(address, {
+    '/healthz': () => {
+      const { healthy, problems } = health.getStatus();
+      return {
+        status: healthy ? 200 : 503,
+        contentType: 'text/plain; charset=utf-8',
+        body: healthy ? 'ok\n' : `${problems.join('\n')}\n`,
+      };
+    },
+    '/status': () => ({
+      status: 200,
+      contentType: 'application/json',
+      body: `${JSON.stringify(health.getStatus(), null, 2)}\n`,
+    }),
+  });
+}
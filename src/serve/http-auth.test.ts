@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ClientCredentialsTokenSource, createAuthFetch, interpolateEnv } from './http-auth.ts';
+
+const TOKEN_URL = 'https://auth.example.com/token';
+const MCP_URL = 'https://mcp.example.com/mcp';
+
+/** Fake token endpoint and MCP server; the MCP server only accepts the latest token. */
+function createFakeFetch() {
+  const requests: Array<{ url: string; headers: Headers; body?: string }> = [];
+  let issued = 0;
+  const fetchFn: FetchLike = async (url, init) => {
+    const headers = new Headers(init?.headers);
+    requests.push({ url: String(url), headers, body: init?.body as string | undefined });
+    if (String(url) === TOKEN_URL) {
+      issued += 1;
+      return Response.json({ access_token: `token-${issued}`, expires_in: 3600 });
+    }
+    return headers.get('Authorization') === `Bearer token-${issued}`
+      ? new Response('ok')
+      : new Response(null, { status: 401 });
+  };
+  return { fetchFn, requests, revoke: () => (issued += 1) };
+}
+
+describe('interpolateEnv', () => {
+  it('replaces ${NAME} and rejects missing variables', () => {
+    expect(interpolateEnv('Bearer ${TOKEN}-${X}', { TOKEN: 'abc', X: '1' })).toBe('Bearer abc-1');
+    expect(() => interpolateEnv('${MISSING}', {}, 'serve.auth.bearerToken')).toThrow(
+      'Environment variable MISSING (used in serve.auth.bearerToken) is not set'
+    );
+  });
+});
+
+describe('createAuthFetch', () => {
+  it('adds static headers and a bearer token from the environment', async () => {
+    const { fetchFn, requests } = createFakeFetch();
+    const authFetch = createAuthFetch(
+      { headers: { 'X-Api-Key': '${API_KEY}' }, bearerToken: '${TOKEN}' },
+      fetchFn,
+      { API_KEY: 'key', TOKEN: 'secret' }
+    );
+
+    await authFetch(MCP_URL, { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+    expect(Object.fromEntries(requests[0]!.headers)).toEqual({
+      authorization: 'Bearer secret',
+      'content-type': 'application/json',
+      'x-api-key': 'key',
+    });
+    expect(() => createAuthFetch({ bearerToken: '${TOKEN}' }, fetchFn, {})).toThrow('TOKEN');
+  });
+
+  it('fetches, caches and refreshes an OAuth client-credentials token', async () => {
+    const { fetchFn, requests, revoke } = createFakeFetch();
+    const authFetch = createAuthFetch(
+      {
+        oauth: {
+          tokenUrl: TOKEN_URL,
+          clientId: 'gateway',
+          clientSecret: '${CLIENT_SECRET}',
+          scope: 'mcp',
+        },
+      },
+      fetchFn,
+      { CLIENT_SECRET: 's3cret' }
+    );
+
+    expect((await authFetch(MCP_URL, { method: 'POST', body: '{}' })).status).toBe(200);
+    expect((await authFetch(MCP_URL, { method: 'POST', body: '{}' })).status).toBe(200);
+    const tokenRequests = requests.filter((request) => request.url === TOKEN_URL);
+    expect(tokenRequests).toHaveLength(1);
+    expect(tokenRequests[0]!.headers.get('Authorization')).toBe(
+      `Basic ${Buffer.from('gateway:s3cret').toString('base64')}`
+    );
+    expect(tokenRequests[0]!.body).toBe('grant_type=client_credentials&scope=mcp');
+
+    // The server stops accepting the cached token: refresh once and retry.
+    revoke();
+    expect((await authFetch(MCP_URL, { method: 'POST', body: '{}' })).status).toBe(200);
+    expect(requests.filter((request) => request.url === TOKEN_URL)).toHaveLength(2);
+    expect(requests.at(-1)!.headers.get('Authorization')).toBe('Bearer token-3');
+  });
+});
+
+describe('ClientCredentialsTokenSource', () => {
+  it('refreshes the token before it expires', async () => {
+    const { fetchFn } = createFakeFetch();
+    let now = 0;
+    const tokens = new ClientCredentialsTokenSource(
+      {
+        tokenUrl: TOKEN_URL,
+        clientId: 'gateway',
+        clientSecret: 'secret',
+        clientAuthentication: 'post',
+      },
+      fetchFn,
+      () => now
+    );
+
+    expect(await tokens.getToken()).toBe('token-1');
+    now = 3_500_000;
+    expect(await tokens.getToken()).toBe('token-1');
+    now = 3_580_000;
+    expect(await tokens.getToken()).toBe('token-2');
+  });
+});
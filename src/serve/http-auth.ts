@@ -0,0 +1,159 @@
+/**
+ * Authentication for HTTP MCP targets: static headers, a bearer token, or an OAuth 2.0
+ * client-credentials token that is fetched, cached and refreshed. Values may reference
+ * environment variables as `${NAME}` so secrets stay out of the JSON config.
+ */
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { ServeHttpAuthConfig, ServeOAuthClientCredentialsConfig } from '../config/index.ts';
+
+/** Refresh a token this long before it expires. */
+const EXPIRY_SKEW_MS = 30_000;
+
+/**
+ * Replace `${NAME}` with the environment variable NAME. A missing variable is an error so a
+ * typo doesn't turn into an unauthenticated request.
+ */
+export function interpolateEnv(
+  value: string,
+  env: NodeJS.ProcessEnv = process.env,
+  source = 'serve.auth'
+): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new Error(`Environment variable ${name} (used in ${source}) is not set`);
+    }
+    return resolved;
+  });
+}
+
+interface TokenResponse {
+  access_token?: unknown;
+  expires_in?: unknown;
+}
+
+/**
+ * OAuth 2.0 client-credentials grant (RFC 6749 §4.4). The token is cached until shortly
+ * before `expires_in` runs out, or until the server rejects it.
+ */
+export class ClientCredentialsTokenSource {
+  private token: { value: string; expiresAt: number } | undefined;
+  private pending: Promise<string> | undefined;
+
+  constructor(
+    private readonly config: ServeOAuthClientCredentialsConfig,
+    private readonly fetchToken: FetchLike = fetch,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async getToken(): Promise<string> {
+    if (this.token && this.now() < this.token.expiresAt) return this.token.value;
+    this.pending ??= this.requestToken().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /** Forget the cached token, e.g. after the MCP server answered 401. */
+  invalidate(): void {
+    this.token = undefined;
+  }
+
+  private async requestToken(): Promise<string> {
+    const { tokenUrl, clientId, clientSecret, scope, audience } = this.config;
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) body.set('scope', scope);
+    if (audience) body.set('audience', audience);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (this.config.clientAuthentication === 'post') {
+      body.set('client_id', clientId);
+      body.set('client_secret', clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await this.fetchToken(tokenUrl, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(
+        `OAuth token request to ${tokenUrl} failed: ${response.status} ${response.statusText}${
+          text ? ` ${text.slice(0, 200)}` : ''
+        }`
+      );
+    }
+
+    const data = (await response.json()) as TokenResponse;
+    if (typeof data.access_token !== 'string' || data.access_token === '') {
+      throw new Error(`OAuth token response from ${tokenUrl} has no access_token`);
+    }
+    const expiresIn = typeof data.expires_in === 'number' ? data.expires_in * 1000 : Infinity;
+    this.token = {
+      value: data.access_token,
+      expiresAt: this.now() + Math.max(0, expiresIn - EXPIRY_SKEW_MS),
+    };
+    return data.access_token;
+  }
+}
+
+/**
+ * Wrap `baseFetch` so every request to the MCP server carries the configured headers and
+ * credentials. With OAuth, a 401 drops the cached token and the request is retried once.
+ * Environment variables are resolved here, so configuration errors surface at startup.
+ */
+export function createAuthFetch(
+  auth: ServeHttpAuthConfig,
+  baseFetch: FetchLike = fetch,
+  env: NodeJS.ProcessEnv = process.env
+): FetchLike {
+  const staticHeaders = Object.entries(auth.headers ?? {}).map(
+    ([name, value]) => [name, interpolateEnv(value, env, `serve.auth.headers.${name}`)] as const
+  );
+  const bearerToken =
+    auth.bearerToken !== undefined
+      ? interpolateEnv(auth.bearerToken, env, 'serve.auth.bearerToken')
+      : undefined;
+  if (bearerToken !== undefined && auth.oauth) {
+    throw new Error('serve.auth sets both bearerToken and oauth; use one of them.');
+  }
+  const tokens = auth.oauth
+    ? new ClientCredentialsTokenSource(
+        {
+          ...auth.oauth,
+          tokenUrl: interpolateEnv(auth.oauth.tokenUrl, env, 'serve.auth.oauth.tokenUrl'),
+          clientId: interpolateEnv(auth.oauth.clientId, env, 'serve.auth.oauth.clientId'),
+          clientSecret: interpolateEnv(
+            auth.oauth.clientSecret,
+            env,
+            'serve.auth.oauth.clientSecret'
+          ),
+        },
+        baseFetch
+      )
+    : undefined;
+
+  const send = async (url: string | URL, init: RequestInit | undefined) => {
+    const headers = new Headers(init?.headers);
+    for (const [name, value] of staticHeaders) headers.set(name, value);
+    if (bearerToken !== undefined) headers.set('Authorization', `Bearer ${bearerToken}`);
+    if (tokens) headers.set('Authorization', `Bearer ${await tokens.getToken()}`);
+    return baseFetch(url, { ...init, headers });
+  };
+
+  return async (url, init) => {
+    const response = await send(url, init);
+    if (response.status !== 401 || !tokens) return response;
+
+    tokens.invalidate();
+    await response.body?.cancel();
+    return send(url, init);
+  };
+}
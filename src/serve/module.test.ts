@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { connectModuleServer, loadModuleServer, resolveModuleServer } from './module.ts';
+
+const TEMPLATE = fileURLToPath(
+  new URL('../../skills/server-dev/assets/server-template.ts', import.meta.url)
+);
+
+describe('resolveModuleServer', () => {
+  it('accepts factories, default exports and server instances', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+
+    expect(await resolveModuleServer({ createServer: async () => server }, 'a.js')).toBe(server);
+    expect(await resolveModuleServer({ default: server, server: 'ignored' }, 'b.js')).toBe(server);
+    expect(await resolveModuleServer({ server }, 'c.js')).toBe(server);
+  });
+
+  it('rejects modules without an MCP server', async () => {
+    await expect(resolveModuleServer({ createServer: () => ({}) }, 'a.js')).rejects.toThrow(
+      'Export "createServer" of a.js is not an MCP Server'
+    );
+    await expect(resolveModuleServer({ helper: () => {} }, 'b.js')).rejects.toThrow(
+      'b.js must export createServer()'
+    );
+  });
+});
+
+describe('loadModuleServer', () => {
+  it('imports TypeScript modules', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cvmi-module-'));
+    const file = join(dir, 'server.ts');
+    await writeFile(
+      file,
+      'interface Server { connect(transport: unknown): Promise<void> }\n' +
+        'export const server: Server = { connect: async () => {} };\n'
+    );
+
+    try {
+      expect(typeof (await loadModuleServer(file)).connect).toBe('function');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('connectModuleServer', () => {
+  it('serves the server-dev template in-process', async () => {
+    const transport = await connectModuleServer(await loadModuleServer(TEMPLATE));
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+
+    try {
+      expect((await client.listTools()).tools.map((tool) => tool.name)).toEqual(['echo']);
+      expect(await client.callTool({ name: 'echo', arguments: { message: 'hi' } })).toMatchObject({
+        content: [{ type: 'text', text: 'Echo: hi' }],
+      });
+    } finally {
+      await client.close();
+    }
+  });
+});
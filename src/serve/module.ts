@@ -0,0 +1,85 @@
+/**
+ * In-process MCP servers: `cvmi serve --module ./server.ts` imports a module that exports an
+ * MCP `Server`/`McpServer` (or a factory for one) and connects it to the gateway through an
+ * in-memory transport pair, so no child process is spawned.
+ */
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+/** The part of an MCP `Server` or `McpServer` the gateway needs. */
+export interface ConnectableServer {
+  connect(transport: Transport): Promise<void>;
+}
+
+/** Exports looked up, in order: a factory, the default export, or a server instance. */
+const SERVER_EXPORTS = ['createServer', 'default', 'server'] as const;
+
+function isConnectableServer(value: unknown): value is ConnectableServer {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<ConnectableServer>).connect === 'function'
+  );
+}
+
+/**
+ * Pick the MCP server from a module's exports. Functions are called as (possibly async)
+ * factories; anything else must already be a server.
+ */
+export async function resolveModuleServer(
+  exports: Record<string, unknown>,
+  source: string
+): Promise<ConnectableServer> {
+  for (const name of SERVER_EXPORTS) {
+    const value = exports[name];
+    if (value === undefined) continue;
+
+    const server: unknown = typeof value === 'function' ? await value() : value;
+    if (!isConnectableServer(server)) {
+      throw new Error(
+        `Export "${name}" of ${source} is not an MCP Server/McpServer or a factory returning one`
+      );
+    }
+    return server;
+  }
+  throw new Error(
+    `${source} must export createServer(), a default export or "server" with an MCP Server/McpServer`
+  );
+}
+
+const TYPESCRIPT_EXTENSION = /\.[cm]?ts$/;
+
+/**
+ * Import the module at `path` (relative to the working directory) and resolve its server.
+ * TypeScript modules go through tsx, since Node.js 20 cannot load them itself; bun can.
+ */
+export async function loadModuleServer(path: string): Promise<ConnectableServer> {
+  const url = pathToFileURL(resolve(path)).href;
+  let exports: Record<string, unknown>;
+  try {
+    if (TYPESCRIPT_EXTENSION.test(path) && !process.versions.bun) {
+      const { tsImport } = await import('tsx/esm/api');
+      exports = await tsImport(url, import.meta.url);
+    } else {
+      exports = await import(url);
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to import ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  // Outside a `"type": "module"` package tsx compiles to CommonJS, whose exports arrive
+  // wrapped in `default`.
+  const wrapped = exports.default as { __esModule?: boolean } | undefined;
+  if (wrapped?.__esModule) exports = wrapped as Record<string, unknown>;
+  return resolveModuleServer(exports, path);
+}
+
+/** Connect `server` to one end of an in-memory pair and return the other end for the gateway. */
+export async function connectModuleServer(server: ConnectableServer): Promise<Transport> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  return clientTransport;
+}
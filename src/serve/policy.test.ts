@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LATEST_PROTOCOL_VERSION, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AccessPolicy, createPolicyGuard, globToRegExp } from './policy.ts';
+import { GatewayGuard } from './guard.ts';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const CAROL = 'c'.repeat(64);
+
+function createPolicy() {
+  return new AccessPolicy({
+    groups: { admins: [ALICE] },
+    rules: [
+      { clients: ['*'], allow: { tools: ['read_*', 'list_?'] }, deny: { prompts: ['internal.*'] } },
+      { clients: ['@admins'], allow: { tools: ['*'] }, deny: { tools: ['drop_db'] } },
+      { clients: [BOB], allow: { resources: ['file:///public/*'] } },
+    ],
+  });
+}
+
+describe('globToRegExp', () => {
+  it('matches * and ? and escapes everything else', () => {
+    expect(globToRegExp('fs.read_*').test('fs.read_file')).toBe(true);
+    expect(globToRegExp('fs.read_*').test('fsxread_file')).toBe(false);
+    expect(globToRegExp('list_?').test('list_a')).toBe(true);
+    expect(globToRegExp('list_?').test('list_ab')).toBe(false);
+  });
+});
+
+describe('AccessPolicy', () => {
+  it('combines the rules that apply to a client', () => {
+    const policy = createPolicy();
+
+    expect(policy.isAllowed(CAROL, 'tools', 'read_file')).toBe(true);
+    expect(policy.isAllowed(CAROL, 'tools', 'write_file')).toBe(false);
+    expect(policy.isAllowed(ALICE, 'tools', 'write_file')).toBe(true);
+    expect(policy.isAllowed(ALICE, 'tools', 'drop_db')).toBe(false);
+    expect(policy.isAllowed(ALICE, 'prompts', 'internal.review')).toBe(false);
+    expect(policy.isAllowed(ALICE, 'prompts', 'summary')).toBe(true);
+    expect(policy.isAllowed(BOB, 'resources', 'file:///public/a.txt')).toBe(true);
+    expect(policy.isAllowed(BOB, 'resources', 'file:///secret.txt')).toBe(false);
+    expect(policy.isAllowed(CAROL, 'resources', 'file:///secret.txt')).toBe(true);
+    expect(policy.isAllowed(undefined, 'tools', 'read_file')).toBe(true);
+    expect(policy.isAllowed(undefined, 'tools', 'write_file')).toBe(false);
+  });
+
+  it('denies uncovered names when the default is deny', () => {
+    const policy = new AccessPolicy({
+      default: 'deny',
+      rules: [{ clients: [ALICE], allow: { tools: ['*'] } }],
+    });
+
+    expect(policy.isAllowed(ALICE, 'tools', 'anything')).toBe(true);
+    expect(policy.isAllowed(ALICE, 'prompts', 'anything')).toBe(false);
+    expect(policy.isAllowed(BOB, 'tools', 'anything')).toBe(false);
+  });
+
+  it('rejects unknown groups and invalid pubkeys', () => {
+    expect(() => new AccessPolicy({ rules: [{ clients: ['@ops'] }] })).toThrow(
+      'Unknown policy group "@ops" in policy rule 1'
+    );
+    expect(() => new AccessPolicy({ groups: { ops: ['nope'] } })).toThrow(
+      'Invalid pubkey "nope" in policy group "ops"'
+    );
+  });
+});
+
+describe('createPolicyGuard', () => {
+  async function createGateway() {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    for (const name of ['read_file', 'write_file', 'drop_db']) {
+      server.registerTool(name, {}, async () => ({ content: [{ type: 'text', text: name }] }));
+    }
+    await server.connect(serverSide);
+
+    const guard = new GatewayGuard([createPolicyGuard(createPolicy())]);
+    const transport = guard.wrap(clientSide);
+    const responses = new Map<string | number, JSONRPCMessage>();
+    transport.onmessage = (message) => {
+      if ('id' in message && message.id !== undefined) responses.set(message.id, message);
+    };
+    await transport.start();
+
+    let nextId = 0;
+    const request = async (client: string, method: string, params?: Record<string, unknown>) => {
+      const id = `event-${++nextId}`;
+      await guard.inboundMiddleware(
+        { jsonrpc: '2.0', id, method, params },
+        { clientPubkey: client },
+        (message) => transport.send(message)
+      );
+      await vi.waitFor(() => expect(responses.has(id)).toBe(true));
+      return responses.get(id) as Record<string, any>;
+    };
+
+    const announce = async (methods: string[]) => {
+      const responses: Array<Record<string, any>> = [];
+      transport.onmessage = (message) => {
+        if ('result' in message || 'error' in message) responses.push(message);
+      };
+      for (const method of methods) {
+        await transport.send({ jsonrpc: '2.0', id: 'announcement', method });
+      }
+      await vi.waitFor(() => expect(responses).toHaveLength(methods.length));
+      return responses;
+    };
+
+    await request(ALICE, 'initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    });
+    // Deliver a message as if the MCP server had sent it.
+    const inject = (message: JSONRPCMessage) => clientSide.onmessage?.(message);
+    return { transport, request, announce, inject };
+  }
+
+  it('filters tools/list per caller', async () => {
+    const { request } = await createGateway();
+
+    const alice = await request(ALICE, 'tools/list');
+    const carol = await request(CAROL, 'tools/list');
+
+    expect(alice.result.tools.map((tool: { name: string }) => tool.name)).toEqual([
+      'read_file',
+      'write_file',
+    ]);
+    expect(carol.result.tools.map((tool: { name: string }) => tool.name)).toEqual(['read_file']);
+  });
+
+  it('answers denied calls with a JSON-RPC error instead of forwarding them', async () => {
+    const { request } = await createGateway();
+
+    const denied = await request(CAROL, 'tools/call', { name: 'write_file' });
+    const allowed = await request(ALICE, 'tools/call', { name: 'write_file' });
+
+    expect(denied.error).toEqual({
+      code: -32600,
+      message: 'Access denied: tool "write_file" is not allowed for this client',
+    });
+    expect(allowed.result.content).toEqual([{ type: 'text', text: 'write_file' }]);
+  });
+
+  it('filters public announcement lists by their own method although they share one id', async () => {
+    const { announce } = await createGateway();
+
+    // The test server has no prompts, so prompts/list is answered with an error.
+    const responses = await announce(['tools/list', 'prompts/list']);
+
+    const tools = responses.find((response) => response.result)?.result.tools;
+    expect(tools.map((tool: { name: string }) => tool.name)).toEqual(['read_file']);
+  });
+
+  it('does not pair a republished announcement with a pending list request', async () => {
+    const { transport, inject } = await createGateway();
+    const results: Array<Record<string, any>> = [];
+    transport.onmessage = (message) => {
+      if ('result' in message) results.push(message.result);
+    };
+
+    await transport.send({ jsonrpc: '2.0', id: 'announcement', method: 'tools/list' });
+    // Like the supervisor's health update after a restart.
+    inject({
+      jsonrpc: '2.0',
+      id: 'announcement',
+      result: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        serverInfo: { name: 'test', version: '1.0.0' },
+      },
+    });
+    await vi.waitFor(() => expect(results).toHaveLength(2));
+
+    const tools = results.find((result) => result.tools)?.tools;
+    expect(tools.map((tool: { name: string }) => tool.name)).toEqual(['read_file']);
+  });
+});
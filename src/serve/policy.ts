@@ -0,0 +1,204 @@
+/**
+ * Per-client access control for `cvmi serve`.
+ */
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ServeAccessPolicyConfig } from '../config/index.ts';
+import { normalizePublicKey } from '../utils/crypto.ts';
+import type { RequestGuard } from './guard.ts';
+
+export type CapabilityKind = 'tools' | 'resources' | 'prompts';
+
+type PatternSet = Partial<Record<CapabilityKind, RegExp[]>>;
+
+interface CompiledRule {
+  anyClient: boolean;
+  clients: Set<string>;
+  allow: PatternSet;
+  deny: PatternSet;
+}
+
+const CAPABILITY_KINDS: CapabilityKind[] = ['tools', 'resources', 'prompts'];
+const KIND_LABELS: Record<CapabilityKind, string> = {
+  tools: 'tool',
+  resources: 'resource',
+  prompts: 'prompt',
+};
+
+/** List methods whose results are filtered, with the result key and entry field to match. */
+const LIST_FILTERS: Record<string, { kind: CapabilityKind; key: string; field: string }> = {
+  'tools/list': { kind: 'tools', key: 'tools', field: 'name' },
+  'prompts/list': { kind: 'prompts', key: 'prompts', field: 'name' },
+  'resources/list': { kind: 'resources', key: 'resources', field: 'uri' },
+  'resources/templates/list': {
+    kind: 'resources',
+    key: 'resourceTemplates',
+    field: 'uriTemplate',
+  },
+};
+
+/**
+ * Compile a glob where `*` matches any run of characters and `?` a single one.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+function compilePatterns(patterns: Partial<Record<CapabilityKind, string[]>> = {}): PatternSet {
+  const compiled: PatternSet = {};
+  for (const kind of CAPABILITY_KINDS) {
+    const list = patterns[kind];
+    if (list) compiled[kind] = list.map(globToRegExp);
+  }
+  return compiled;
+}
+
+function normalizeClient(value: string, context: string): string {
+  try {
+    return normalizePublicKey(value);
+  } catch (error) {
+    throw new Error(
+      `Invalid pubkey "${value}" in ${context}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * A compiled `serve.policy`. Deny patterns from any applicable rule win; otherwise,
+ * if applicable rules list allow patterns for a kind, a name must match one of them;
+ * otherwise the policy default decides.
+ */
+export class AccessPolicy {
+  private readonly rules: CompiledRule[];
+  private readonly defaultAllow: boolean;
+
+  constructor(config: ServeAccessPolicyConfig) {
+    const groups = new Map<string, string[]>();
+    for (const [name, members] of Object.entries(config.groups ?? {})) {
+      groups.set(
+        name,
+        members.map((member) => normalizeClient(member, `policy group "${name}"`))
+      );
+    }
+
+    this.rules = (config.rules ?? []).map((rule, index) => {
+      const compiled: CompiledRule = {
+        anyClient: false,
+        clients: new Set(),
+        allow: compilePatterns(rule.allow),
+        deny: compilePatterns(rule.deny),
+      };
+
+      for (const client of rule.clients ?? []) {
+        if (client === '*') {
+          compiled.anyClient = true;
+        } else if (client.startsWith('@')) {
+          const members = groups.get(client.slice(1));
+          if (!members) {
+            throw new Error(`Unknown policy group "${client}" in policy rule ${index + 1}`);
+          }
+          members.forEach((member) => compiled.clients.add(member));
+        } else {
+          compiled.clients.add(normalizeClient(client, `policy rule ${index + 1}`));
+        }
+      }
+
+      return compiled;
+    });
+
+    this.defaultAllow = (config.default ?? 'allow') === 'allow';
+  }
+
+  /**
+   * Decide whether a client may use a capability. Requests without a known caller
+   * (such as public announcements) are matched only by `*` rules.
+   */
+  isAllowed(clientPubkey: string | undefined, kind: CapabilityKind, name: string): boolean {
+    const rules = this.rules.filter(
+      (rule) => rule.anyClient || (clientPubkey !== undefined && rule.clients.has(clientPubkey))
+    );
+
+    if (rules.some((rule) => rule.deny[kind]?.some((pattern) => pattern.test(name)))) {
+      return false;
+    }
+
+    const allowLists = rules.flatMap((rule) => (rule.allow[kind] ? [rule.allow[kind]] : []));
+    if (allowLists.length > 0) {
+      return allowLists.some((patterns) => patterns.some((pattern) => pattern.test(name)));
+    }
+
+    return this.defaultAllow;
+  }
+}
+
+/**
+ * The capability a request targets, or undefined for requests that are not subject
+ * to the policy (initialize, ping, list methods, ...).
+ */
+function getRequestedCapability(
+  request: JSONRPCRequest
+): { kind: CapabilityKind; name: string } | undefined {
+  const params = request.params ?? {};
+
+  switch (request.method) {
+    case 'tools/call':
+      return { kind: 'tools', name: String(params.name) };
+    case 'prompts/get':
+      return { kind: 'prompts', name: String(params.name) };
+    case 'resources/read':
+    case 'resources/subscribe':
+    case 'resources/unsubscribe':
+      return { kind: 'resources', name: String(params.uri) };
+    case 'completion/complete': {
+      const ref = (params.ref ?? {}) as { type?: string; name?: string; uri?: string };
+      return ref.type === 'ref/prompt'
+        ? { kind: 'prompts', name: String(ref.name) }
+        : { kind: 'resources', name: String(ref.uri) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Enforce a policy in the gateway: reject requests for capabilities the caller may
+ * not use and filter list results down to what the caller is allowed to see.
+ */
+export function createPolicyGuard(policy: AccessPolicy): RequestGuard {
+  return {
+    checkRequest(request, client) {
+      const capability = getRequestedCapability(request);
+      if (!capability || policy.isAllowed(client, capability.kind, capability.name)) {
+        return undefined;
+      }
+
+      return {
+        code: ErrorCode.InvalidRequest,
+        message: `Access denied: ${KIND_LABELS[capability.kind]} "${capability.name}" is not allowed for this client`,
+      };
+    },
+
+    filterResult(request, result, client) {
+      const filter = LIST_FILTERS[request.method];
+      const entries = filter ? result[filter.key] : undefined;
+      if (!filter || !Array.isArray(entries)) {
+        return result;
+      }
+
+      return {
+        ...result,
+        [filter.key]: entries.filter((entry: Record<string, unknown>) =>
+          policy.isAllowed(client, filter.kind, String(entry[filter.field]))
+        ),
+      };
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RATE_LIMITED_ERROR_CODE, RateLimiter, createRateLimitGuard } from './rate-limit.ts';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const NOON = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+function createClock(start = NOON) {
+  const clock = { now: start, tick: (ms: number) => (clock.now += ms) };
+  return clock;
+}
+
+describe('RateLimiter', () => {
+  it('allows a burst per client and refills at the configured rate', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter(
+      { perClient: { requestsPerMinute: 60, burst: 2 } },
+      { now: () => clock.now }
+    );
+
+    expect(limiter.check(ALICE, 'tools/list')).toBeUndefined();
+    expect(limiter.check(ALICE, 'tools/call')).toBeUndefined();
+    expect(limiter.check(ALICE, 'tools/call')).toEqual({
+      scope: 'client',
+      retryAfterMs: 1000,
+      message: 'Rate limit exceeded for this client; retry after 1s',
+    });
+    expect(limiter.check(BOB, 'tools/call')).toBeUndefined();
+
+    clock.tick(1000);
+    expect(limiter.check(ALICE, 'tools/call')).toBeUndefined();
+  });
+
+  it('applies the global bucket across clients without draining rejected ones', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter(
+      {
+        perClient: { requestsPerMinute: 60, burst: 1 },
+        global: { requestsPerMinute: 6, burst: 2 },
+      },
+      { now: () => clock.now }
+    );
+
+    expect(limiter.check(ALICE, 'ping')).toBeUndefined();
+    expect(limiter.check(ALICE, 'ping')?.scope).toBe('client');
+    expect(limiter.check(BOB, 'ping')).toBeUndefined();
+    expect(limiter.check('c'.repeat(64), 'ping')).toMatchObject({
+      scope: 'global',
+      retryAfterMs: 10_000,
+    });
+  });
+
+  it('counts tool calls against daily quotas that reset at UTC midnight', () => {
+    const clock = createClock();
+    const limiter = new RateLimiter(
+      { dailyQuota: 2, globalDailyQuota: 3 },
+      { now: () => clock.now }
+    );
+
+    expect(limiter.check(ALICE, 'tools/call')).toBeUndefined();
+    expect(limiter.check(ALICE, 'tools/list')).toBeUndefined();
+    expect(limiter.check(ALICE, 'tools/call')).toBeUndefined();
+    expect(limiter.check(ALICE, 'tools/call')).toEqual({
+      scope: 'client-quota',
+      retryAfterMs: 12 * 60 * 60 * 1000,
+      message: 'Daily quota of 2 tool calls reached for this client; retry after 12h0m',
+    });
+    expect(limiter.check(BOB, 'tools/call')).toBeUndefined();
+    expect(limiter.check(BOB, 'tools/call')?.scope).toBe('global-quota');
+
+    clock.tick(12 * 60 * 60 * 1000);
+    expect(limiter.check(ALICE, 'tools/call')).toBeUndefined();
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new RateLimiter({ perClient: { requestsPerMinute: 0 } })).toThrow(
+      'serve.rateLimit.perClient.requestsPerMinute must be a positive number'
+    );
+    expect(() => new RateLimiter({ dailyQuota: 1.5 })).toThrow(
+      'serve.rateLimit.dailyQuota must be a positive integer'
+    );
+  });
+
+  describe('state file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'cvmi-rate-limit-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps counters across restarts', async () => {
+      const clock = createClock();
+      const stateFile = join(dir, 'nested', 'limits.json');
+      const config = { perClient: { requestsPerMinute: 1 }, dailyQuota: 5 };
+
+      const first = new RateLimiter(config, { stateFile, now: () => clock.now });
+      await first.load();
+      expect(first.check(ALICE, 'tools/call')).toBeUndefined();
+      await first.flush();
+
+      const saved = JSON.parse(await readFile(stateFile, 'utf-8'));
+      expect(saved).toMatchObject({ day: '2026-10-19', calls: { [ALICE]: 1, '*': 1 } });
+
+      const second = new RateLimiter(config, { stateFile, now: () => clock.now });
+      await second.load();
+      expect(second.check(ALICE, 'tools/call')?.scope).toBe('client');
+    });
+
+    it('reports a corrupt state file', async () => {
+      const stateFile = join(dir, 'limits.json');
+      await writeFile(stateFile, '{nope');
+
+      await expect(new RateLimiter({}, { stateFile }).load()).rejects.toThrow(
+        `Invalid rate limit state file ${stateFile}`
+      );
+    });
+  });
+});
+
+describe('createRateLimitGuard', () => {
+  it('returns a JSON-RPC error with retry-after data and ignores the gateway itself', () => {
+    const guard = createRateLimitGuard(
+      new RateLimiter({ perClient: { requestsPerMinute: 30, burst: 1 } }, { now: () => NOON })
+    );
+    const request = { jsonrpc: '2.0' as const, id: 'event-1', method: 'tools/list' };
+
+    expect(guard.checkRequest?.(request, ALICE)).toBeUndefined();
+    expect(guard.checkRequest?.(request, undefined)).toBeUndefined();
+    expect(guard.checkRequest?.(request, ALICE)).toEqual({
+      code: RATE_LIMITED_ERROR_CODE,
+      message: 'Rate limit exceeded for this client; retry after 2s',
+      data: { limit: 'client', retryAfterMs: 2000, retryAfter: 2 },
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Rate limits and daily quotas for `cvmi serve`, keyed by client pubkey.
+ *
+ * Token buckets throttle request bursts (per client and for the whole gateway);
+ * daily quotas cap `tools/call` requests per UTC day. Counters are written to a
+ * state file so restarting the gateway does not hand out a fresh allowance.
+ */
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { ServeRateLimitConfig, TokenBucketConfig } from '../config/index.ts';
+import type { RequestGuard } from './guard.ts';
+
+/** JSON-RPC error code for rate-limited requests (server-defined range, after HTTP 429). */
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+const GLOBAL_KEY = '*';
+const DEFAULT_SAVE_DELAY_MS = 1000;
+
+export type RateLimitScope = 'client' | 'global' | 'client-quota' | 'global-quota';
+
+export interface RateLimitRejection {
+  scope: RateLimitScope;
+  retryAfterMs: number;
+  message: string;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RateLimitState {
+  /** UTC day (YYYY-MM-DD) the call counters belong to */
+  day: string;
+  /** tools/call counts for `day`, by client pubkey, plus `*` for all clients */
+  calls: Record<string, number>;
+  /** Token buckets by client pubkey, plus `*` for the global bucket */
+  buckets: Record<string, BucketState>;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function msUntilNextUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1) - now;
+}
+
+function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+function validateBucket(bucket: TokenBucketConfig | undefined, path: string): void {
+  if (!bucket) return;
+  if (!(bucket.requestsPerMinute > 0)) {
+    throw new Error(`${path}.requestsPerMinute must be a positive number`);
+  }
+  if (bucket.burst !== undefined && !(bucket.burst >= 1)) {
+    throw new Error(`${path}.burst must be at least 1`);
+  }
+}
+
+function validateQuota(quota: number | undefined, path: string): void {
+  if (quota !== undefined && !(Number.isInteger(quota) && quota > 0)) {
+    throw new Error(`${path} must be a positive integer`);
+  }
+}
+
+export interface RateLimiterOptions {
+  /** File the counters are loaded from and saved to; in-memory only when omitted. */
+  stateFile?: string;
+  /** Clock, for tests. */
+  now?: () => number;
+  /** How long to batch counter changes before writing the state file. */
+  saveDelayMs?: number;
+}
+
+export class RateLimiter {
+  private state: RateLimitState;
+  private readonly now: () => number;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly config: ServeRateLimitConfig,
+    private readonly options: RateLimiterOptions = {}
+  ) {
+    validateBucket(config.perClient, 'serve.rateLimit.perClient');
+    validateBucket(config.global, 'serve.rateLimit.global');
+    validateQuota(config.dailyQuota, 'serve.rateLimit.dailyQuota');
+    validateQuota(config.globalDailyQuota, 'serve.rateLimit.globalDailyQuota');
+
+    this.now = options.now ?? Date.now;
+    this.state = { day: utcDay(this.now()), calls: {}, buckets: {} };
+  }
+
+  /**
+   * Restore counters from the state file. A missing file is not an error.
+   */
+  async load(): Promise<void> {
+    if (!this.options.stateFile) return;
+
+    let raw: string;
+    try {
+      raw = await readFile(this.options.stateFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let parsed: Partial<RateLimitState>;
+    try {
+      parsed = JSON.parse(raw) as Partial<RateLimitState>;
+    } catch (error) {
+      throw new Error(
+        `Invalid rate limit state file ${this.options.stateFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    this.state = {
+      day: typeof parsed.day === 'string' ? parsed.day : utcDay(this.now()),
+      calls: parsed.calls ?? {},
+      buckets: parsed.buckets ?? {},
+    };
+    this.rollDay(this.now());
+  }
+
+  /**
+   * Count a request from `client` against every configured limit. Nothing is
+   * consumed when any limit rejects it.
+   */
+  check(client: string, method: string): RateLimitRejection | undefined {
+    const now = this.now();
+    this.rollDay(now);
+
+    const isCall = method === 'tools/call';
+    const { dailyQuota, globalDailyQuota } = this.config;
+
+    if (isCall && dailyQuota !== undefined && (this.state.calls[client] ?? 0) >= dailyQuota) {
+      return this.reject(
+        'client-quota',
+        msUntilNextUtcDay(now),
+        `Daily quota of ${dailyQuota} tool calls reached for this client`
+      );
+    }
+
+    if (
+      isCall &&
+      globalDailyQuota !== undefined &&
+      (this.state.calls[GLOBAL_KEY] ?? 0) >= globalDailyQuota
+    ) {
+      return this.reject(
+        'global-quota',
+        msUntilNextUtcDay(now),
+        `Daily quota of ${globalDailyQuota} tool calls reached for this server`
+      );
+    }
+
+    const clientBucket = this.config.perClient
+      ? this.refill(client, this.config.perClient, now)
+      : undefined;
+    if (clientBucket && clientBucket.tokens < 1) {
+      return this.reject(
+        'client',
+        this.msUntilToken(clientBucket, this.config.perClient!),
+        'Rate limit exceeded for this client'
+      );
+    }
+
+    const globalBucket = this.config.global
+      ? this.refill(GLOBAL_KEY, this.config.global, now)
+      : undefined;
+    if (globalBucket && globalBucket.tokens < 1) {
+      return this.reject(
+        'global',
+        this.msUntilToken(globalBucket, this.config.global!),
+        'Rate limit exceeded for this server'
+      );
+    }
+
+    if (clientBucket) clientBucket.tokens -= 1;
+    if (globalBucket) globalBucket.tokens -= 1;
+    if (isCall) {
+      this.state.calls[client] = (this.state.calls[client] ?? 0) + 1;
+      this.state.calls[GLOBAL_KEY] = (this.state.calls[GLOBAL_KEY] ?? 0) + 1;
+    }
+    this.scheduleSave();
+    return undefined;
+  }
+
+  /** Write pending counter changes now. */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.saving = this.saving.then(() => this.save());
+    }
+    await this.saving;
+  }
+
+  private reject(scope: RateLimitScope, retryAfterMs: number, reason: string): RateLimitRejection {
+    return {
+      scope,
+      retryAfterMs,
+      message: `${reason}; retry after ${formatRetryAfter(retryAfterMs)}`,
+    };
+  }
+
+  private rollDay(now: number): void {
+    const day = utcDay(now);
+    if (this.state.day !== day) {
+      this.state.day = day;
+      this.state.calls = {};
+    }
+  }
+
+  private refill(key: string, config: TokenBucketConfig, now: number): BucketState {
+    const capacity = config.burst ?? config.requestsPerMinute;
+    const bucket = this.state.buckets[key] ?? { tokens: capacity, updatedAt: now };
+    const elapsed = Math.max(now - bucket.updatedAt, 0);
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (elapsed * config.requestsPerMinute) / 60_000
+    );
+    bucket.updatedAt = now;
+    this.state.buckets[key] = bucket;
+    return bucket;
+  }
+
+  private msUntilToken(bucket: BucketState, config: TokenBucketConfig): number {
+    return Math.ceil(((1 - bucket.tokens) * 60_000) / config.requestsPerMinute);
+  }
+
+  private scheduleSave(): void {
+    if (!this.options.stateFile || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saving = this.saving.then(() => this.save());
+    }, this.options.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private async save(): Promise<void> {
+    const stateFile = this.options.stateFile;
+    if (!stateFile) return;
+
+    // Full buckets carry no information; dropping them keeps the file small.
+    const now = this.now();
+    for (const key of Object.keys(this.state.buckets)) {
+      const config = key === GLOBAL_KEY ? this.config.global : this.config.perClient;
+      if (
+        !config ||
+        this.refill(key, config, now).tokens >= (config.burst ?? config.requestsPerMinute)
+      ) {
+        delete this.state.buckets[key];
+      }
+    }
+
+    try {
+      await mkdir(dirname(stateFile), { recursive: true });
+      const tmpFile = `${stateFile}.tmp`;
+      await writeFile(tmpFile, JSON.stringify(this.state, null, 2) + '\n', 'utf-8');
+      await rename(tmpFile, stateFile);
+    } catch {
+      // Best effort: a failed write only means counters may reset on restart.
+    }
+  }
+}
+
+/**
+ * Enforce a rate limiter in the gateway. The gateway's own requests (announcements)
+ * are not counted.
+ */
+export function createRateLimitGuard(limiter: RateLimiter): RequestGuard {
+  return {
+    checkRequest(request, client) {
+      if (!client) return undefined;
+
+      const rejection = limiter.check(client, request.method);
+      if (!rejection) return undefined;
+
+      return {
+        code: RATE_LIMITED_ERROR_CODE,
+        message: rejection.message,
+        data: {
+          limit: rejection.scope,
+          retryAfterMs: rejection.retryAfterMs,
+          retryAfter: Math.ceil(rejection.retryAfterMs / 1000),
+        },
+      };
+    },
+    close: () => limiter.flush(),
+  };
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { NostrMCPGateway } from '@contextvm/sdk';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { ServeConfig } from '../config/index.ts';
+import { checkConfigFiles, diffServeConfig, restartGateway, ReusableTransport } from './reload.ts';
+
+const base: ServeConfig = {
+  privateKey: '',
+  relays: ['wss://a'],
+  public: true,
+  allowedPubkeys: ['abc'],
+  serverInfo: { name: 'one' },
+};
+
+describe('diffServeConfig', () => {
+  it('separates live changes from changes that need a restart', () => {
+    expect(
+      diffServeConfig(base, {
+        ...base,
+        relays: ['wss://a', 'wss://b'],
+        allowedPubkeys: undefined,
+        serverInfo: { name: 'two' },
+        command: 'node',
+      })
+    ).toEqual({ live: ['relays', 'allowedPubkeys', 'serverInfo'], restart: ['command'] });
+    expect(diffServeConfig(base, { ...base })).toEqual({ live: [], restart: [] });
+  });
+});
+
+describe('checkConfigFiles', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('rejects invalid JSON and ignores missing files', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cvmi-reload-'));
+    const valid = join(dir, 'valid.json');
+    const invalid = join(dir, 'invalid.json');
+    await writeFile(valid, '{"serve":{}}');
+    await writeFile(invalid, '{"serve":');
+
+    await expect(checkConfigFiles([valid, join(dir, 'missing.json')])).resolves.toBeUndefined();
+    await expect(checkConfigFiles([valid, invalid])).rejects.toThrow(invalid);
+  });
+});
+
+describe('restartGateway', () => {
+  // Starts and stops its MCP transport the way NostrMCPGateway does.
+  function createGateway(transport: Transport, startError?: Error) {
+    return {
+      start: async () => {
+        await transport.start();
+        if (startError) {
+          await transport.close();
+          throw startError;
+        }
+      },
+      stop: () => transport.close(),
+    } as unknown as NostrMCPGateway;
+  }
+
+  it('starts a new gateway on the MCP transport without closing it', async () => {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const start = vi.spyOn(clientSide, 'start');
+    let closed = false;
+    serverSide.onclose = () => (closed = true);
+    const transport = new ReusableTransport(clientSide);
+    const first = createGateway(transport);
+    await first.start();
+
+    const second = createGateway(transport);
+    const restarted = await restartGateway(
+      first,
+      () => second,
+      () => first,
+      [transport]
+    );
+    expect(restarted).toEqual({ gateway: second });
+
+    const failure = new Error('invalid relay URL');
+    const fallback = createGateway(transport);
+    const reverted = await restartGateway(
+      second,
+      () => createGateway(transport, failure),
+      () => fallback,
+      [transport]
+    );
+    expect(reverted).toEqual({ gateway: fallback, error: failure });
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(closed).toBe(false);
+
+    await fallback.stop();
+    expect(closed).toBe(true);
+  });
+
+  it('forwards messages to whichever gateway is listening', async () => {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const transport = new ReusableTransport(clientSide);
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+    await transport.start();
+    await serverSide.start();
+
+    await serverSide.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    expect(received).toEqual([{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }]);
+  });
+});
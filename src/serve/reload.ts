@@ -0,0 +1,157 @@
+/**
+ * Live reload of `cvmi serve` configuration: which settings changed, watching the config
+ * files, and restarting the Nostr side of the gateway without its MCP server.
+ */
+import { readFile } from 'fs/promises';
+import { unwatchFile, watchFile } from 'fs';
+import type { Stats } from 'fs';
+import type { NostrMCPGateway } from '@contextvm/sdk';
+import type { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { ServeConfig } from '../config/index.ts';
+
+/** Settings a running gateway applies without a restart. */
+export const LIVE_SERVE_KEYS = ['relays', 'allowedPubkeys', 'serverInfo'] as const;
+
+export type LiveServeKey = (typeof LIVE_SERVE_KEYS)[number];
+
+export interface ServeConfigChanges {
+  /** Changed settings that can be applied live */
+  live: LiveServeKey[];
+  /** Changed settings that only take effect after a restart */
+  restart: string[];
+}
+
+/** Compare two resolved serve configs key by key. */
+export function diffServeConfig(previous: ServeConfig, next: ServeConfig): ServeConfigChanges {
+  const changes: ServeConfigChanges = { live: [], restart: [] };
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as Array<
+    keyof ServeConfig
+  >);
+
+  for (const key of keys) {
+    if (JSON.stringify(previous[key]) === JSON.stringify(next[key])) continue;
+    if ((LIVE_SERVE_KEYS as readonly string[]).includes(key)) {
+      changes.live.push(key as LiveServeKey);
+    } else {
+      changes.restart.push(key);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Make sure every existing config file is valid JSON. The loader treats an unreadable
+ * file as empty, which would silently drop settings such as `allowedPubkeys` while the
+ * user is still editing.
+ */
+export async function checkConfigFiles(paths: string[]): Promise<void> {
+  for (const path of paths) {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      continue;
+    }
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Call `onChange` when any of `paths` is created, modified or deleted. Files are polled,
+ * which also catches editors that save by replacing the file. Returns a function that
+ * stops watching.
+ */
+export function watchConfigFiles(
+  paths: string[],
+  onChange: (path: string) => void,
+  intervalMs = 1000
+): () => void {
+  const listeners = paths.map((path) => {
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) onChange(path);
+    };
+    watchFile(path, { interval: intervalMs, persistent: false }, listener);
+    return { path, listener };
+  });
+
+  return () => {
+    for (const { path, listener } of listeners) unwatchFile(path, listener);
+  };
+}
+
+/**
+ * MCP transport that outlives the gateway using it. A config reload stops the gateway and
+ * starts a new one with the new relays and server info; the MCP server connection is kept
+ * open in between, so it is neither restarted nor initialized again.
+ */
+export class ReusableTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private started = false;
+  private keepOpen = false;
+
+  constructor(private readonly inner: Transport) {
+    inner.onmessage = (message, extra) => this.onmessage?.(message, extra);
+    inner.onerror = (error) => this.onerror?.(error);
+    inner.onclose = () => this.onclose?.();
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    await this.inner.start();
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    return this.inner.send(message, options);
+  }
+
+  async close(): Promise<void> {
+    if (!this.keepOpen) await this.inner.close();
+  }
+
+  /** Run `fn` with `close()` leaving the MCP server connection open. */
+  static async keepOpen<T>(transports: ReusableTransport[], fn: () => Promise<T>): Promise<T> {
+    for (const transport of transports) transport.keepOpen = true;
+    try {
+      return await fn();
+    } finally {
+      for (const transport of transports) transport.keepOpen = false;
+    }
+  }
+}
+
+/**
+ * Replace `current` with the gateway `createNext` builds, keeping the MCP transports in
+ * `keep` open. When the new gateway fails to start, the one `createPrevious` builds is
+ * started instead and the error is returned with it.
+ */
+export async function restartGateway(
+  current: NostrMCPGateway,
+  createNext: () => NostrMCPGateway,
+  createPrevious: () => NostrMCPGateway,
+  keep: ReusableTransport[]
+): Promise<{ gateway: NostrMCPGateway; error?: unknown }> {
+  return ReusableTransport.keepOpen(keep, async () => {
+    await current.stop();
+    const next = createNext();
+    try {
+      await next.start();
+      return { gateway: next };
+    } catch (error) {
+      const previous = createPrevious();
+      await previous.start();
+      return { gateway: previous, error };
+    }
+  });
+}
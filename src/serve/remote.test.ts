@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createRemoteMcpTransport, isRemoteUrl, resolveRemoteTransport } from './remote.ts';
+
+describe('resolveRemoteTransport', () => {
+  it('picks a transport from the URL and rejects mismatched ones', () => {
+    expect(isRemoteUrl('wss://mcp.example.com/ws')).toBe(true);
+    expect(isRemoteUrl('npx')).toBe(false);
+    expect(resolveRemoteTransport('wss://mcp.example.com/ws')).toBe('ws');
+    expect(resolveRemoteTransport('https://mcp.example.com/sse')).toBe('sse');
+    expect(resolveRemoteTransport('https://mcp.example.com/mcp')).toBe('auto');
+    expect(resolveRemoteTransport('https://mcp.example.com/sse', 'streamable')).toBe('streamable');
+    expect(() => resolveRemoteTransport('https://mcp.example.com', 'ws')).toThrow(
+      'WebSocket transport needs a ws:// or wss:// URL'
+    );
+    expect(() => resolveRemoteTransport('ws://mcp.example.com', 'sse')).toThrow(
+      'sse transport needs an http(s) URL'
+    );
+  });
+});
+
+describe('auto transport', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise((resolve) => server?.close(resolve));
+  });
+
+  it('falls back to HTTP+SSE when Streamable HTTP is rejected', async () => {
+    const mcp = new McpServer({ name: 'legacy', version: '1.0.0' });
+    mcp.registerTool('ping', { description: 'Ping' }, async () => ({
+      content: [{ type: 'text', text: 'pong' }],
+    }));
+
+    // Legacy server: GET /mcp opens the SSE stream, POST /mcp is not supported.
+    let sse: SSEServerTransport | undefined;
+    server = createServer((req, res) => {
+      if (req.method === 'GET' && req.url === '/mcp') {
+        sse = new SSEServerTransport('/messages', res);
+        void mcp.connect(sse);
+      } else if (req.method === 'POST' && req.url?.startsWith('/messages') && sse) {
+        void sse.handlePostMessage(req, res);
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(createRemoteMcpTransport(`http://127.0.0.1:${port}/mcp`));
+    try {
+      expect((await client.listTools()).tools.map((tool) => tool.name)).toEqual(['ping']);
+      expect(sse).toBeDefined();
+    } finally {
+      await client.close();
+    }
+  });
+});
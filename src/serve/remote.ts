@@ -0,0 +1,255 @@
+/**
+ * Transports for remote MCP servers: Streamable HTTP, the legacy HTTP+SSE transport and
+ * WebSocket. `auto` picks WebSocket for ws(s) URLs, SSE for URLs ending in `/sse`, and
+ * otherwise tries Streamable HTTP and falls back to SSE when the server rejects it.
+ */
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
+import type {
+  FetchLike,
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
+import type { ServeHttpAuthConfig } from '../config/index.ts';
+import { createAuthFetch } from './http-auth.ts';
+
+export const REMOTE_TRANSPORTS = ['auto', 'streamable', 'sse', 'ws'] as const;
+
+export type RemoteTransport = (typeof REMOTE_TRANSPORTS)[number];
+
+/**
+ * Status codes of a Streamable HTTP POST that mean "this is an HTTP+SSE server", as in the
+ * MCP backwards-compatibility guidance.
+ */
+const SSE_FALLBACK_STATUSES = new Set([400, 404, 405]);
+
+/** How long a Streamable HTTP GET (SSE push channel) may take before it is treated as absent. */
+const GET_TIMEOUT_MS = 3000;
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/** http(s) or ws(s) URL, i.e. a target that is connected to rather than spawned. */
+export function isRemoteUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:', 'ws:', 'wss:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the transport for `url`. Throws when an explicit transport does not fit the URL
+ * scheme. `auto` stays `auto` for http(s) URLs that could be either HTTP transport.
+ */
+export function resolveRemoteTransport(
+  url: string,
+  transport: RemoteTransport = 'auto'
+): RemoteTransport {
+  const { protocol, pathname } = new URL(url);
+  const isWebSocket = protocol === 'ws:' || protocol === 'wss:';
+  if (transport === 'auto') {
+    if (isWebSocket) return 'ws';
+    return /\/sse\/?$/.test(pathname) ? 'sse' : 'auto';
+  }
+  if ((transport === 'ws') !== isWebSocket) {
+    throw new Error(
+      transport === 'ws'
+        ? `WebSocket transport needs a ws:// or wss:// URL: ${url}`
+        : `${transport} transport needs an http(s) URL: ${url}`
+    );
+  }
+  return transport;
+}
+
+export function createStreamableHttpMcpTransport(
+  target: string,
+  baseFetch: FetchLike = fetch
+): Transport {
+  const url = new URL(target);
+
+  // Streamable HTTP transport *optionally* supports GET (SSE stream) as a push channel.
+  // Some servers incorrectly hang or time out on GET instead of returning 405.
+  // The MCP SDK treats 405 as "no GET SSE" and proceeds in POST-only mode.
+  // We auto-fallback to POST-only if GET does not respond quickly.
+  return new StreamableHTTPClientTransport(url, {
+    fetch: async (input, init) => {
+      const method = (init?.method ?? 'GET').toUpperCase();
+      if (method !== 'GET') {
+        return baseFetch(input, init);
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), GET_TIMEOUT_MS);
+      try {
+        const response = await baseFetch(input, {
+          ...init,
+          signal: controller.signal,
+        });
+        return response;
+      } catch {
+        // Treat GET SSE failures/timeouts as "GET not supported".
+        return new Response(null, { status: 405, statusText: 'Method Not Allowed' });
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  });
+}
+
+export function createSseMcpTransport(target: string, baseFetch?: FetchLike): Transport {
+  return new SSEClientTransport(new URL(target), baseFetch ? { fetch: baseFetch } : undefined);
+}
+
+export function createWebSocketMcpTransport(target: string): Transport {
+  return new WebSocketClientTransport(new URL(target));
+}
+
+/**
+ * Transport for an http(s) server that may speak either HTTP transport. Nothing is connected
+ * until the first message (normally `initialize`): it is POSTed over Streamable HTTP, and if
+ * the server answers 400, 404 or 405 the connection is reopened over HTTP+SSE and the message
+ * is sent again. Later messages use whichever transport worked.
+ */
+export class StreamableOrSseTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private transport: Transport | undefined;
+  private connecting: Promise<void> | undefined;
+  private closed = false;
+
+  constructor(
+    private readonly createStreamable: () => Transport,
+    private readonly createSse: () => Transport
+  ) {}
+
+  get sessionId(): string | undefined {
+    return this.transport?.sessionId;
+  }
+
+  async start(): Promise<void> {
+    // Connected lazily by the first send, so the first message can pick the transport.
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (this.transport) return this.transport.send(message, options);
+    if (this.connecting) {
+      await this.connecting;
+      return this.send(message, options);
+    }
+
+    this.connecting = this.connect(message, options);
+    try {
+      await this.connecting;
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    const transport = this.transport;
+    if (transport) {
+      await transport.close();
+    } else {
+      this.onclose?.();
+    }
+  }
+
+  setProtocolVersion(version: string): void {
+    this.transport?.setProtocolVersion?.(version);
+  }
+
+  private async connect(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    const streamable = this.wire(this.createStreamable());
+    try {
+      await streamable.start();
+      await streamable.send(message, options);
+      this.transport = streamable;
+      return;
+    } catch (error) {
+      await streamable.close().catch(() => {});
+      if (!(error instanceof StreamableHTTPError) || !SSE_FALLBACK_STATUSES.has(error.code ?? 0)) {
+        throw error;
+      }
+    }
+
+    const sse = this.wire(this.createSse());
+    try {
+      await sse.start();
+      await sse.send(message, options);
+    } catch (error) {
+      await sse.close().catch(() => {});
+      throw error;
+    }
+    this.transport = sse;
+  }
+
+  /** Forward events, but only from the transport in use (not from a rejected probe). */
+  private wire(transport: Transport): Transport {
+    transport.onmessage = (message, extra) => this.onmessage?.(message, extra);
+    transport.onerror = (error) => {
+      if (this.transport === transport) this.onerror?.(error);
+    };
+    transport.onclose = () => {
+      if (this.transport === transport) this.onclose?.();
+    };
+    return transport;
+  }
+}
+
+/**
+ * Create the client transport for a remote MCP server URL.
+ */
+export function createRemoteMcpTransport(
+  target: string,
+  transport: RemoteTransport = 'auto',
+  baseFetch?: FetchLike
+): Transport {
+  switch (resolveRemoteTransport(target, transport)) {
+    case 'streamable':
+      return createStreamableHttpMcpTransport(target, baseFetch);
+    case 'sse':
+      return createSseMcpTransport(target, baseFetch);
+    case 'ws':
+      if (baseFetch) throw new Error(`Authentication is not supported for WebSocket targets`);
+      return createWebSocketMcpTransport(target);
+    case 'auto':
+      return new StreamableOrSseTransport(
+        () => createStreamableHttpMcpTransport(target, baseFetch),
+        () => createSseMcpTransport(target, baseFetch)
+      );
+  }
+}
+
+/**
+ * Factory for fresh transports to one remote MCP server (one per Nostr client, plus the
+ * announcement transport). The transport kind and credentials are resolved once, so
+ * configuration errors surface at startup and every transport shares one OAuth token.
+ */
+export function createRemoteTransportFactory(
+  target: string,
+  transport: RemoteTransport = 'auto',
+  auth?: ServeHttpAuthConfig
+): () => Transport {
+  const kind = resolveRemoteTransport(target, transport);
+  if (auth && kind === 'ws') {
+    throw new Error(`Authentication is not supported for WebSocket targets: ${target}`);
+  }
+  const authFetch = auth ? createAuthFetch(auth) : undefined;
+  return () => createRemoteMcpTransport(target, kind, authFetch);
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LATEST_PROTOCOL_VERSION, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  HEALTH_META_KEY,
+  LineRingBuffer,
+  SupervisedTransport,
+  getRestartDelay,
+} from './supervisor.ts';
+import type { SupervisedTransportOptions, TargetHealth } from './supervisor.ts';
+
+const INITIALIZE_PARAMS = {
+  protocolVersion: LATEST_PROTOCOL_VERSION,
+  capabilities: {},
+  clientInfo: { name: 'test', version: '1.0.0' },
+};
+
+/** Each call starts a fresh server; `runs[n]` crashes run n+1 by closing it. */
+function createServerFactory() {
+  const runs: McpServer[] = [];
+  const createTransport = (): Transport => {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const run = runs.length + 1;
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    server.registerTool('echo', {}, async () => ({
+      content: [{ type: 'text', text: `run ${run}` }],
+    }));
+    server.registerTool('hang', {}, () => new Promise(() => {}));
+    void server.connect(serverSide);
+    runs.push(server);
+    return clientSide;
+  };
+  return { runs, createTransport };
+}
+
+async function startSupervised(options: SupervisedTransportOptions) {
+  const health: TargetHealth[] = [];
+  const transport = new SupervisedTransport({
+    initialDelayMs: 5,
+    ...options,
+    onHealthChange: (state, info) => {
+      health.push(state);
+      options.onHealthChange?.(state, info);
+    },
+  });
+  const messages: Array<Record<string, any>> = [];
+  transport.onmessage = (message: JSONRPCMessage) => messages.push(message);
+  await transport.start();
+
+  const response = (id: string) =>
+    vi.waitFor(() => {
+      const message = messages.find((m) => m.id === id && ('result' in m || 'error' in m));
+      expect(message).toBeDefined();
+      return message!;
+    });
+
+  return { transport, messages, health, response };
+}
+
+describe('getRestartDelay', () => {
+  it('doubles from the initial delay up to the maximum', () => {
+    expect([1, 2, 3, 4, 10].map((n) => getRestartDelay(n, 1000, 5000))).toEqual([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+});
+
+describe('LineRingBuffer', () => {
+  it('keeps the last lines across chunk boundaries', () => {
+    const buffer = new LineRingBuffer(2);
+    buffer.push('one\ntw');
+    buffer.push('o\nthree\nfou');
+
+    expect(buffer.getLines()).toEqual(['three', 'fou']);
+  });
+});
+
+describe('SupervisedTransport', () => {
+  it('restarts a crashed server, fails in-flight requests and holds new ones', async () => {
+    const { runs, createTransport } = createServerFactory();
+    const { transport, health, response } = await startSupervised({ createTransport });
+
+    await transport.send({
+      jsonrpc: '2.0',
+      id: 'init',
+      method: 'initialize',
+      params: INITIALIZE_PARAMS,
+    });
+    await response('init');
+    await transport.send({
+      jsonrpc: '2.0',
+      id: 'hang',
+      method: 'tools/call',
+      params: { name: 'hang', arguments: {} },
+    });
+
+    await runs[0]!.close();
+    expect((await response('hang')).error.message).toBe('MCP server exited before responding');
+    expect(transport.getHealth()).toBe('restarting');
+
+    await transport.send({
+      jsonrpc: '2.0',
+      id: 'echo',
+      method: 'tools/call',
+      params: { name: 'echo', arguments: {} },
+    });
+    expect((await response('echo')).result.content).toEqual([{ type: 'text', text: 'run 2' }]);
+    expect(health).toEqual(['restarting', 'up']);
+  });
+
+  it('gives up after maxRestarts consecutive failures', async () => {
+    const { runs, createTransport } = createServerFactory();
+    let launches = 0;
+    const { transport, health, response } = await startSupervised({
+      maxRestarts: 2,
+      createTransport: () => {
+        if (++launches === 1) return createTransport();
+        return {
+          start: () => Promise.reject(new Error('spawn ENOENT')),
+          send: async () => {},
+          close: async () => {},
+        };
+      },
+    });
+
+    await runs[0]!.close();
+    await vi.waitFor(() => expect(transport.getHealth()).toBe('failed'));
+    expect(health).toEqual(['restarting', 'restarting', 'failed']);
+
+    await transport.send({ jsonrpc: '2.0', id: 'late', method: 'tools/list' });
+    expect((await response('late')).error.message).toBe(
+      'MCP server is down (gave up after 2 restarts)'
+    );
+  });
+
+  it('republishes the announcement with its health while the server is down', async () => {
+    const { runs, createTransport } = createServerFactory();
+    const { transport, messages } = await startSupervised({
+      createTransport,
+      announceHealth: true,
+    });
+
+    await transport.send({
+      jsonrpc: '2.0',
+      id: 'cvmi-guard-1',
+      method: 'initialize',
+      params: INITIALIZE_PARAMS,
+    });
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+
+    await runs[0]!.close();
+    await vi.waitFor(() => expect(messages).toHaveLength(3));
+
+    const statuses = messages.map((m) => m.result._meta?.[HEALTH_META_KEY]?.status);
+    expect(statuses).toEqual([undefined, 'down', 'up']);
+    expect(messages.map((m) => m.id)).toEqual(['cvmi-guard-1', 'announcement', 'announcement']);
+    expect(messages.every((m) => m.result.serverInfo)).toBe(true);
+  });
+
+  it('does not forward the initialized notifications sent for republished announcements', async () => {
+    const { runs, createTransport } = createServerFactory();
+    const sent: string[] = [];
+    const { transport, messages } = await startSupervised({
+      createTransport: () => {
+        const child = createTransport();
+        const send = child.send.bind(child);
+        child.send = (message) => {
+          if ('method' in message) sent.push(message.method);
+          return send(message);
+        };
+        return child;
+      },
+      announceHealth: true,
+    });
+    // Like the gateway, answer every initialize result with notifications/initialized.
+    transport.onmessage = (message: JSONRPCMessage) => {
+      messages.push(message);
+      void transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    };
+
+    await transport.send({
+      jsonrpc: '2.0',
+      id: 'cvmi-guard-1',
+      method: 'initialize',
+      params: INITIALIZE_PARAMS,
+    });
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    await runs[0]!.close();
+    await vi.waitFor(() => expect(messages).toHaveLength(3));
+
+    expect(sent).toEqual([
+      'initialize',
+      'notifications/initialized',
+      'initialize',
+      'notifications/initialized',
+    ]);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Supervision for the stdio MCP server behind `cvmi serve`.
+ *
+ * The gateway keeps talking to one transport for its whole life. This transport
+ * restarts the child behind it with exponential backoff when it dies, replays the
+ * MCP initialize handshake on the new process, and holds requests that arrive
+ * while it is down. Public announcements are republished with the health state.
+ */
+import {
+  ErrorCode,
+  isJSONRPCErrorResponse,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  JSONRPCMessage,
+  JSONRPCRequest,
+  RequestId,
+  Result,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export type TargetHealth = 'up' | 'restarting' | 'failed';
+
+export interface TargetHealthInfo {
+  /** Consecutive restarts so far */
+  restarts: number;
+  /** Delay before the next restart attempt (restarting only) */
+  delayMs?: number;
+  /** Why the previous process stopped, when known */
+  reason?: string;
+}
+
+export interface SupervisedTransportOptions {
+  createTransport: () => Transport;
+  /** Consecutive restarts before giving up. @default 5 */
+  maxRestarts?: number;
+  /** Delay before the first restart; doubled for each further one. @default 1000 */
+  initialDelayMs?: number;
+  /** Upper bound for the restart delay. @default 30000 */
+  maxDelayMs?: number;
+  /** Uptime after which the restart count starts over. @default 60000 */
+  stableAfterMs?: number;
+  /** Timeout for replaying initialize on a restarted process. @default 30000 */
+  initializeTimeoutMs?: number;
+  /** Republish the server announcement with the health state (public gateways). */
+  announceHealth?: boolean;
+  onHealthChange?: (health: TargetHealth, info: TargetHealthInfo) => void;
+}
+
+/** `_meta` key carrying the health state in republished server announcements. */
+export const HEALTH_META_KEY = 'cvmi/health';
+
+/** Requests held while the server restarts; later ones are answered with an error. */
+const MAX_QUEUED_REQUESTS = 100;
+const ANNOUNCEMENT_ID = 'announcement';
+
+export function getRestartDelay(restart: number, initialDelayMs: number, maxDelayMs: number) {
+  return Math.min(initialDelayMs * 2 ** Math.max(restart - 1, 0), maxDelayMs);
+}
+
+/**
+ * Keeps the last lines written to a stream, e.g. a child's stderr, so they can be
+ * shown when the process dies.
+ */
+export class LineRingBuffer {
+  private readonly lines: string[] = [];
+  private partial = '';
+
+  constructor(private readonly maxLines = 20) {}
+
+  push(chunk: string): void {
+    const parts = (this.partial + chunk).split(/\r?\n/);
+    this.partial = parts.pop() ?? '';
+    this.lines.push(...parts);
+    if (this.lines.length > this.maxLines) {
+      this.lines.splice(0, this.lines.length - this.maxLines);
+    }
+  }
+
+  getLines(): string[] {
+    const lines = this.partial ? [...this.lines, this.partial] : [...this.lines];
+    return lines.slice(-this.maxLines);
+  }
+
+  clear(): void {
+    this.lines.length = 0;
+    this.partial = '';
+  }
+}
+
+export class SupervisedTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private child?: Transport;
+  /** Incremented per child so late events from a replaced one are ignored. */
+  private generation = 0;
+  private health: TargetHealth = 'up';
+  private restarts = 0;
+  private restarting = false;
+  private stopped = false;
+  private restartTimer?: ReturnType<typeof setTimeout>;
+  private stableTimer?: ReturnType<typeof setTimeout>;
+  private readonly inFlight = new Set<RequestId>();
+  /** Forwarded initialize requests whose result is still outstanding. */
+  private readonly initializeRequests = new Set<RequestId>();
+  private queue: JSONRPCRequest[] = [];
+  private readonly internalRequests = new Map<
+    string,
+    { resolve: (result: Result) => void; reject: (error: Error) => void }
+  >();
+  private nextInternalId = 0;
+  /** The last initialize params a client sent, replayed on every restart. */
+  private initializeParams?: JSONRPCRequest['params'];
+  /** The running process's initialize result, republished as the server announcement. */
+  private announcement?: Result;
+  /**
+   * `notifications/initialized` the gateway still owes for republished announcements.
+   * The restart already sent one, so these are not forwarded.
+   */
+  private republishedAnnouncements = 0;
+
+  constructor(private readonly options: SupervisedTransportOptions) {}
+
+  getHealth(): TargetHealth {
+    return this.health;
+  }
+
+  private get maxRestarts(): number {
+    return this.options.maxRestarts ?? 5;
+  }
+
+  async start(): Promise<void> {
+    await this.launch();
+  }
+
+  async close(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.restartTimer);
+    clearTimeout(this.stableTimer);
+
+    if (this.child) {
+      await this.child.close();
+    } else {
+      this.onclose?.();
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (
+      isJSONRPCNotification(message) &&
+      message.method === 'notifications/initialized' &&
+      this.republishedAnnouncements > 0
+    ) {
+      this.republishedAnnouncements -= 1;
+      return;
+    }
+
+    if (isJSONRPCRequest(message) && message.method === 'initialize') {
+      this.initializeParams = message.params;
+      this.initializeRequests.add(message.id);
+    }
+
+    if (this.health !== 'up' || !this.child) {
+      // Notifications (initialized, cancelled, ...) are moot for a process that is
+      // gone; the restart replays the handshake itself.
+      if (!isJSONRPCRequest(message)) return;
+
+      if (this.health === 'restarting' && this.queue.length < MAX_QUEUED_REQUESTS) {
+        this.queue.push(message);
+      } else {
+        this.respondWithError(
+          message.id,
+          this.health === 'failed'
+            ? this.failedMessage()
+            : 'MCP server is restarting; try again shortly'
+        );
+      }
+      return;
+    }
+
+    if (isJSONRPCRequest(message)) {
+      this.inFlight.add(message.id);
+    }
+    await this.child.send(message);
+  }
+
+  private async launch(): Promise<void> {
+    const generation = ++this.generation;
+    const child = this.options.createTransport();
+    this.child = child;
+
+    child.onmessage = (message) => {
+      if (generation === this.generation) this.handleChildMessage(message);
+    };
+    child.onerror = (error) => {
+      if (generation === this.generation) this.onerror?.(error);
+    };
+    child.onclose = () => {
+      if (generation === this.generation) this.handleChildClose();
+    };
+
+    await child.start();
+    this.scheduleStableReset();
+  }
+
+  private handleChildMessage(message: JSONRPCMessage): void {
+    if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      const internal = this.internalRequests.get(String(message.id));
+      if (internal) {
+        this.internalRequests.delete(String(message.id));
+        if (isJSONRPCResultResponse(message)) {
+          internal.resolve(message.result);
+        } else {
+          internal.reject(new Error(message.error.message));
+        }
+        return;
+      }
+
+      if (message.id !== undefined) {
+        this.inFlight.delete(message.id);
+        if (this.initializeRequests.delete(message.id) && isJSONRPCResultResponse(message)) {
+          this.announcement = message.result;
+        }
+      }
+    }
+
+    this.onmessage?.(message);
+  }
+
+  private handleChildClose(): void {
+    this.child = undefined;
+    clearTimeout(this.stableTimer);
+
+    if (this.stopped) {
+      this.onclose?.();
+      return;
+    }
+
+    for (const internal of this.internalRequests.values()) {
+      internal.reject(new Error('MCP server exited'));
+    }
+    this.internalRequests.clear();
+
+    // A restart attempt in progress handles its own failure.
+    if (this.restarting) return;
+
+    for (const id of this.inFlight) {
+      this.respondWithError(id, 'MCP server exited before responding');
+    }
+    this.inFlight.clear();
+    this.initializeRequests.clear();
+
+    if (this.health === 'up') this.publishHealth('down');
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(reason?: string): void {
+    this.restarts += 1;
+
+    if (this.restarts > this.maxRestarts) {
+      this.health = 'failed';
+      for (const request of this.queue) {
+        this.respondWithError(request.id, this.failedMessage());
+      }
+      this.queue = [];
+      this.options.onHealthChange?.('failed', { restarts: this.maxRestarts, reason });
+      return;
+    }
+
+    const delayMs = getRestartDelay(
+      this.restarts,
+      this.options.initialDelayMs ?? 1000,
+      this.options.maxDelayMs ?? 30_000
+    );
+    this.health = 'restarting';
+    this.options.onHealthChange?.('restarting', { restarts: this.restarts, delayMs, reason });
+    this.restartTimer = setTimeout(() => void this.restart(), delayMs);
+  }
+
+  private async restart(): Promise<void> {
+    if (this.stopped) return;
+    this.restarting = true;
+
+    try {
+      await this.launch();
+      if (this.initializeParams) {
+        const result = await this.requestChild('initialize', this.initializeParams);
+        await this.child?.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+        this.announcement = result;
+      }
+    } catch (error) {
+      const child = this.child;
+      this.generation += 1;
+      this.child = undefined;
+      await child?.close().catch(() => {});
+      this.restarting = false;
+      this.scheduleRestart(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    this.restarting = false;
+    this.health = 'up';
+    this.options.onHealthChange?.('up', { restarts: this.restarts });
+    this.publishHealth('up');
+
+    const queued = this.queue;
+    this.queue = [];
+    for (const request of queued) {
+      await this.send(request).catch((error: unknown) => {
+        this.respondWithError(request.id, error instanceof Error ? error.message : String(error));
+      });
+    }
+  }
+
+  private scheduleStableReset(): void {
+    clearTimeout(this.stableTimer);
+    this.stableTimer = setTimeout(() => {
+      this.restarts = 0;
+    }, this.options.stableAfterMs ?? 60_000);
+    this.stableTimer.unref?.();
+  }
+
+  private requestChild(method: string, params: JSONRPCRequest['params']): Promise<Result> {
+    const child = this.child;
+    if (!child) return Promise.reject(new Error('MCP server exited'));
+
+    const id = `cvmi-supervisor-${++this.nextInternalId}`;
+    const timeoutMs = this.options.initializeTimeoutMs ?? 30_000;
+
+    return new Promise<Result>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.internalRequests.delete(id);
+        reject(new Error(`MCP server did not answer ${method} within ${timeoutMs} ms`));
+      }, timeoutMs);
+
+      this.internalRequests.set(id, {
+        resolve: (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      child.send({ jsonrpc: '2.0', id, method, params }).catch((error: unknown) => {
+        this.internalRequests.delete(id);
+        clearTimeout(timer);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  /**
+   * Republish the server announcement tagged with the current health. The gateway
+   * publishes any `announcement` response it receives, so this needs no SDK hooks;
+   * it answers an initialize result with `notifications/initialized`, which `send()`
+   * drops.
+   */
+  private publishHealth(status: 'up' | 'down'): void {
+    if (!this.options.announceHealth || !this.announcement) return;
+
+    this.republishedAnnouncements += 1;
+    this.onmessage?.({
+      jsonrpc: '2.0',
+      id: ANNOUNCEMENT_ID,
+      result: {
+        ...this.announcement,
+        _meta: {
+          ...this.announcement._meta,
+          [HEALTH_META_KEY]: { status, since: new Date().toISOString() },
+        },
+      },
+    });
+  }
+
+  private failedMessage(): string {
+    return `MCP server is down (gave up after ${this.maxRestarts} restarts)`;
+  }
+
+  private respondWithError(id: RequestId, message: string): void {
+    this.onmessage?.({
+      jsonrpc: '2.0',
+      id,
+      error: { code: ErrorCode.InternalError, message },
+    });
+  }
+}
@@ -3,13 +3,35 @@
  */
 import * as p from '@clack/prompts';
 import pc from 'picocolors';
+import type { Server } from 'http';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { NostrMCPProxy, PrivateKeySigner, EncryptionMode } from '@contextvm/sdk';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ApplesauceRelayPool,
+  NostrMCPProxy,
+  PrivateKeySigner,
+  EncryptionMode,
+} from '@contextvm/sdk';
+import { NostrClientTransport } from '@contextvm/sdk/transport';
 import { loadConfig, getUseConfig, DEFAULT_RELAYS } from './config/index.ts';
 import { generatePrivateKey, normalizePrivateKey } from './utils/crypto.ts';
 import { waitForShutdownSignal } from './utils/process.ts';
 import { BOLD, DIM, RESET } from './constants/ui.ts';
 import { savePrivateKeyToEnv } from './config/loader.ts';
+import {
+  CvmiMetrics,
+  MeteredHostTransport,
+  MeteredRelayHandler,
+  startMetricsServer,
+} from './metrics.ts';
+import { formatListenAddress, parseListenAddress } from './utils/listen.ts';
+import type { ListenAddress } from './utils/listen.ts';
+import { HttpSessionHost, MCP_PATH } from './use/http-host.ts';
+import { SharedRelayHandler } from './use/shared-relay.ts';
+import { RelayConnectionTracker } from './utils/relay-status.ts';
+import { resolveUseServers, TransportProxy } from './use/aggregate.ts';
+import type { UseServerTarget } from './use/aggregate.ts';
+import { FanOutTransport } from './serve/fan-out.ts';
 
 /** CLI options for the use command */
 export interface UseOptions {
@@ -19,37 +41,78 @@ export interface UseOptions {
   encryption?: EncryptionMode;
   verbose?: boolean;
   persistPrivateKey?: boolean;
+  /** Port or host:port for the Prometheus /metrics endpoint */
+  metricsPort?: string;
+  /** Port or host:port for a local Streamable HTTP endpoint instead of stdio */
+  http?: string;
 }
 
 /**
- * Run the use command.
+ * Run the use command. Several servers are aggregated behind one local MCP host.
  */
-export async function use(serverPubkeyArg: string | undefined, options: UseOptions): Promise<void> {
+export async function use(serverArgs: string[], options: UseOptions): Promise<void> {
   // Parse CLI flags inline (config is handled separately)
   const cliFlags = {
     privateKey: options.privateKey,
     relays: options.relays,
     encryption: options.encryption,
     persistPrivateKey: options.persistPrivateKey,
+    metricsPort: options.metricsPort,
+    http: options.http,
   };
 
   // Load configuration from all sources (CLI flags have highest priority)
   const config = await loadConfig({ use: cliFlags }, options.config);
   const useConfig = getUseConfig(config.use || {});
 
-  // Get server public key early (before generating keys)
-  // Priority: CLI argument > config.serverPubkey > error
-  const serverPubkey = serverPubkeyArg ?? useConfig.serverPubkey;
-  if (!serverPubkey) {
+  // Get server public keys early (before generating keys)
+  // Priority: CLI arguments > config.serverPubkey > error
+  const serverInputs =
+    serverArgs.length > 0 ? serverArgs : useConfig.serverPubkey ? [useConfig.serverPubkey] : [];
+  const firstInput = serverInputs[0];
+  if (firstInput === undefined) {
     showUseHelp();
     process.exit(1);
   }
 
+  // Several servers, or an alias from `servers`, resolve like `cvmi call` targets.
+  let servers: UseServerTarget[] | undefined;
+  if (serverInputs.length > 1 || config.servers?.[firstInput]) {
+    try {
+      servers = resolveUseServers(config, serverInputs, {
+        relays: options.relays,
+        encryption: options.encryption,
+      });
+    } catch (error) {
+      p.log.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+  const aggregated = servers && servers.length > 1 ? servers : undefined;
+  const serverPubkey = servers?.[0]?.server ?? firstInput;
+  const encryption = servers?.[0]?.encryption ?? useConfig.encryption;
+
+  let httpAddress: ListenAddress | undefined;
+  if (useConfig.http !== undefined) {
+    try {
+      // A local endpoint: only listen on loopback unless a host is given.
+      httpAddress = parseListenAddress(useConfig.http);
+    } catch (error) {
+      p.log.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  // Over HTTP without a configured key, every local session gets its own generated identity,
+  // so the server sees each one as a separate client.
+  const keyPerSession =
+    httpAddress !== undefined && !useConfig.privateKey && !options.persistPrivateKey;
+
   // Auto-generate private key if not provided
   let privateKey = useConfig.privateKey;
   if (!privateKey) {
     privateKey = generatePrivateKey();
-    p.log.info('Generated new private key');
+    if (!keyPerSession) p.log.info('Generated new private key');
   }
 
   // Validate/normalize key (accepts hex, 0x-hex, or nsec...)
@@ -68,33 +131,157 @@ export async function use(serverPubkeyArg: string | undefined, options: UseOptio
   }
 
   // Use default relays if none specified
-  const relays = useConfig.relays?.length ? useConfig.relays : DEFAULT_RELAYS;
+  const relays =
+    servers?.[0]?.relays ?? (useConfig.relays?.length ? useConfig.relays : DEFAULT_RELAYS);
 
   // Create signer
   const signer = new PrivateKeySigner(privateKey);
-  const publicKey = await signer.getPublicKey();
-  p.log.info('🔑 Public key: ' + publicKey);
+  if (keyPerSession) {
+    p.log.info('🔑 Each HTTP session uses its own generated key');
+  } else {
+    p.log.info('🔑 Public key: ' + (await signer.getPublicKey()));
+  }
   p.log.info('');
 
-  if (options.verbose) {
+  if (options.verbose && aggregated) {
+    for (const server of aggregated) {
+      p.log.message(`Connecting to ${server.name}: ${server.server} (${server.relays.join(', ')})`);
+    }
+  } else if (options.verbose) {
     p.log.message(`Connecting to server: ${serverPubkey}`);
     p.log.message(`Relays: ${relays.join(', ')}`);
   }
 
-  // Create stdio transport for MCP host
-  const mcpTransport = new StdioServerTransport();
-
-  // Create proxy
-  const proxy = new NostrMCPProxy({
-    mcpHostTransport: mcpTransport,
-    nostrTransportOptions: {
-      signer,
-      relayHandler: relays,
-      serverPubkey,
-      encryptionMode: useConfig.encryption,
-      logLevel: options.verbose ? 'debug' : 'info',
-    },
-  });
+  let metrics: CvmiMetrics | undefined;
+  let metricsServer: Server | undefined;
+  if (useConfig.metricsPort !== undefined) {
+    try {
+      const address = parseListenAddress(useConfig.metricsPort);
+      metrics = new CvmiMetrics('use');
+      metricsServer = await startMetricsServer(metrics, address);
+      p.log.info(`Metrics: ${formatListenAddress(address)}/metrics`);
+    } catch (error) {
+      p.log.error(
+        `Failed to start metrics endpoint: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  }
+
+  // With metrics, every relay pool opens its sockets through one connection tracker.
+  const relayTracker = metrics ? new RelayConnectionTracker() : undefined;
+  if (metrics && relayTracker) {
+    const relayUrls = [
+      ...new Set(aggregated ? aggregated.flatMap((server) => server.relays) : relays),
+    ];
+    metrics.watchRelays(() => relayTracker.getStatus(relayUrls));
+  }
+  const createRelayPool = (urls: string[]) =>
+    new ApplesauceRelayPool(
+      urls,
+      relayTracker ? { relayOptions: { WebSocket: relayTracker.webSocket } } : undefined
+    );
+  const createRelayHandler = (urls: string[]) => {
+    const relayPool = createRelayPool(urls);
+    return new SharedRelayHandler(
+      metrics ? new MeteredRelayHandler(relayPool, metrics) : relayPool
+    );
+  };
+  // Relay connections shared by every HTTP session and every restart of an aggregated
+  // server: one per aggregated server, or one for the single server over HTTP.
+  const relayHandlers = aggregated
+    ? aggregated.map((server) => createRelayHandler(server.relays))
+    : httpAddress
+      ? [createRelayHandler(relays)]
+      : [];
+
+  const createProxy = (hostTransport: Transport, proxySigner: PrivateKeySigner) => {
+    const mcpHostTransport = metrics
+      ? new MeteredHostTransport(hostTransport, metrics)
+      : hostTransport;
+    const logLevel = options.verbose ? 'debug' : 'info';
+    if (!aggregated) {
+      return new NostrMCPProxy({
+        mcpHostTransport,
+        nostrTransportOptions: {
+          signer: proxySigner,
+          relayHandler:
+            relayHandlers[0] ??
+            (metrics ? new MeteredRelayHandler(createRelayPool(relays), metrics) : relays),
+          serverPubkey,
+          encryptionMode: encryption,
+          logLevel,
+        },
+      });
+    }
+
+    const fanOut = new FanOutTransport({
+      targets: aggregated.map((server, index) => ({
+        name: server.name,
+        createTransport: () =>
+          new NostrClientTransport({
+            signer: proxySigner,
+            relayHandler: relayHandlers[index]!,
+            serverPubkey: server.server,
+            encryptionMode: server.encryption,
+            logLevel,
+          }),
+      })),
+      onTargetStatus: (name, status, detail) => {
+        const suffix = detail ? `: ${detail}` : '';
+        if (status === 'exited' || status === 'failed') {
+          p.log.warn(`Server ${name} ${status}${suffix}`);
+        } else if (options.verbose) {
+          p.log.message(`Server ${name} ${status}`);
+        }
+      },
+    });
+    return new TransportProxy(mcpHostTransport, fanOut, (error) => {
+      if (options.verbose) p.log.warn(error.message);
+    });
+  };
+
+  if (httpAddress) {
+    // Each session gets its own proxy (and so its own Nostr client transports) bridging a
+    // local Streamable HTTP session.
+    const host = new HttpSessionHost({
+      openSession: async (hostTransport) => {
+        const sessionSigner = keyPerSession ? new PrivateKeySigner(generatePrivateKey()) : signer;
+        const proxy = createProxy(hostTransport, sessionSigner);
+        await proxy.start();
+        return () => proxy.stop();
+      },
+      onSessionOpened: (id) => {
+        if (options.verbose) p.log.message(`Session ${id} opened (${host.sessionCount} active)`);
+      },
+      onSessionClosed: (id, reason) => {
+        if (options.verbose) p.log.message(`Session ${id} closed (${reason})`);
+      },
+    });
+    try {
+      await host.listen(httpAddress);
+    } catch (error) {
+      p.log.error(
+        `Failed to start HTTP endpoint: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+    p.outro(
+      pc.green(
+        `Proxy listening on ${formatListenAddress(httpAddress)}${MCP_PATH}. Press Ctrl+C to stop.`
+      )
+    );
+
+    const signal = await waitForShutdownSignal();
+    p.log.message(`\n${signal} received. Shutting down...`);
+    await host.close();
+    await Promise.all(relayHandlers.map((handler) => handler.close()));
+    metricsServer?.close();
+    process.exit(0);
+  }
+
+  // Create proxy for the stdio MCP host
+  const proxy = createProxy(new StdioServerTransport(), signer);
 
   // Start proxy
   await proxy.start();
@@ -104,20 +291,26 @@ export async function use(serverPubkeyArg: string | undefined, options: UseOptio
   const signal = await waitForShutdownSignal();
   p.log.message(`\n${signal} received. Shutting down...`);
   await proxy.stop();
+  await Promise.all(relayHandlers.map((handler) => handler.close()));
+  metricsServer?.close();
 
   process.exit(0);
 }
 
 export function showUseHelp(): void {
   console.log(`
-${BOLD}Usage:${RESET} cvmi use <server-pubkey> [options]
+${BOLD}Usage:${RESET} cvmi use <server-pubkey>... [options]
 
 ${BOLD}Description:${RESET}
   Connect to a remote MCP server over Nostr and expose it locally via stdio.
   This allows you to use remote MCP servers as if they were local.
+  With several servers, their tools, prompts and resources are merged and prefixed with
+  the server's name (alias, or the first 8 hex characters of its pubkey): <name>.<tool>,
+  <name>+<uri>.
 
 ${BOLD}Arguments:${RESET}
-  <server-pubkey>         The server identity (hex, npub, or nprofile) of the remote MCP server
+  <server-pubkey>         The server identity (hex, npub, or nprofile) of the remote MCP server,
+                           or an alias from servers in the config. Repeat to aggregate servers.
                            Can also be specified in config file under use.serverPubkey
 
 ${BOLD}Options:${RESET}
@@ -126,6 +319,13 @@ ${BOLD}Options:${RESET}
   --persist-private-key   Save private key to .env file for future use
   --relays <urls>         Comma-separated relay URLs (default: wss://relay.contextvm.org,wss://cvm.otherstuff.ai)
   --encryption-mode       Encryption mode: optional, required, disabled (default: optional)
+  --metrics-port <port>   Serve Prometheus metrics at http://<host:port>/metrics (port or host:port;
+                            default host 127.0.0.1, use 0.0.0.0:<port> to expose it)
+  --http <port>           Serve the remote server as a local Streamable HTTP endpoint at http://<host:port>/mcp
+                            instead of stdio (port, :port or host:port; default host 127.0.0.1). Each local
+                            session gets its own Nostr client session, with its own key unless one is set.
+  --detach                Run in the background, serving --http; manage it with cvmi ps, logs, stop
+  --name <name>           Instance name for --detach (default: derived from the server pubkey)
   --verbose               Enable verbose logging
   --help, -h              Show this help message
 
@@ -160,6 +360,8 @@ ${BOLD}Examples:${RESET}
   ${DIM}$${RESET} cvmi use nprofile1q... ${DIM}# connect using an nprofile with relay hints${RESET}
   ${DIM}$${RESET} cvmi use npub1q... --verbose ${DIM}# verbose logging for debugging${RESET}
   ${DIM}$${RESET} cvmi use npub1q... --relays wss://my-relay.com ${DIM}# use specific relay${RESET}
+  ${DIM}$${RESET} cvmi use weather npub1q... ${DIM}# aggregate an alias and a server: weather.<tool>, <hex8>.<tool>${RESET}
+  ${DIM}$${RESET} cvmi use npub1q... --http :8080 ${DIM}# local Streamable HTTP endpoint at http://127.0.0.1:8080/mcp${RESET}
   ${DIM}$${RESET} cvmi use --help ${DIM}# show this help${RESET}
   `);
 }
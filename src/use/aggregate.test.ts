@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { EncryptionMode } from '@contextvm/sdk';
+import { nip19 } from 'nostr-tools';
+import type { CvmiConfig } from '../config/index.ts';
+import { FanOutTransport } from '../serve/fan-out.ts';
+import { resolveUseServers, TransportProxy } from './aggregate.ts';
+
+const WEATHER = 'a'.repeat(64);
+const SEARCH = 'b'.repeat(64);
+const OTHER = 'c'.repeat(64);
+
+const config: CvmiConfig = {
+  use: { relays: ['wss://use.example'] },
+  servers: {
+    weather: {
+      pubkey: nip19.npubEncode(WEATHER),
+      relays: ['wss://weather.example'],
+      encryption: EncryptionMode.REQUIRED,
+    },
+    'my.search': { pubkey: SEARCH },
+    cccccccc: { pubkey: 'd'.repeat(64) },
+  },
+};
+
+describe('resolveUseServers', () => {
+  it('names servers after their alias or pubkey and keeps alias settings', () => {
+    const servers = resolveUseServers(config, ['weather', 'my.search', OTHER, 'cccccccc']);
+
+    expect(servers.map((server) => server.name)).toEqual([
+      'weather',
+      'my_search',
+      'cccccccc',
+      'cccccccc-2',
+    ]);
+    expect(servers[0]).toMatchObject({
+      pubkey: WEATHER,
+      relays: ['wss://weather.example'],
+      encryption: EncryptionMode.REQUIRED,
+    });
+    expect(servers[1]?.relays).toEqual(['wss://use.example']);
+  });
+
+  it('lets CLI relays and encryption override aliases', () => {
+    const [weather] = resolveUseServers(config, ['weather'], {
+      relays: ['wss://cli.example'],
+      encryption: EncryptionMode.DISABLED,
+    });
+    expect(weather?.relays).toEqual(['wss://cli.example']);
+    expect(weather?.encryption).toBe(EncryptionMode.DISABLED);
+  });
+
+  it('rejects unknown aliases and servers listed twice', () => {
+    expect(() => resolveUseServers(config, ['weather', 'nope'])).toThrow(
+      'Unknown server alias or invalid server identity: nope'
+    );
+    expect(() => resolveUseServers(config, ['weather', WEATHER])).toThrow(
+      `Server ${WEATHER} is listed twice (already given as weather)`
+    );
+  });
+});
+
+describe('TransportProxy', () => {
+  it('bridges a local host to several servers with prefixed tools', async () => {
+    const createTarget = (name: string) => ({
+      name,
+      createTransport: () => {
+        const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+        const server = new McpServer({ name, version: '1.0.0' });
+        server.registerTool('whoami', {}, async () => ({
+          content: [{ type: 'text', text: name }],
+        }));
+        void server.connect(serverSide);
+        return clientSide;
+      },
+    });
+    const [hostSide, clientSide] = InMemoryTransport.createLinkedPair();
+    const proxy = new TransportProxy(
+      hostSide,
+      new FanOutTransport({ targets: [createTarget('weather'), createTarget('search')] })
+    );
+    await proxy.start();
+
+    const client = new Client({ name: 'agent', version: '1.0.0' });
+    await client.connect(clientSide);
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual(['search.whoami', 'weather.whoami']);
+    const result = await client.callTool({ name: 'search.whoami' });
+    expect(result.content).toEqual([{ type: 'text', text: 'search' }]);
+
+    await client.close();
+    await proxy.stop();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Several remote servers behind one local MCP host (`cvmi use <server> <server>...`). Every
+ * server becomes a fan-out target, so its tools and prompts appear as `<name>.<tool>` and its
+ * resources as `<name>+<uri>`.
+ */
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { EncryptionMode } from '@contextvm/sdk';
+import { nip19 } from 'nostr-tools';
+import type { CvmiConfig } from '../config/index.ts';
+import { assertKnownServerInput, getDisplayRelays, resolveServerTarget } from '../call.ts';
+import type { ResolvedServerTarget } from '../call.ts';
+import { normalizePublicKey } from '../utils/crypto.ts';
+
+export interface UseServerTarget extends ResolvedServerTarget {
+  /** Namespace for the server's tools, prompts and resources */
+  name: string;
+  /** Lowercase hex pubkey of the server */
+  pubkey: string;
+  relays: string[];
+}
+
+const INVALID_NAME_CHARS = /[^A-Za-z0-9_-]+/g;
+
+/** Hex pubkey of a hex, npub or nprofile server identity. */
+function serverPubkeyHex(server: string): string {
+  if (server.startsWith('nprofile1')) {
+    const decoded = nip19.decode(server);
+    if (decoded.type === 'nprofile') return decoded.data.pubkey.toLowerCase();
+  }
+  return normalizePublicKey(server);
+}
+
+/**
+ * Resolve each server argument (an alias from `servers` or a hex, npub or nprofile identity)
+ * and name it: the alias name, or the first 8 hex characters of the pubkey. Characters that
+ * can't appear in a namespace become `_`, and a name that is already taken gets a `-2`, `-3`,
+ * ... suffix. Listing the same server twice is an error.
+ */
+export function resolveUseServers(
+  config: CvmiConfig,
+  inputs: string[],
+  options: { relays?: string[]; encryption?: EncryptionMode } = {}
+): UseServerTarget[] {
+  const inputByPubkey = new Map<string, string>();
+  const names = new Set<string>();
+
+  return inputs.map((input) => {
+    assertKnownServerInput(config, input);
+    const target = resolveServerTarget(config, input, options);
+    const pubkey = serverPubkeyHex(target.server);
+    const previous = inputByPubkey.get(pubkey);
+    if (previous !== undefined) {
+      throw new Error(`Server ${input} is listed twice (already given as ${previous})`);
+    }
+    inputByPubkey.set(pubkey, input);
+
+    const base = target.aliasName?.replace(INVALID_NAME_CHARS, '_') || pubkey.slice(0, 8);
+    let name = base;
+    for (let suffix = 2; names.has(name); suffix++) name = `${base}-${suffix}`;
+    names.add(name);
+
+    return {
+      ...target,
+      name,
+      pubkey,
+      relays: target.relays?.length ? target.relays : getDisplayRelays(target),
+    };
+  });
+}
+
+/**
+ * Like `NostrMCPProxy`, but bridges the local host to any transport, here a fan-out over
+ * several Nostr client transports.
+ */
+export class TransportProxy {
+  constructor(
+    private readonly hostTransport: Transport,
+    private readonly remoteTransport: Transport,
+    private readonly onError: (error: Error) => void = () => {}
+  ) {}
+
+  async start(): Promise<void> {
+    const report = (error: unknown) =>
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    this.hostTransport.onmessage = (message) =>
+      void this.remoteTransport.send(message).catch(report);
+    this.hostTransport.onerror = report;
+    this.remoteTransport.onmessage = (message) =>
+      void this.hostTransport.send(message).catch(report);
+    this.remoteTransport.onerror = report;
+
+    await Promise.all([this.hostTransport.start(), this.remoteTransport.start()]);
+  }
+
+  async stop(): Promise<void> {
+    await this.hostTransport.close();
+    await this.remoteTransport.close();
+  }
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AddressInfo } from 'net';
+import { HttpSessionHost, MCP_PATH } from './http-host.ts';
+
+describe('HttpSessionHost', () => {
+  let host: HttpSessionHost | undefined;
+
+  afterEach(async () => {
+    await host?.close();
+  });
+
+  it('bridges every local session separately and closes deleted and idle sessions', async () => {
+    let now = 0;
+    let opened = 0;
+    const closed: string[] = [];
+    host = new HttpSessionHost({
+      // Stand-in for the Nostr proxy: one MCP server per session that knows its number.
+      openSession: async (hostTransport) => {
+        const session = ++opened;
+        const server = new McpServer({ name: 'remote', version: '1.0.0' });
+        server.registerTool('whoami', { description: 'Session number' }, async () => ({
+          content: [{ type: 'text', text: `session ${session}` }],
+        }));
+        await server.connect(hostTransport);
+        return () => server.close();
+      },
+      onSessionClosed: (_id, reason) => closed.push(reason),
+      idleTimeoutMs: 60_000,
+      now: () => now,
+    });
+    const server = await host.listen({ host: '127.0.0.1', port: 0 });
+    const url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}${MCP_PATH}`);
+
+    const connect = async () => {
+      const transport = new StreamableHTTPClientTransport(url);
+      const client = new Client({ name: 'local-host', version: '1.0.0' });
+      await client.connect(transport);
+      return { client, transport };
+    };
+    const whoami = async (client: Client) =>
+      (await client.callTool({ name: 'whoami' })).content as Array<{ text: string }>;
+
+    const first = await connect();
+    const second = await connect();
+    expect(host.sessionCount).toBe(2);
+    expect((await whoami(first.client))[0]?.text).toBe('session 1');
+    expect((await whoami(second.client))[0]?.text).toBe('session 2');
+
+    await first.transport.terminateSession();
+    await first.client.close();
+    expect(closed).toEqual(['deleted']);
+
+    const stale = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': first.transport.sessionId ?? 'missing',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(stale.status).toBe(404);
+
+    // Closing the client drops its GET stream; the session then expires after the timeout.
+    await second.client.close();
+    now = 30_000;
+    await host.sweepIdle();
+    expect(host.sessionCount).toBe(1);
+    await vi.waitFor(async () => {
+      now += 120_000;
+      await host!.sweepIdle();
+      expect(closed).toEqual(['deleted', 'idle']);
+    });
+    expect(host.sessionCount).toBe(0);
+  });
+});
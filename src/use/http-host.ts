@@ -0,0 +1,216 @@
+/**
+ * Local Streamable HTTP endpoint for `cvmi use --http`: every MCP session opened by a local
+ * client gets its own server-side transport, which the caller bridges to its own Nostr
+ * client session.
+ */
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ListenAddress } from '../utils/listen.ts';
+
+/** Path of the MCP endpoint. */
+export const MCP_PATH = '/mcp';
+
+/** Largest accepted request body. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Bridge a new local session; resolves to a function that tears the bridge down. */
+export type OpenSession = (hostTransport: Transport) => Promise<() => Promise<void>>;
+
+export interface HttpSessionHostOptions {
+  openSession: OpenSession;
+  /** Close sessions without requests or open streams for this long (default 30 minutes) */
+  idleTimeoutMs?: number;
+  onSessionOpened?: (sessionId: string) => void;
+  onSessionClosed?: (sessionId: string, reason: 'deleted' | 'idle' | 'shutdown') => void;
+  now?: () => number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  stop: () => Promise<void>;
+  lastActive: number;
+  openStreams: number;
+}
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res
+    .writeHead(status, { 'content-type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Streamable HTTP MCP endpoint with one session per `initialize`. Sessions end when the
+ * client sends DELETE, after `idleTimeoutMs` without activity, or on `close()`.
+ */
+export class HttpSessionHost {
+  private readonly sessions = new Map<string, Session>();
+  private readonly idleTimeoutMs: number;
+  private readonly now: () => number;
+  private server: Server | undefined;
+  /** Host headers accepted when bound to loopback (DNS rebinding protection) */
+  private allowedHosts: string[] | undefined;
+  private sweepTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly options: HttpSessionHostOptions) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /** Start listening; resolves once the endpoint accepts connections. */
+  listen(address: ListenAddress): Promise<Server> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        if (!res.headersSent) {
+          sendJsonRpcError(
+            res,
+            500,
+            -32603,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      });
+    });
+    this.server = server;
+    this.sweepTimer = setInterval(
+      () => void this.sweepIdle(),
+      Math.min(this.idleTimeoutMs, 60_000)
+    );
+    this.sweepTimer.unref();
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(address.port, address.host, () => {
+        server.off('error', reject);
+        // Only accept Host headers naming the endpoint when it is bound to loopback, so a
+        // web page can't reach it through DNS rebinding.
+        const { port } = server.address() as AddressInfo;
+        this.allowedHosts = LOOPBACK_HOSTS.has(address.host)
+          ? ['127.0.0.1', 'localhost', '[::1]'].map((host) => `${host}:${port}`)
+          : undefined;
+        resolve(server);
+      });
+    });
+  }
+
+  /** Close every session and stop listening. */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all([...this.sessions.keys()].map((id) => this.closeSession(id, 'shutdown')));
+    const server = this.server;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Close sessions that have been idle for longer than `idleTimeoutMs`. */
+  async sweepIdle(): Promise<void> {
+    const cutoff = this.now() - this.idleTimeoutMs;
+    const idle = [...this.sessions].filter(
+      ([, session]) => session.openStreams === 0 && session.lastActive < cutoff
+    );
+    await Promise.all(idle.map(([id]) => this.closeSession(id, 'idle')));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path !== MCP_PATH) {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found\n');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastActive = this.now();
+      if (req.method === 'GET') {
+        session.openStreams += 1;
+        res.once('close', () => {
+          session.openStreams -= 1;
+          session.lastActive = this.now();
+        });
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+    await this.openSession(req, res, body);
+  }
+
+  private async openSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    let session: Session | undefined;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        if (!session) return;
+        this.sessions.set(id, session);
+        this.options.onSessionOpened?.(id);
+      },
+      onsessionclosed: (id) => void this.closeSession(id, 'deleted'),
+      enableDnsRebindingProtection: this.allowedHosts !== undefined,
+      allowedHosts: this.allowedHosts,
+    });
+
+    session = {
+      transport,
+      stop: await this.options.openSession(transport),
+      lastActive: this.now(),
+      openStreams: 0,
+    };
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+      await session.stop();
+    }
+  }
+
+  private async closeSession(id: string, reason: 'deleted' | 'idle' | 'shutdown'): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    await session.stop().catch(() => {});
+    this.options.onSessionClosed?.(id, reason);
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import type { RelayHandler } from '@contextvm/sdk';
+import { SharedRelayHandler } from './shared-relay.ts';
+
+describe('SharedRelayHandler', () => {
+  it('connects once and only disconnects on close', async () => {
+    const calls: string[] = [];
+    const inner = {
+      connect: async () => void calls.push('connect'),
+      disconnect: async () => void calls.push('disconnect'),
+      unsubscribe: () => void calls.push('unsubscribe'),
+      getRelayUrls: () => ['wss://relay.example'],
+    } as unknown as RelayHandler;
+    const shared = new SharedRelayHandler(inner);
+
+    await Promise.all([shared.connect(), shared.connect()]);
+    await shared.disconnect();
+    shared.unsubscribe();
+    expect(calls).toEqual(['connect']);
+
+    await shared.close();
+    expect(calls).toEqual(['connect', 'disconnect']);
+    expect(shared.getRelayUrls()).toEqual(['wss://relay.example']);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * One relay connection shared by several Nostr client transports (one per local HTTP session).
+ */
+import type { NostrEvent, Filter } from 'nostr-tools';
+import type { RelayHandler } from '@contextvm/sdk';
+
+/**
+ * Relay handler that many transports can use at once. Transports disconnect their relay
+ * handler when they close, so `disconnect` and the global `unsubscribe` are no-ops here;
+ * each transport still drops its own subscriptions. `close()` disconnects for real.
+ */
+export class SharedRelayHandler implements RelayHandler {
+  private connecting: Promise<void> | undefined;
+
+  constructor(private readonly inner: RelayHandler) {}
+
+  connect(): Promise<void> {
+    this.connecting ??= this.inner.connect().catch((error: unknown) => {
+      this.connecting = undefined;
+      throw error;
+    });
+    return this.connecting;
+  }
+
+  async disconnect(): Promise<void> {}
+
+  publish(event: NostrEvent, opts?: { abortSignal?: AbortSignal }): Promise<void> {
+    return this.inner.publish(event, opts);
+  }
+
+  subscribe(
+    filters: Filter[],
+    onEvent: (event: NostrEvent) => void,
+    onEose?: () => void
+  ): Promise<() => void> {
+    return this.inner.subscribe(filters, onEvent, onEose);
+  }
+
+  unsubscribe(): void {}
+
+  getRelayUrls(): string[] {
+    return this.inner.getRelayUrls();
+  }
+
+  async close(): Promise<void> {
+    this.connecting = undefined;
+    await this.inner.disconnect();
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatListenAddress, parseListenAddress } from './listen.ts';
+
+describe('utils/listen', () => {
+  it('accepts a bare port, :port and host:port', () => {
+    expect(parseListenAddress(9464)).toEqual({ host: '127.0.0.1', port: 9464 });
+    expect(parseListenAddress(':9464')).toEqual({ host: '127.0.0.1', port: 9464 });
+    expect(parseListenAddress('0.0.0.0:9464')).toEqual({ host: '0.0.0.0', port: 9464 });
+    expect(parseListenAddress('localhost:8080')).toEqual({ host: 'localhost', port: 8080 });
+    expect(parseListenAddress('[::1]:8080')).toEqual({ host: '::1', port: 8080 });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseListenAddress('http://x:80')).toThrow('Invalid listen address "http://x:80"');
+    expect(() => parseListenAddress('70000')).toThrow('Invalid listen address');
+  });
+
+  it('formats addresses as URLs', () => {
+    expect(formatListenAddress({ host: '::1', port: 80 })).toBe('http://[::1]:80');
+  });
+});
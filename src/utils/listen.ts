@@ -0,0 +1,69 @@
+/**
+ * Listen addresses and small GET-only HTTP endpoints cvmi can expose (metrics, health, ...).
+ */
+import { createServer } from 'http';
+import type { Server } from 'http';
+
+export interface ListenAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Parse `port`, `:port`, or `host:port` (IPv6 hosts in brackets). Without a host,
+ * the endpoint listens on loopback only; `0.0.0.0:port` exposes it to the network.
+ */
+export function parseListenAddress(
+  value: string | number,
+  defaultHost = '127.0.0.1'
+): ListenAddress {
+  const raw = String(value).trim();
+  const match = /^(?:(\[[^\]]+\]|[^:]*):)?(\d+)$/.exec(raw);
+  const port = match ? Number(match[2]) : NaN;
+
+  if (!match || !Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid listen address "${raw}" (expected port, :port, or host:port)`);
+  }
+
+  const host = match[1]?.replace(/^\[(.*)\]$/, '$1') || defaultHost;
+  return { host, port };
+}
+
+/** Format a listen address for logs, e.g. `http://127.0.0.1:9464`. */
+export function formatListenAddress({ host, port }: ListenAddress): string {
+  return `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+export interface HttpReply {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Serve a fixed set of GET routes on `address`, answering 404 for anything else.
+ * Resolves once the server is listening.
+ */
+export function startHttpEndpoint(
+  address: ListenAddress,
+  routes: Record<string, () => HttpReply>
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0] ?? '/';
+    const route = req.method === 'GET' && Object.hasOwn(routes, path) ? routes[path] : undefined;
+    if (!route) {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found\n');
+      return;
+    }
+    const reply = route();
+    res.writeHead(reply.status, { 'content-type': reply.contentType }).end(reply.body);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(address.port, address.host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RelayConnectionTracker } from './relay-status.ts';
+
+class FakeWebSocket extends EventTarget {
+  static sockets: FakeWebSocket[] = [];
+
+  constructor(readonly url: string) {
+    super();
+    FakeWebSocket.sockets.push(this);
+  }
+}
+
+describe('RelayConnectionTracker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWebSocket.sockets = [];
+  });
+
+  it('reports a relay connected while one of its sockets is open', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const tracker = new RelayConnectionTracker();
+    const relays = ['wss://a.example', 'wss://b.example'];
+
+    const socket = new tracker.webSocket('wss://a.example/');
+    expect(socket).toBeInstanceOf(FakeWebSocket);
+    expect(tracker.getStatus(relays)).toEqual([
+      { url: 'wss://a.example', connected: false },
+      { url: 'wss://b.example', connected: false },
+    ]);
+
+    socket.dispatchEvent(new Event('open'));
+    expect(tracker.getStatus(relays)[0]).toEqual({ url: 'wss://a.example', connected: true });
+
+    // A socket that never opened does not count when it closes.
+    new tracker.webSocket('wss://a.example/').dispatchEvent(new Event('close'));
+    expect(tracker.getStatus(relays)[0]?.connected).toBe(true);
+
+    socket.dispatchEvent(new Event('close'));
+    expect(tracker.getStatus(relays)[0]?.connected).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Per-relay connection state, recorded from the WebSocket connections the relay pool opens.
+ */
+export interface RelayStatus {
+  url: string;
+  connected: boolean;
+}
+
+function normalizeRelayUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Counts the open WebSocket connections per relay. Pass `webSocket` to the SDK's relay
+ * pool as `relayOptions.WebSocket`; it opens sockets with the runtime's WebSocket (which
+ * the pool installs on Node.js) and watches them open and close.
+ */
+export class RelayConnectionTracker {
+  private readonly openSockets = new Map<string, number>();
+
+  readonly webSocket: typeof WebSocket;
+
+  constructor() {
+    const tracker = this;
+    // A plain function, so `new` returns the runtime's socket itself.
+    this.webSocket = function TrackedWebSocket(url: string | URL, protocols?: string | string[]) {
+      const socket = new globalThis.WebSocket(url, protocols);
+      const relay = normalizeRelayUrl(String(url));
+      let open = false;
+      socket.addEventListener('open', () => {
+        open = true;
+        tracker.openSockets.set(relay, (tracker.openSockets.get(relay) ?? 0) + 1);
+      });
+      socket.addEventListener('close', () => {
+        if (!open) return;
+        open = false;
+        const count = (tracker.openSockets.get(relay) ?? 1) - 1;
+        if (count > 0) tracker.openSockets.set(relay, count);
+        else tracker.openSockets.delete(relay);
+      });
+      return socket;
+    } as unknown as typeof WebSocket;
+  }
+
+  /** Report each of `relayUrls` as connected or not. */
+  getStatus(relayUrls: string[]): RelayStatus[] {
+    return relayUrls.map((url) => ({
+      url,
+      connected: this.openSockets.has(normalizeRelayUrl(url)),
+    }));
+  }
+}
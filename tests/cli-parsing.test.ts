@@ -125,6 +125,72 @@ describe('CLI Argument Parsing', () => {
       expect(result.unknownFlags).toEqual(['--env (expected KEY=VALUE)']);
       expect(result.env).toBeUndefined();
     });
+
+    it('parses --max-restarts and rejects non-integers', () => {
+      expect(__test__.parseServeArgs(['--max-restarts', '0', 'npx', 'server']).maxRestarts).toBe(0);
+
+      const result = __test__.parseServeArgs(['--max-restarts', 'lots', 'npx', 'server']);
+      expect(result.unknownFlags).toEqual(['--max-restarts (expected a non-negative integer)']);
+      expect(result.maxRestarts).toBeUndefined();
+    });
+
+    it('parses --audit-log <path>', () => {
+      const result = __test__.parseServeArgs([
+        '--audit-log',
+        '/var/log/cvmi.jsonl',
+        'npx',
+        'server',
+      ]);
+      expect(result.auditLog).toBe('/var/log/cvmi.jsonl');
+      expect(result.serverArgs).toEqual(['npx', 'server']);
+    });
+
+    it('parses --metrics-port', () => {
+      const result = __test__.parseServeArgs(['--metrics-port', '127.0.0.1:9464', 'npx', 'server']);
+      expect(result.metricsPort).toBe('127.0.0.1:9464');
+      expect(result.serverArgs).toEqual(['npx', 'server']);
+    });
+
+    it('parses --detach and --name', () => {
+      const result = __test__.parseServeArgs(['--detach', '--name', 'fs', '--', 'npx', 'server']);
+      expect(result.detach).toBe(true);
+      expect(result.name).toBe('fs');
+      expect(result.serverArgs).toEqual(['npx', 'server']);
+    });
+
+    it('parses --transport and rejects unknown transports', () => {
+      expect(
+        __test__.parseServeArgs(['--transport', 'sse', 'https://mcp.example.com/events']).transport
+      ).toBe('sse');
+      expect(
+        __test__.parseServeArgs(['--transport', 'grpc', 'https://mcp.example.com']).unknownFlags
+      ).toEqual(['--transport (expected auto, streamable, sse, ws)']);
+    });
+
+    it('parses --module and rejects it together with a server command', () => {
+      expect(__test__.parseServeArgs(['--module', './server.ts', '--public'])).toMatchObject({
+        module: './server.ts',
+        public: true,
+        serverArgs: [],
+        unknownFlags: [],
+      });
+      expect(
+        __test__.parseServeArgs(['--module', './server.ts', '--', 'npx', 'server']).unknownFlags
+      ).toEqual(['--module (cannot be combined with a server command or URL)']);
+    });
+
+    it('parses --emit and rejects unknown formats', () => {
+      expect(__test__.parseServeArgs(['--emit', 'compose', 'npx', 'server']).emit).toBe('compose');
+      expect(__test__.parseServeArgs(['--emit', 'k8s', 'npx', 'server']).unknownFlags).toEqual([
+        '--emit (expected systemd, docker, compose)',
+      ]);
+    });
+
+    it('parses --health-port', () => {
+      const result = __test__.parseServeArgs(['--health-port', '8081', '--', 'npx', 'server']);
+      expect(result.healthPort).toBe('8081');
+      expect(result.serverArgs).toEqual(['npx', 'server']);
+    });
   });
 
   describe('parseUseArgs', () => {
@@ -162,6 +228,30 @@ describe('CLI Argument Parsing', () => {
       expect(result.verbose).toBe(true);
     });
 
+    it('parses --metrics-port', () => {
+      const result = __test__.parseUseArgs(['npub1server', '--metrics-port', '9465']);
+      expect(result.metricsPort).toBe('9465');
+      expect(result.serverPubkey).toBe('npub1server');
+    });
+
+    it('parses --http', () => {
+      const result = __test__.parseUseArgs(['npub1server', '--http', ':8080']);
+      expect(result.http).toBe(':8080');
+      expect(result.serverPubkey).toBe('npub1server');
+    });
+
+    it('collects several positional servers', () => {
+      const result = __test__.parseUseArgs(['weather', '--verbose', 'npub1search']);
+      expect(result.servers).toEqual(['weather', 'npub1search']);
+      expect(result.serverPubkey).toBe('weather');
+    });
+
+    it('parses --detach', () => {
+      const result = __test__.parseUseArgs(['npub1server', '--detach']);
+      expect(result.detach).toBe(true);
+      expect(result.serverPubkey).toBe('npub1server');
+    });
+
     it('parses --persist-private-key flag', () => {
       const result = __test__.parseUseArgs(['--persist-private-key', 'npub1server']);
       expect(result.persistPrivateKey).toBe(true);
@@ -45,6 +45,7 @@ describe('Environment Variable Loading', () => {
     delete process.env.CVMI_SERVE_ENCRYPTION;
     delete process.env.CVMI_SERVE_URL;
     delete process.env.CVMI_GATEWAY_URL;
+    delete process.env.CVMI_SERVE_ENV_KEYS;
     delete process.env.CVMI_PROXY_PRIVATE_KEY;
     delete process.env.CVMI_PROXY_RELAYS;
     delete process.env.CVMI_PROXY_SERVER_PUBKEY;
@@ -98,6 +99,17 @@ describe('Environment Variable Loading', () => {
     expect(config.serve?.url).toBe('https://example.com/mcp');
   });
 
+  it('loads serve env from the variables named in CVMI_SERVE_ENV_KEYS', () => {
+    process.env.CVMI_SERVE_ENV_KEYS = 'CVMI_TEST_TOKEN, CVMI_TEST_UNSET';
+    process.env.CVMI_TEST_TOKEN = 'secret';
+    try {
+      const config = loadConfigFromEnv();
+      expect(config.serve?.env).toEqual({ CVMI_TEST_TOKEN: 'secret' });
+    } finally {
+      delete process.env.CVMI_TEST_TOKEN;
+    }
+  });
+
   it('loads use config from environment (legacy PROXY var)', () => {
     process.env.CVMI_PROXY_PRIVATE_KEY = 'proxy-key';
     process.env.CVMI_PROXY_SERVER_PUBKEY = 'proxy-pubkey';